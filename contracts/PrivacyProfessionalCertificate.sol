@@ -1,14 +1,31 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint64, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, euint8, ebool, externalEuint64, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract PrivacyProfessionalCertificate is SepoliaConfig {
 
     address public owner;
+
+    // Certificate, request and renewal request IDs are assigned from 1; 0 never names a record
     uint256 public nextCertificateId;
 
+    // Validity of certificates in professions without a validity policy
+    uint256 public constant CERTIFICATE_VALIDITY = 365 days;
+    uint256 public constant MAX_DISCLOSURE_DURATION = 30 days;
+
+    // Revoked (by an issuer) and Withdrawn (by the holder) are permanent;
+    // Suspended lasts while the registry is paused or the issuer is suspended
+    enum CertificateStatus { Valid, Revoked, Suspended, Expired, Withdrawn }
+
+    // Encrypted statements a holder can disclose instead of the score or level itself
+    enum DisclosurePredicate { ScoreAtLeast, LevelAtLeast }
+
+    // Pending covers both requests awaiting an issuer and requests under encrypted evaluation
+    enum RequestStatus { Pending, Approved, Rejected, Withdrawn }
+
+    // Bound to its holder: there is no transfer, only withdrawal by the holder
     struct Certificate {
         address holder;
         string profession;
@@ -17,8 +34,19 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         bool isValid;
         uint256 issueDate;
         uint256 expiryDate;
-        string issuer;
+        address issuedBy;
         bytes32 hashedCredentials;
+        uint256 renewalCount;
+        bool withdrawnByHolder;
+    }
+
+    // Registry entry of a certifying organization; kept after revocation so old certificates still name it
+    struct Issuer {
+        address account;
+        string organization;
+        string[] professions;
+        bool active;
+        uint256 authorizedAt;
     }
 
     struct CertificationRequest {
@@ -26,50 +54,227 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         string profession;
         euint64 encryptedScore;
         euint8 encryptedLevel;
+        ebool isInRange;
         bool isProcessed;
         bool isApproved;
         uint256 requestTime;
         string evidence;
+        RequestStatus status;
+    }
+
+    // Re-assessment of a certificate with a new encrypted score; the level is carried over
+    struct RenewalRequest {
+        uint256 certificateId;
+        euint64 encryptedScore;
+        ebool isInRange;
+        bool isProcessed;
+        bool isApproved;
+        uint256 requestTime;
+    }
+
+    // One decided renewal request; `newExpiry` equals `previousExpiry` when it was rejected
+    struct RenewalRecord {
+        uint256 renewalRequestId;
+        address issuer;
+        bool approved;
+        uint256 decidedAt;
+        uint256 previousExpiry;
+        uint256 newExpiry;
+    }
+
+    // Holder-approved statement about a certificate that one verifier may decrypt before `expiresAt`.
+    // `result` is computed when the verifier redeems it, from the certificate as it stands then
+    struct Disclosure {
+        uint256 certificateId;
+        address verifier;
+        DisclosurePredicate predicate;
+        uint64 threshold;
+        uint256 expiresAt;
+        bool revoked;
+        bool redeemed;
+        ebool result;
+    }
+
+    // How long a profession's certificates and renewals are valid; issuers may choose their own
+    // period between `minOverride` and `maxOverride`, which always include `period`
+    struct ValidityPolicy {
+        uint64 period;
+        uint64 minOverride;
+        uint64 maxOverride;
     }
 
     mapping(uint256 => Certificate) public certificates;
     mapping(address => uint256[]) public holderCertificates;
+    mapping(string => uint256[]) private professionCertificates;
+    mapping(address => uint256[]) private issuerCertificates;
     mapping(uint256 => CertificationRequest) public certificationRequests;
-    mapping(address => bool) public authorizedIssuers;
+    mapping(uint256 => string) public rejectionReasons;
+    mapping(address => uint256[]) private applicantRequests;
+    mapping(address => Issuer) private issuers;
+    mapping(address => mapping(string => bool)) public issuerScope;
     mapping(string => uint256) public minimumScoreRequirement;
     mapping(string => uint8) public minimumLevelRequirement;
+    // Distinct issuers that must endorse a request before it is evaluated; 0 (never set) means 1
+    mapping(string => uint256) public endorsementQuorum;
+    // Unset (period 0) means CERTIFICATE_VALIDITY with no issuer overrides
+    mapping(string => ValidityPolicy) public validityPolicies;
+    // Issuer's own validity period per profession; 0 uses the profession's period
+    mapping(address => mapping(string => uint256)) public issuerValidity;
+    mapping(address => bool) public suspendedIssuers;
+    mapping(uint256 => RenewalRequest) public renewalRequests;
+    mapping(uint256 => uint256) public pendingRenewal;
+    mapping(uint256 => RenewalRecord[]) private renewalHistory;
+    mapping(uint256 => Disclosure) private disclosures;
+    mapping(uint256 => uint256[]) private certificateDisclosures;
+    mapping(address => uint256[]) private verifierDisclosures;
+    mapping(uint256 => address[]) private requestEndorsements;
+    mapping(uint256 => mapping(address => bool)) public hasEndorsed;
 
     uint256 public nextRequestId;
+    uint256 public nextRenewalRequestId;
+    uint256 public nextDisclosureId;
+    bool public paused;
+
+    // Requests no issuer has picked up yet; removal swaps in the last entry, so the order is not filing order
+    uint256[] private pendingQueue;
+    mapping(uint256 => uint256) private pendingQueuePosition; // index + 1, 0 when not queued
+
+    // Certification requests waiting for the decryption oracle, by decryption request ID
+    struct PendingDecision {
+        uint256 requestId;
+        address issuer;
+    }
+
+    mapping(uint256 => PendingDecision) private pendingDecisions;
+    mapping(uint256 => PendingDecision) private pendingRenewalDecisions;
+
+    error CertificateNotFound(uint256 certificateId);
+    error RequestNotFound(uint256 requestId);
+    error RenewalRequestNotFound(uint256 renewalRequestId);
+    error DisclosureNotFound(uint256 disclosureId);
 
     event CertificateIssued(uint256 indexed certificateId, address indexed holder, string profession);
     event CertificationRequested(uint256 indexed requestId, address indexed applicant, string profession);
     event CertificationApproved(uint256 indexed requestId, uint256 indexed certificateId);
     event CertificationRejected(uint256 indexed requestId, string reason);
+    event CertificationEndorsed(uint256 indexed requestId, address indexed issuer, uint256 endorsements, uint256 quorum);
+    event CertificationEvaluationRequested(uint256 indexed requestId, uint256 decryptionRequestId);
+    event CertificationRequestWithdrawn(uint256 indexed requestId, address indexed applicant);
     event CertificateRevoked(uint256 indexed certificateId, string reason);
+    event CertificateWithdrawn(uint256 indexed certificateId, address indexed holder);
     event IssuerAuthorized(address indexed issuer, string organization);
     event IssuerRevoked(address indexed issuer);
+    event IssuerScopeUpdated(address indexed issuer, string profession, bool accredited);
+    event ProfessionValidityUpdated(string profession, uint64 period, uint64 minOverride, uint64 maxOverride);
+    event IssuerValidityUpdated(address indexed issuer, string profession, uint256 period);
+    event Paused(address account);
+    event Unpaused(address account);
+    event IssuerSuspended(address indexed issuer);
+    event IssuerReinstated(address indexed issuer);
+    event RenewalRequested(uint256 indexed renewalRequestId, uint256 indexed certificateId, address indexed holder);
+    event RenewalEvaluationRequested(uint256 indexed renewalRequestId, uint256 decryptionRequestId);
+    event CertificateRenewed(uint256 indexed certificateId, uint256 indexed renewalRequestId, uint256 newExpiry);
+    event RenewalRejected(uint256 indexed renewalRequestId, uint256 indexed certificateId, string reason);
+    event DisclosureCreated(
+        uint256 indexed disclosureId,
+        uint256 indexed certificateId,
+        address indexed verifier,
+        DisclosurePredicate predicate,
+        uint64 threshold,
+        uint256 expiresAt
+    );
+    event DisclosureRevoked(uint256 indexed disclosureId);
+    event DisclosureRedeemed(uint256 indexed disclosureId, address indexed verifier);
 
+    // Widely used modifiers delegate to private checks, so their code is not repeated in every function
     modifier onlyOwner() {
-        require(msg.sender == owner, "Not authorized");
+        _requireOwner();
         _;
     }
 
     modifier onlyAuthorizedIssuer() {
-        require(authorizedIssuers[msg.sender] || msg.sender == owner, "Not authorized issuer");
+        require(issuers[msg.sender].active || msg.sender == owner, "Not authorized issuer");
+        require(!suspendedIssuers[msg.sender], "Issuer suspended");
+        _;
+    }
+
+    // Registered, active and not suspended: the owner alone cannot certify
+    modifier onlyRegisteredIssuer() {
+        _requireRegisteredIssuer();
+        _;
+    }
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    modifier existingCertificate(uint256 _certificateId) {
+        _requireCertificate(_certificateId);
+        _;
+    }
+
+    modifier existingRequest(uint256 _requestId) {
+        _requireRequest(_requestId);
+        _;
+    }
+
+    modifier existingDisclosure(uint256 _disclosureId) {
+        if (_disclosureId == 0 || _disclosureId >= nextDisclosureId) revert DisclosureNotFound(_disclosureId);
+        _;
+    }
+
+    modifier existingRenewalRequest(uint256 _renewalRequestId) {
+        if (_renewalRequestId == 0 || _renewalRequestId >= nextRenewalRequestId) {
+            revert RenewalRequestNotFound(_renewalRequestId);
+        }
+        _;
+    }
+
+    // Certificates of a suspended issuer cannot be changed until it is reinstated
+    modifier notFrozen(uint256 _certificateId) {
+        require(!suspendedIssuers[certificates[_certificateId].issuedBy], "Issuer suspended");
         _;
     }
 
     modifier validCertificate(uint256 _certificateId) {
-        require(_certificateId > 0 && _certificateId <= nextCertificateId, "Invalid certificate ID");
+        _requireValidCertificate(_certificateId);
+        _;
+    }
+
+    function _requireOwner() private view {
+        require(msg.sender == owner, "Not authorized");
+    }
+
+    function _requireRegisteredIssuer() private view {
+        require(issuers[msg.sender].active, "Not authorized issuer");
+        require(!suspendedIssuers[msg.sender], "Issuer suspended");
+    }
+
+    function _requireNotPaused() private view {
+        require(!paused, "Registry paused");
+    }
+
+    function _requireRequest(uint256 _requestId) private view {
+        if (_requestId == 0 || _requestId >= nextRequestId) revert RequestNotFound(_requestId);
+    }
+
+    function _requireCertificate(uint256 _certificateId) private view {
+        if (_certificateId == 0 || _certificateId >= nextCertificateId) revert CertificateNotFound(_certificateId);
+    }
+
+    function _requireValidCertificate(uint256 _certificateId) private view {
+        _requireCertificate(_certificateId);
         require(certificates[_certificateId].isValid, "Certificate not valid");
         require(certificates[_certificateId].expiryDate > block.timestamp, "Certificate expired");
-        _;
     }
 
     constructor() {
         owner = msg.sender;
         nextCertificateId = 1;
         nextRequestId = 1;
+        nextRenewalRequestId = 1;
+        nextDisclosureId = 1;
 
         // Set default minimum requirements for common professions
         minimumScoreRequirement["Software Engineer"] = 75;
@@ -85,74 +290,275 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         minimumLevelRequirement["Project Manager"] = 3;
     }
 
-    function authorizeIssuer(address _issuer, string memory _organization) external onlyOwner {
-        authorizedIssuers[_issuer] = true;
+    /// @dev Registers `_issuer` for `_professions`, replacing the organization and scope of an earlier registration
+    function authorizeIssuer(
+        address _issuer,
+        string memory _organization,
+        string[] memory _professions
+    ) external onlyOwner {
+        require(_issuer != address(0), "Invalid issuer address");
+        require(bytes(_organization).length > 0, "Organization required");
+
+        Issuer storage issuer = issuers[_issuer];
+        for (uint256 i = 0; i < issuer.professions.length; i++) {
+            issuerScope[_issuer][issuer.professions[i]] = false;
+        }
+        delete issuer.professions;
+
+        issuer.account = _issuer;
+        issuer.organization = _organization;
+        issuer.active = true;
+        issuer.authorizedAt = block.timestamp;
         emit IssuerAuthorized(_issuer, _organization);
+
+        for (uint256 i = 0; i < _professions.length; i++) {
+            _addIssuerScope(_issuer, _professions[i]);
+        }
     }
 
     function revokeIssuer(address _issuer) external onlyOwner {
-        authorizedIssuers[_issuer] = false;
+        require(issuers[_issuer].active, "Issuer not active");
+        issuers[_issuer].active = false;
         emit IssuerRevoked(_issuer);
     }
 
+    function addIssuerScope(address _issuer, string memory _profession) external onlyOwner {
+        require(issuers[_issuer].active, "Issuer not active");
+        _addIssuerScope(_issuer, _profession);
+    }
+
+    function removeIssuerScope(address _issuer, string memory _profession) external onlyOwner {
+        require(issuerScope[_issuer][_profession], "Profession not in scope");
+        issuerScope[_issuer][_profession] = false;
+
+        string[] storage professions = issuers[_issuer].professions;
+        bytes32 target = keccak256(bytes(_profession));
+        for (uint256 i = 0; i < professions.length; i++) {
+            if (keccak256(bytes(professions[i])) == target) {
+                professions[i] = professions[professions.length - 1];
+                professions.pop();
+                break;
+            }
+        }
+        emit IssuerScopeUpdated(_issuer, _profession, false);
+    }
+
+    function _addIssuerScope(address _issuer, string memory _profession) private {
+        require(bytes(_profession).length > 0, "Profession required");
+        require(!issuerScope[_issuer][_profession], "Profession already in scope");
+        issuerScope[_issuer][_profession] = true;
+        issuers[_issuer].professions.push(_profession);
+        emit IssuerScopeUpdated(_issuer, _profession, true);
+    }
+
+    function authorizedIssuers(address _issuer) public view returns (bool) {
+        return issuers[_issuer].active;
+    }
+
+    function getIssuer(address _issuer) external view returns (Issuer memory) {
+        return issuers[_issuer];
+    }
+
+    /// @param _quorum Number of accredited issuers that must endorse a request; applies to pending requests too
     function setProfessionRequirements(
         string memory _profession,
         uint256 _minScore,
-        uint8 _minLevel
+        uint8 _minLevel,
+        uint256 _quorum
     ) external onlyOwner {
+        require(_minScore <= 100, "Score must be between 0-100");
+        require(_minLevel <= 10, "Level must be between 1-10");
+        require(_quorum > 0, "Quorum must be at least 1");
         minimumScoreRequirement[_profession] = _minScore;
         minimumLevelRequirement[_profession] = _minLevel;
+        endorsementQuorum[_profession] = _quorum;
+    }
+
+    /// @param _minOverride Shortest period an issuer may choose; set both bounds to `_period` to allow no overrides
+    /// @notice Applies to certificates issued and renewed from now on; issuer overrides outside the new
+    /// bounds are clamped into them
+    function setProfessionValidity(
+        string memory _profession,
+        uint64 _period,
+        uint64 _minOverride,
+        uint64 _maxOverride
+    ) external onlyOwner {
+        require(_period > 0, "Validity period required");
+        require(_minOverride <= _period && _period <= _maxOverride, "Bounds must include the period");
+        validityPolicies[_profession] = ValidityPolicy(_period, _minOverride, _maxOverride);
+        emit ProfessionValidityUpdated(_profession, _period, _minOverride, _maxOverride);
     }
 
+    /// @dev Sets the validity of certificates the caller issues or renews in `_profession`; 0 restores the
+    /// profession's period
+    function setIssuerValidity(string memory _profession, uint256 _period) external onlyRegisteredIssuer {
+        require(issuerScope[msg.sender][_profession], "Profession outside issuer scope");
+        ValidityPolicy storage policy = validityPolicies[_profession];
+        require(
+            _period == 0 || (_period >= policy.minOverride && _period <= policy.maxOverride),
+            "Validity outside profession bounds"
+        );
+        issuerValidity[msg.sender][_profession] = _period;
+        emit IssuerValidityUpdated(msg.sender, _profession, _period);
+    }
+
+    /// @dev Validity that `_issuer` gives certificates and renewals in `_profession`
+    function getValidityPeriod(address _issuer, string memory _profession) public view returns (uint256) {
+        ValidityPolicy storage policy = validityPolicies[_profession];
+        if (policy.period == 0) {
+            return CERTIFICATE_VALIDITY;
+        }
+        uint256 period = issuerValidity[_issuer][_profession];
+        if (period == 0) {
+            return policy.period;
+        }
+        if (period < policy.minOverride) {
+            return policy.minOverride;
+        }
+        return period > policy.maxOverride ? policy.maxOverride : period;
+    }
+
+    /// @notice Leaks the score and level in calldata; prefer `requestEncryptedCertification`
     function requestCertification(
         string memory _profession,
         uint64 _score,
         uint8 _level,
         string memory _evidence
-    ) external {
+    ) external whenNotPaused {
         require(_score <= 100, "Score must be between 0-100");
         require(_level <= 10, "Level must be between 1-10");
-        require(bytes(_profession).length > 0, "Profession required");
-        require(bytes(_evidence).length > 0, "Evidence required");
 
         // Encrypt sensitive data
         euint64 encryptedScore = FHE.asEuint64(_score);
         euint8 encryptedLevel = FHE.asEuint8(_level);
 
+        _storeCertificationRequest(_profession, encryptedScore, encryptedLevel, FHE.asEbool(true), _evidence);
+    }
+
+    /// @dev Files a request with a score and level encrypted in the browser
+    /// @param _inputProof Proof shared by both encrypted inputs
+    /// @notice Out-of-range values cannot revert without revealing them, so the range check is
+    /// stored encrypted and makes `processCertificationRequest` reject the request
+    function requestEncryptedCertification(
+        string memory _profession,
+        externalEuint64 _score,
+        externalEuint8 _level,
+        bytes calldata _inputProof,
+        string memory _evidence
+    ) external whenNotPaused {
+        euint64 encryptedScore = FHE.fromExternal(_score, _inputProof);
+        euint8 encryptedLevel = FHE.fromExternal(_level, _inputProof);
+        ebool isInRange = FHE.and(FHE.le(encryptedScore, uint64(100)), FHE.le(encryptedLevel, uint8(10)));
+
+        _storeCertificationRequest(_profession, encryptedScore, encryptedLevel, isInRange, _evidence);
+    }
+
+    function _storeCertificationRequest(
+        string memory _profession,
+        euint64 _encryptedScore,
+        euint8 _encryptedLevel,
+        ebool _isInRange,
+        string memory _evidence
+    ) private {
+        require(bytes(_profession).length > 0, "Profession required");
+        require(bytes(_evidence).length > 0, "Evidence required");
+
         certificationRequests[nextRequestId] = CertificationRequest({
             applicant: msg.sender,
             profession: _profession,
-            encryptedScore: encryptedScore,
-            encryptedLevel: encryptedLevel,
+            encryptedScore: _encryptedScore,
+            encryptedLevel: _encryptedLevel,
+            isInRange: _isInRange,
             isProcessed: false,
             isApproved: false,
             requestTime: block.timestamp,
-            evidence: _evidence
+            evidence: _evidence,
+            status: RequestStatus.Pending
         });
+        applicantRequests[msg.sender].push(nextRequestId);
+        pendingQueue.push(nextRequestId);
+        pendingQueuePosition[nextRequestId] = pendingQueue.length;
 
         // Set ACL permissions
-        FHE.allowThis(encryptedScore);
-        FHE.allowThis(encryptedLevel);
-        FHE.allow(encryptedScore, msg.sender);
-        FHE.allow(encryptedLevel, msg.sender);
+        FHE.allowThis(_encryptedScore);
+        FHE.allowThis(_encryptedLevel);
+        FHE.allowThis(_isInRange);
+        FHE.allow(_encryptedScore, msg.sender);
+        FHE.allow(_encryptedLevel, msg.sender);
 
         emit CertificationRequested(nextRequestId, msg.sender, _profession);
         nextRequestId++;
     }
 
-    function processCertificationRequest(
-        uint256 _requestId,
-        string memory _issuerName
-    ) external onlyAuthorizedIssuer {
-        require(_requestId > 0 && _requestId < nextRequestId, "Invalid request ID");
+    /// @dev Endorses a request and, once the profession's quorum is reached, compares the encrypted
+    /// score and level with the profession requirements
+    /// @notice `evaluated` is false while endorsements are still missing. An earlier endorser can call
+    /// again to start the evaluation once the quorum is met without a new endorsement, e.g. after a
+    /// suspended endorser is reinstated or the quorum is lowered. The outcome stays encrypted until the
+    /// decryption oracle calls `resolveCertificationRequest`. The issuer starting the evaluation becomes
+    /// the certificate's issuer
+    function processCertificationRequest(uint256 _requestId)
+        external
+        onlyRegisteredIssuer
+        whenNotPaused
+        existingRequest(_requestId)
+        returns (uint256 decryptionRequestId, bool evaluated)
+    {
         require(!certificationRequests[_requestId].isProcessed, "Request already processed");
 
         CertificationRequest storage request = certificationRequests[_requestId];
+        require(issuerScope[msg.sender][request.profession], "Profession outside issuer scope");
+
+        bool endorsing = !hasEndorsed[_requestId][msg.sender];
+        if (endorsing) {
+            hasEndorsed[_requestId][msg.sender] = true;
+            requestEndorsements[_requestId].push(msg.sender);
+        }
+        uint256 endorsements = _countEndorsements(_requestId, request.profession);
+        uint256 quorum = _requiredEndorsements(request.profession);
+        if (endorsing) {
+            emit CertificationEndorsed(_requestId, msg.sender, endorsements, quorum);
+        } else {
+            require(endorsements >= quorum, "Already endorsed");
+        }
+        if (endorsements < quorum) {
+            return (0, false);
+        }
+
         request.isProcessed = true;
+        _dequeue(_requestId);
+
+        // Both thresholds must be met by in-range values; neither the inputs nor which check failed are revealed
+        ebool meetsScore = FHE.ge(request.encryptedScore, uint64(minimumScoreRequirement[request.profession]));
+        ebool meetsLevel = FHE.ge(request.encryptedLevel, minimumLevelRequirement[request.profession]);
+        ebool meetsRequirements = FHE.and(FHE.and(meetsScore, meetsLevel), request.isInRange);
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(meetsRequirements);
+        decryptionRequestId = FHE.requestDecryption(handles, this.resolveCertificationRequest.selector);
+        pendingDecisions[decryptionRequestId] = PendingDecision(_requestId, msg.sender);
 
-        // For demonstration, we'll approve based on encrypted comparison
-        // In real implementation, this would use FHE comparison operations
-        request.isApproved = true; // Simplified approval logic
+        emit CertificationEvaluationRequested(_requestId, decryptionRequestId);
+        return (decryptionRequestId, true);
+    }
+
+    /// @dev Decryption oracle callback: issues the certificate or rejects the request
+    /// @notice Reverts unless `cleartexts` is signed by the KMS for this request. Not paused, so
+    /// evaluations started before a pause still complete
+    function resolveCertificationRequest(
+        uint256 _decryptionRequestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_decryptionRequestId, _cleartexts, _decryptionProof);
+
+        PendingDecision memory decision = pendingDecisions[_decryptionRequestId];
+        require(decision.requestId != 0, "Unknown decryption request");
+        delete pendingDecisions[_decryptionRequestId];
+
+        CertificationRequest storage request = certificationRequests[decision.requestId];
+        request.isApproved = abi.decode(_cleartexts, (bool));
+        request.status = request.isApproved ? RequestStatus.Approved : RequestStatus.Rejected;
 
         if (request.isApproved) {
             _issueCertificate(
@@ -160,20 +566,80 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
                 request.profession,
                 request.encryptedScore,
                 request.encryptedLevel,
-                _issuerName
+                decision.issuer
             );
-            emit CertificationApproved(_requestId, nextCertificateId - 1);
+            emit CertificationApproved(decision.requestId, nextCertificateId - 1);
         } else {
-            emit CertificationRejected(_requestId, "Requirements not met");
+            rejectionReasons[decision.requestId] = "Requirements not met";
+            emit CertificationRejected(decision.requestId, "Requirements not met");
         }
     }
 
+    /// @dev Lets an accredited issuer turn down a request without evaluating it, e.g. for insufficient evidence
+    function rejectCertificationRequest(uint256 _requestId, string memory _reason)
+        external
+        onlyRegisteredIssuer
+        whenNotPaused
+        existingRequest(_requestId)
+    {
+        CertificationRequest storage request = certificationRequests[_requestId];
+        require(!request.isProcessed, "Request already processed");
+        require(issuerScope[msg.sender][request.profession], "Profession outside issuer scope");
+        require(bytes(_reason).length > 0, "Reason required");
+
+        request.isProcessed = true;
+        request.status = RequestStatus.Rejected;
+        rejectionReasons[_requestId] = _reason;
+        _dequeue(_requestId);
+
+        emit CertificationRejected(_requestId, _reason);
+    }
+
+    /// @dev Applicant takes back a request no issuer has picked up yet
+    /// @notice Allowed while paused: it only removes a request from the queue
+    function withdrawRequest(uint256 _requestId) external existingRequest(_requestId) {
+        CertificationRequest storage request = certificationRequests[_requestId];
+        require(msg.sender == request.applicant, "Not request applicant");
+        require(!request.isProcessed, "Request already processed");
+
+        request.isProcessed = true;
+        request.status = RequestStatus.Withdrawn;
+        _dequeue(_requestId);
+
+        emit CertificationRequestWithdrawn(_requestId, msg.sender);
+    }
+
+    function _requiredEndorsements(string memory _profession) private view returns (uint256) {
+        uint256 quorum = endorsementQuorum[_profession];
+        return quorum == 0 ? 1 : quorum;
+    }
+
+    // Endorsers that have since been revoked, suspended or lost the profession no longer count
+    function _countEndorsements(uint256 _requestId, string memory _profession) private view returns (uint256 count) {
+        address[] storage endorsers = requestEndorsements[_requestId];
+        for (uint256 i = 0; i < endorsers.length; i++) {
+            address endorser = endorsers[i];
+            if (issuers[endorser].active && !suspendedIssuers[endorser] && issuerScope[endorser][_profession]) {
+                count++;
+            }
+        }
+    }
+
+    function _dequeue(uint256 _requestId) private {
+        uint256 position = pendingQueuePosition[_requestId];
+        uint256 lastId = pendingQueue[pendingQueue.length - 1];
+        pendingQueue[position - 1] = lastId;
+        pendingQueuePosition[lastId] = position;
+        pendingQueue.pop();
+        delete pendingQueuePosition[_requestId];
+    }
+
     function _issueCertificate(
         address _holder,
         string memory _profession,
         euint64 _encryptedScore,
         euint8 _encryptedLevel,
-        string memory _issuer
+        address _issuedBy
     ) private {
         // Generate credential hash for verification
         bytes32 credentialHash = keccak256(abi.encodePacked(
@@ -190,12 +656,16 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
             encryptedLevel: _encryptedLevel,
             isValid: true,
             issueDate: block.timestamp,
-            expiryDate: block.timestamp + 365 days, // 1 year validity
-            issuer: _issuer,
-            hashedCredentials: credentialHash
+            expiryDate: block.timestamp + getValidityPeriod(_issuedBy, _profession),
+            issuedBy: _issuedBy,
+            hashedCredentials: credentialHash,
+            renewalCount: 0,
+            withdrawnByHolder: false
         });
 
         holderCertificates[_holder].push(nextCertificateId);
+        professionCertificates[_profession].push(nextCertificateId);
+        issuerCertificates[_issuedBy].push(nextCertificateId);
 
         // Set ACL permissions for the certificate holder
         FHE.allow(_encryptedScore, _holder);
@@ -208,16 +678,47 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
     function revokeCertificate(uint256 _certificateId, string memory _reason)
         external
         onlyAuthorizedIssuer
+        whenNotPaused
         validCertificate(_certificateId)
+        notFrozen(_certificateId)
     {
         certificates[_certificateId].isValid = false;
         emit CertificateRevoked(_certificateId, _reason);
     }
 
+    /// @dev Holder renounces the certificate for good and withdraws consent to the use of its score and level
+    /// @notice The ACL cannot take back grants: the contract forgets the score and level handles, so nobody can
+    /// be granted them or values derived from them again, and revokes unredeemed disclosures. Decryption rights
+    /// granted before (the holder's own, redeemed disclosure answers) remain. Allowed while paused or suspended
+    function withdrawCertificate(uint256 _certificateId) external existingCertificate(_certificateId) {
+        Certificate storage cert = certificates[_certificateId];
+        require(msg.sender == cert.holder, "Not certificate holder");
+        require(!cert.withdrawnByHolder, "Certificate already withdrawn");
+        require(cert.isValid, "Certificate revoked");
+
+        cert.isValid = false;
+        cert.withdrawnByHolder = true;
+        cert.encryptedScore = euint64.wrap(0);
+        cert.encryptedLevel = euint8.wrap(0);
+
+        uint256[] storage disclosureIds = certificateDisclosures[_certificateId];
+        for (uint256 i = 0; i < disclosureIds.length; i++) {
+            Disclosure storage disclosure = disclosures[disclosureIds[i]];
+            if (!disclosure.revoked && !disclosure.redeemed) {
+                disclosure.revoked = true;
+                emit DisclosureRevoked(disclosureIds[i]);
+            }
+        }
+
+        emit CertificateWithdrawn(_certificateId, msg.sender);
+    }
+
+    /// @dev Reports revoked, withdrawn, suspended and expired certificates instead of reverting;
+    /// `issuer` is the organization registered for `issuedBy`
     function verifyCertificate(uint256 _certificateId)
         external
         view
-        validCertificate(_certificateId)
+        existingCertificate(_certificateId)
         returns (
             address holder,
             string memory profession,
@@ -225,21 +726,45 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
             uint256 issueDate,
             uint256 expiryDate,
             string memory issuer,
-            bytes32 credentialHash
+            bytes32 credentialHash,
+            CertificateStatus status,
+            address issuedBy
         )
     {
         Certificate storage cert = certificates[_certificateId];
+        status = getCertificateStatus(_certificateId);
         return (
             cert.holder,
             cert.profession,
-            cert.isValid,
+            status == CertificateStatus.Valid,
             cert.issueDate,
             cert.expiryDate,
-            cert.issuer,
-            cert.hashedCredentials
+            issuers[cert.issuedBy].organization,
+            cert.hashedCredentials,
+            status,
+            cert.issuedBy
         );
     }
 
+    function getCertificateStatus(uint256 _certificateId)
+        public
+        view
+        existingCertificate(_certificateId)
+        returns (CertificateStatus)
+    {
+        Certificate storage cert = certificates[_certificateId];
+        if (!cert.isValid) {
+            return cert.withdrawnByHolder ? CertificateStatus.Withdrawn : CertificateStatus.Revoked;
+        }
+        if (paused || suspendedIssuers[cert.issuedBy]) {
+            return CertificateStatus.Suspended;
+        }
+        if (cert.expiryDate <= block.timestamp) {
+            return CertificateStatus.Expired;
+        }
+        return CertificateStatus.Valid;
+    }
+
     function getHolderCertificates(address _holder)
         external
         view
@@ -248,38 +773,334 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         return holderCertificates[_holder];
     }
 
+    // Paginated summaries of these lists are served by PrivacyProfessionalCertificateViews
+    function getProfessionCertificates(string memory _profession) external view returns (uint256[] memory) {
+        return professionCertificates[_profession];
+    }
+
+    function getIssuerCertificates(address _issuer) external view returns (uint256[] memory) {
+        return issuerCertificates[_issuer];
+    }
+
+    /// @dev Issued certificates have IDs 1 through this count
     function getCertificateCount() external view returns (uint256) {
         return nextCertificateId - 1;
     }
 
+    /// @dev Filed requests have IDs 1 through this count
     function getRequestCount() external view returns (uint256) {
         return nextRequestId - 1;
     }
 
+    function getRequestStatus(uint256 _requestId)
+        external
+        view
+        existingRequest(_requestId)
+        returns (RequestStatus)
+    {
+        return certificationRequests[_requestId].status;
+    }
+
+    /// @dev Issuers that endorsed the request, in endorsement order; `counted` leaves out those no longer accredited
+    function getRequestEndorsements(uint256 _requestId)
+        external
+        view
+        existingRequest(_requestId)
+        returns (address[] memory endorsers, uint256 counted, uint256 quorum)
+    {
+        string memory profession = certificationRequests[_requestId].profession;
+        return (requestEndorsements[_requestId], _countEndorsements(_requestId, profession), _requiredEndorsements(profession));
+    }
+
+    /// @dev Request IDs filed by `_applicant`, oldest first
+    function getApplicantRequests(address _applicant, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory requestIds, uint256 total)
+    {
+        return (_page(applicantRequests[_applicant], _offset, _limit), applicantRequests[_applicant].length);
+    }
+
+    /// @dev Requests awaiting an issuer; ones under evaluation have already left the queue
+    function getPendingRequests(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory requestIds, uint256 total)
+    {
+        return (_page(pendingQueue, _offset, _limit), pendingQueue.length);
+    }
+
+    function _page(uint256[] storage _ids, uint256 _offset, uint256 _limit)
+        private
+        view
+        returns (uint256[] memory page)
+    {
+        if (_offset >= _ids.length) {
+            return new uint256[](0);
+        }
+        uint256 end = _ids.length - _offset > _limit ? _offset + _limit : _ids.length;
+        page = new uint256[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = _ids[i];
+        }
+    }
+
     function getProfessionRequirements(string memory _profession)
         external
         view
-        returns (uint256 minScore, uint8 minLevel)
+        returns (uint256 minScore, uint8 minLevel, uint256 quorum)
     {
         return (
             minimumScoreRequirement[_profession],
-            minimumLevelRequirement[_profession]
+            minimumLevelRequirement[_profession],
+            _requiredEndorsements(_profession)
         );
     }
 
-    // Function to extend certificate validity (only by authorized issuers)
-    function extendCertificateValidity(uint256 _certificateId, uint256 _additionalDays)
+    /// @dev Holder asks to renew a certificate with a new score encrypted in the browser
+    /// @notice Revoked and suspended certificates cannot be renewed; expired ones can
+    function requestRenewal(
+        uint256 _certificateId,
+        externalEuint64 _score,
+        bytes calldata _inputProof
+    ) external whenNotPaused existingCertificate(_certificateId) returns (uint256) {
+        Certificate storage cert = certificates[_certificateId];
+        require(msg.sender == cert.holder, "Not certificate holder");
+        require(_isRenewable(_certificateId), "Certificate cannot be renewed");
+        require(pendingRenewal[_certificateId] == 0, "Renewal already pending");
+
+        euint64 encryptedScore = FHE.fromExternal(_score, _inputProof);
+        ebool isInRange = FHE.le(encryptedScore, uint64(100));
+        FHE.allowThis(encryptedScore);
+        FHE.allowThis(isInRange);
+        FHE.allow(encryptedScore, msg.sender);
+
+        uint256 renewalRequestId = nextRenewalRequestId++;
+        renewalRequests[renewalRequestId] = RenewalRequest({
+            certificateId: _certificateId,
+            encryptedScore: encryptedScore,
+            isInRange: isInRange,
+            isProcessed: false,
+            isApproved: false,
+            requestTime: block.timestamp
+        });
+        pendingRenewal[_certificateId] = renewalRequestId;
+
+        emit RenewalRequested(renewalRequestId, _certificateId, msg.sender);
+        return renewalRequestId;
+    }
+
+    /// @dev Re-assesses the new score and the certified level against the current profession requirements
+    /// @notice The outcome is delivered to `resolveRenewalRequest` by the decryption oracle
+    function processRenewalRequest(uint256 _renewalRequestId)
         external
-        onlyAuthorizedIssuer
-        validCertificate(_certificateId)
+        onlyRegisteredIssuer
+        whenNotPaused
+        existingRenewalRequest(_renewalRequestId)
+        returns (uint256)
+    {
+        RenewalRequest storage renewal = renewalRequests[_renewalRequestId];
+        require(!renewal.isProcessed, "Renewal already processed");
+
+        Certificate storage cert = certificates[renewal.certificateId];
+        require(issuerScope[msg.sender][cert.profession], "Profession outside issuer scope");
+        // The certificate may have been revoked while the renewal was pending
+        require(_isRenewable(renewal.certificateId), "Certificate cannot be renewed");
+        renewal.isProcessed = true;
+
+        ebool meetsScore = FHE.ge(renewal.encryptedScore, uint64(minimumScoreRequirement[cert.profession]));
+        ebool meetsLevel = FHE.ge(cert.encryptedLevel, minimumLevelRequirement[cert.profession]);
+        ebool meetsRequirements = FHE.and(FHE.and(meetsScore, meetsLevel), renewal.isInRange);
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(meetsRequirements);
+        uint256 decryptionRequestId = FHE.requestDecryption(handles, this.resolveRenewalRequest.selector);
+        pendingRenewalDecisions[decryptionRequestId] = PendingDecision(_renewalRequestId, msg.sender);
+
+        emit RenewalEvaluationRequested(_renewalRequestId, decryptionRequestId);
+        return decryptionRequestId;
+    }
+
+    /// @dev Decryption oracle callback: extends the certificate or records the rejection
+    /// @notice Reverts unless `cleartexts` is signed by the KMS for this request
+    function resolveRenewalRequest(
+        uint256 _decryptionRequestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_decryptionRequestId, _cleartexts, _decryptionProof);
+
+        PendingDecision memory decision = pendingRenewalDecisions[_decryptionRequestId];
+        require(decision.requestId != 0, "Unknown decryption request");
+        delete pendingRenewalDecisions[_decryptionRequestId];
+
+        RenewalRequest storage renewal = renewalRequests[decision.requestId];
+        Certificate storage cert = certificates[renewal.certificateId];
+        // A holder who withdrew the certificate during the evaluation must not get a new score stored
+        renewal.isApproved = abi.decode(_cleartexts, (bool)) && !cert.withdrawnByHolder;
+        delete pendingRenewal[renewal.certificateId];
+
+        uint256 previousExpiry = cert.expiryDate;
+        if (renewal.isApproved) {
+            // A new validity period starts from the old expiry, or from now if it has lapsed
+            uint256 start = previousExpiry > block.timestamp ? previousExpiry : block.timestamp;
+            cert.expiryDate = start + getValidityPeriod(decision.issuer, cert.profession);
+            cert.encryptedScore = renewal.encryptedScore;
+            cert.renewalCount++;
+            emit CertificateRenewed(renewal.certificateId, decision.requestId, cert.expiryDate);
+        } else {
+            emit RenewalRejected(
+                decision.requestId,
+                renewal.certificateId,
+                cert.withdrawnByHolder ? "Certificate withdrawn" : "Requirements not met"
+            );
+        }
+
+        renewalHistory[renewal.certificateId].push(RenewalRecord({
+            renewalRequestId: decision.requestId,
+            issuer: decision.issuer,
+            approved: renewal.isApproved,
+            decidedAt: block.timestamp,
+            previousExpiry: previousExpiry,
+            newExpiry: cert.expiryDate
+        }));
+    }
+
+    function _isRenewable(uint256 _certificateId) private view returns (bool) {
+        CertificateStatus status = getCertificateStatus(_certificateId);
+        return status == CertificateStatus.Valid || status == CertificateStatus.Expired;
+    }
+
+    function getRenewalHistory(uint256 _certificateId)
+        external
+        view
+        existingCertificate(_certificateId)
+        returns (RenewalRecord[] memory)
     {
-        certificates[_certificateId].expiryDate += _additionalDays * 1 days;
+        return renewalHistory[_certificateId];
+    }
+
+    /// @dev Holder lets `_verifier` learn whether the certificate meets `_threshold`, and nothing more,
+    /// until the disclosure expires or is revoked
+    function createDisclosure(
+        uint256 _certificateId,
+        address _verifier,
+        DisclosurePredicate _predicate,
+        uint64 _threshold,
+        uint256 _duration
+    ) external whenNotPaused existingCertificate(_certificateId) returns (uint256) {
+        require(msg.sender == certificates[_certificateId].holder, "Not certificate holder");
+        require(getCertificateStatus(_certificateId) == CertificateStatus.Valid, "Certificate not valid");
+        require(_verifier != address(0) && _verifier != msg.sender, "Invalid verifier address");
+        require(_duration > 0 && _duration <= MAX_DISCLOSURE_DURATION, "Invalid disclosure duration");
+        if (_predicate == DisclosurePredicate.ScoreAtLeast) {
+            require(_threshold <= 100, "Score must be between 0-100");
+        } else {
+            require(_threshold <= 10, "Level must be between 1-10");
+        }
+
+        uint256 disclosureId = nextDisclosureId++;
+        Disclosure storage disclosure = disclosures[disclosureId];
+        disclosure.certificateId = _certificateId;
+        disclosure.verifier = _verifier;
+        disclosure.predicate = _predicate;
+        disclosure.threshold = _threshold;
+        disclosure.expiresAt = block.timestamp + _duration;
+        certificateDisclosures[_certificateId].push(disclosureId);
+        verifierDisclosures[_verifier].push(disclosureId);
+
+        emit DisclosureCreated(disclosureId, _certificateId, _verifier, _predicate, _threshold, disclosure.expiresAt);
+        return disclosureId;
+    }
+
+    /// @notice Only unredeemed disclosures can be revoked: the ACL cannot take back a granted handle
+    function revokeDisclosure(uint256 _disclosureId) external existingDisclosure(_disclosureId) {
+        Disclosure storage disclosure = disclosures[_disclosureId];
+        require(msg.sender == certificates[disclosure.certificateId].holder, "Not certificate holder");
+        require(!disclosure.revoked, "Disclosure revoked");
+        require(!disclosure.redeemed, "Disclosure already redeemed");
+
+        disclosure.revoked = true;
+        emit DisclosureRevoked(_disclosureId);
+    }
+
+    /// @dev Verifier computes the predicate and receives ACL access to that `ebool` alone,
+    /// which it then user-decrypts off-chain
+    /// @notice The time limit applies to the grant: once redeemed, the verifier keeps the one-bit answer
+    function redeemDisclosure(uint256 _disclosureId)
+        external
+        whenNotPaused
+        existingDisclosure(_disclosureId)
+        returns (ebool)
+    {
+        Disclosure storage disclosure = disclosures[_disclosureId];
+        require(msg.sender == disclosure.verifier, "Not disclosure verifier");
+        require(!disclosure.revoked, "Disclosure revoked");
+        require(!disclosure.redeemed, "Disclosure already redeemed");
+        require(block.timestamp < disclosure.expiresAt, "Disclosure expired");
+        require(getCertificateStatus(disclosure.certificateId) == CertificateStatus.Valid, "Certificate not valid");
+
+        Certificate storage cert = certificates[disclosure.certificateId];
+        ebool result = disclosure.predicate == DisclosurePredicate.ScoreAtLeast
+            ? FHE.ge(cert.encryptedScore, disclosure.threshold)
+            : FHE.ge(cert.encryptedLevel, uint8(disclosure.threshold));
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        disclosure.result = result;
+        disclosure.redeemed = true;
+
+        emit DisclosureRedeemed(_disclosureId, msg.sender);
+        return result;
+    }
+
+    function getDisclosure(uint256 _disclosureId)
+        external
+        view
+        existingDisclosure(_disclosureId)
+        returns (Disclosure memory)
+    {
+        return disclosures[_disclosureId];
+    }
+
+    function getCertificateDisclosures(uint256 _certificateId)
+        external
+        view
+        existingCertificate(_certificateId)
+        returns (uint256[] memory)
+    {
+        return certificateDisclosures[_certificateId];
+    }
+
+    function getVerifierDisclosures(address _verifier) external view returns (uint256[] memory) {
+        return verifierDisclosures[_verifier];
     }
 
     // Emergency function to pause all certificates (only owner)
+    // Blocks new requests, processing, revocation and renewal; certificates verify as suspended
     function emergencyPause() external onlyOwner {
-        // Implementation for emergency pause functionality
-        // This could set a global pause state
+        require(!paused, "Registry paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    function unpause() external onlyOwner {
+        require(paused, "Registry not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    // Circuit breaker for one issuer: freezes the certificates it issued and stops it from processing requests
+    function suspendIssuer(address _issuer) external onlyOwner {
+        require(!suspendedIssuers[_issuer], "Issuer already suspended");
+        suspendedIssuers[_issuer] = true;
+        emit IssuerSuspended(_issuer);
+    }
+
+    function reinstateIssuer(address _issuer) external onlyOwner {
+        require(suspendedIssuers[_issuer], "Issuer not suspended");
+        suspendedIssuers[_issuer] = false;
+        emit IssuerReinstated(_issuer);
     }
 
     // Function to get certificate holder's encrypted score (only accessible by holder or authorized parties)
@@ -291,7 +1112,7 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
     {
         require(
             msg.sender == certificates[_certificateId].holder ||
-            authorizedIssuers[msg.sender] ||
+            authorizedIssuers(msg.sender) ||
             msg.sender == owner,
             "Not authorized to view score"
         );
@@ -307,7 +1128,7 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
     {
         require(
             msg.sender == certificates[_certificateId].holder ||
-            authorizedIssuers[msg.sender] ||
+            authorizedIssuers(msg.sender) ||
             msg.sender == owner,
             "Not authorized to view level"
         );
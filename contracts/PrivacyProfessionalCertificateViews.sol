@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { PrivacyProfessionalCertificate } from "./PrivacyProfessionalCertificate.sol";
+
+/// @title Batch and paginated read views over a PrivacyProfessionalCertificate registry
+/// @dev Deployed next to the registry, which stays under the contract size limit without them. Holds no
+/// state besides the registry address and reads only public registry data
+contract PrivacyProfessionalCertificateViews {
+
+    // Public fields of a certificate as batch views return them; `exists` is false for unknown IDs.
+    // `pendingRenewal` is the renewal request awaiting a decision, 0 when there is none
+    struct CertificateSummary {
+        uint256 certificateId;
+        bool exists;
+        address holder;
+        string profession;
+        uint256 issueDate;
+        uint256 expiryDate;
+        address issuedBy;
+        string issuer;
+        PrivacyProfessionalCertificate.CertificateStatus status;
+        uint256 renewalCount;
+        uint256 pendingRenewal;
+    }
+
+    PrivacyProfessionalCertificate public immutable registry;
+
+    constructor(PrivacyProfessionalCertificate _registry) {
+        registry = _registry;
+    }
+
+    /// @dev Certificates by ID, from `_offset + 1`
+    function getCertificates(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (CertificateSummary[] memory page, uint256 total)
+    {
+        total = registry.getCertificateCount();
+        uint256 count = _offset >= total ? 0 : (total - _offset > _limit ? _limit : total - _offset);
+        page = new CertificateSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _summarize(_offset + i + 1);
+        }
+    }
+
+    /// @dev Certificates of `_holder`, oldest first
+    function getCertificatesByHolder(address _holder, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (CertificateSummary[] memory page, uint256 total)
+    {
+        return _summarizePage(registry.getHolderCertificates(_holder), _offset, _limit);
+    }
+
+    /// @dev Certificates issued for `_profession`, oldest first
+    function getCertificatesByProfession(string memory _profession, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (CertificateSummary[] memory page, uint256 total)
+    {
+        return _summarizePage(registry.getProfessionCertificates(_profession), _offset, _limit);
+    }
+
+    /// @dev Certificates issued by the address `_issuer`, oldest first
+    function getCertificatesByIssuer(address _issuer, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (CertificateSummary[] memory page, uint256 total)
+    {
+        return _summarizePage(registry.getIssuerCertificates(_issuer), _offset, _limit);
+    }
+
+    /// @dev Requests awaiting an issuer in the professions `_issuer` may decide on, in pending queue
+    /// order. Filtered before paging, so `total` and full pages only count requests the issuer can act on
+    function getPendingRequestsForIssuer(address _issuer, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory requestIds, uint256 total)
+    {
+        (uint256[] memory queue, ) = registry.getPendingRequests(0, type(uint256).max);
+        uint256[] memory inScope = new uint256[](queue.length);
+        for (uint256 i = 0; i < queue.length; i++) {
+            (, string memory profession, , , , , , , , ) = registry.certificationRequests(queue[i]);
+            if (registry.issuerScope(_issuer, profession)) {
+                inScope[total++] = queue[i];
+            }
+        }
+
+        uint256 count = _offset >= total ? 0 : (total - _offset > _limit ? _limit : total - _offset);
+        requestIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            requestIds[i] = inScope[_offset + i];
+        }
+    }
+
+    /// @dev Batch `verifyCertificate` that reports unknown IDs with `exists == false` instead of reverting
+    function verifyCertificates(uint256[] memory _certificateIds)
+        external
+        view
+        returns (CertificateSummary[] memory summaries)
+    {
+        summaries = new CertificateSummary[](_certificateIds.length);
+        for (uint256 i = 0; i < _certificateIds.length; i++) {
+            summaries[i] = _summarize(_certificateIds[i]);
+        }
+    }
+
+    /// @dev Valid certificates of the caller that expire within `_window` seconds, oldest first
+    function expiringWithin(uint256 _window)
+        external
+        view
+        returns (CertificateSummary[] memory expiring)
+    {
+        uint256[] memory ids = registry.getHolderCertificates(msg.sender);
+        CertificateSummary[] memory candidates = new CertificateSummary[](ids.length);
+        uint256 count;
+        for (uint256 i = 0; i < ids.length; i++) {
+            CertificateSummary memory summary = _summarize(ids[i]);
+            // Valid implies an expiry in the future, so the subtraction cannot underflow
+            if (
+                summary.status == PrivacyProfessionalCertificate.CertificateStatus.Valid &&
+                summary.expiryDate - block.timestamp <= _window
+            ) {
+                candidates[count++] = summary;
+            }
+        }
+        expiring = new CertificateSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            expiring[i] = candidates[i];
+        }
+    }
+
+    function _summarizePage(uint256[] memory _ids, uint256 _offset, uint256 _limit)
+        private
+        view
+        returns (CertificateSummary[] memory page, uint256 total)
+    {
+        total = _ids.length;
+        uint256 count = _offset >= total ? 0 : (total - _offset > _limit ? _limit : total - _offset);
+        page = new CertificateSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _summarize(_ids[_offset + i]);
+        }
+    }
+
+    function _summarize(uint256 _certificateId) private view returns (CertificateSummary memory summary) {
+        summary.certificateId = _certificateId;
+        if (_certificateId == 0 || _certificateId > registry.getCertificateCount()) {
+            return summary;
+        }
+        summary.exists = true;
+        (
+            summary.holder,
+            summary.profession,
+            ,
+            summary.issueDate,
+            summary.expiryDate,
+            summary.issuer,
+            ,
+            summary.status,
+            summary.issuedBy
+        ) = registry.verifyCertificate(_certificateId);
+        (, , , , , , , , , summary.renewalCount, ) = registry.certificates(_certificateId);
+        summary.pendingRenewal = registry.pendingRenewal(_certificateId);
+    }
+}
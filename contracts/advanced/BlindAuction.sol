@@ -38,6 +38,8 @@ contract BlindAuction is SepoliaConfig {
         _;
     }
 
+    /// @param biddingTime Length of the bidding phase in seconds
+    /// @param revealTime Length of the reveal phase in seconds, after bidding ends
     constructor(uint256 biddingTime, uint256 revealTime) {
         auctioneer = msg.sender;
         biddingEnd = block.timestamp + biddingTime;
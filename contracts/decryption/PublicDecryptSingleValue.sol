@@ -32,22 +32,25 @@ contract PublicDecryptSingleValue is SepoliaConfig {
     }
 
     /// @dev Request public decryption
-    /// @notice This initiates a decryption request that will be fulfilled by the KMS
+    /// @notice The decryption oracle has the KMS decrypt the value and then calls `fulfillDecryption`
     function requestPublicDecryption() external returns (uint256) {
         require(FHE.isInitialized(encryptedValue), "Value not initialized");
 
-        // In production, this would create a decryption request to the KMS
-        // The KMS would decrypt the value and call a callback function
-        // For demonstration, we simulate with a requestId
-        uint256 requestId = uint256(keccak256(abi.encodePacked(block.timestamp, msg.sender)));
+        // Marks the handle as publicly decryptable in the ACL and queues the request
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(encryptedValue);
+        uint256 requestId = FHE.requestDecryption(handles, this.fulfillDecryption.selector);
 
         emit DecryptionRequested(requestId);
         return requestId;
     }
 
-    /// @dev Simulate KMS callback (in production, only KMS can call this)
-    /// @notice This would be called by the KMS after decryption
-    function fulfillDecryption(uint32 plainValue) external {
+    /// @dev Decryption oracle callback
+    /// @notice Reverts unless `cleartexts` is signed by the KMS for this request
+    function fulfillDecryption(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint32 plainValue = abi.decode(cleartexts, (uint32));
         decryptedValue = plainValue;
         isDecrypted = true;
 
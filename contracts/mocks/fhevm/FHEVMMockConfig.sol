@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+
+/// @title FHEVM Mock Config
+/// @dev Addresses and handle layout shared by the mock FHEVM host contracts
+/// @notice The mocks are installed at the addresses `SepoliaConfig` points to, so
+/// example contracts run unchanged on the Hardhat network
+library FHEVMMockConfig {
+
+    /// @dev From ZamaConfig.getSepoliaConfig()
+    address internal constant ACL = 0x687820221192C5B662b25367F70076A37bc79b6c;
+    address internal constant EXECUTOR = 0x848B0066793BcC60346Da1F49049357399B8D595;
+    address internal constant KMS_VERIFIER = 0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC;
+    address internal constant DECRYPTION_ORACLE = 0xa02Cda4Ca3a71D7C46997716F4283aa851C28812;
+
+    /// @dev Not part of SepoliaConfig; contracts only reach it through the executor
+    address internal constant INPUT_VERIFIER = 0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4;
+
+    /// @dev Index byte of handles produced by the executor rather than by an input proof
+    uint8 internal constant COMPUTED_INDEX = 0xff;
+
+    uint8 internal constant HANDLE_VERSION = 0;
+
+    /// @dev Handle layout: bytes 0-20 hash, byte 21 input index, bytes 22-29 chain id,
+    /// byte 30 FheType, byte 31 version
+    function toHandle(bytes32 prehandle, uint8 index, FheType fheType) internal view returns (bytes32) {
+        uint256 metadata = (uint256(index) << 80)
+            | (uint256(uint64(block.chainid)) << 16)
+            | (uint256(uint8(fheType)) << 8)
+            | uint256(HANDLE_VERSION);
+        return (prehandle & ~bytes32(uint256(type(uint88).max))) | bytes32(metadata);
+    }
+
+    function typeOf(bytes32 handle) internal pure returns (FheType) {
+        return FheType(uint8(handle[30]));
+    }
+
+    function indexOf(bytes32 handle) internal pure returns (uint8) {
+        return uint8(handle[21]);
+    }
+
+    function chainIdOf(bytes32 handle) internal pure returns (uint64) {
+        return uint64(uint256(handle) >> 16);
+    }
+
+    /// @dev Plaintext width of the types the mock supports
+    function bitWidth(FheType fheType) internal pure returns (uint16) {
+        if (fheType == FheType.Bool) return 1;
+        if (fheType == FheType.Uint4) return 4;
+        if (fheType == FheType.Uint8) return 8;
+        if (fheType == FheType.Uint16) return 16;
+        if (fheType == FheType.Uint32) return 32;
+        if (fheType == FheType.Uint64) return 64;
+        if (fheType == FheType.Uint128) return 128;
+        if (fheType == FheType.Uint160) return 160;
+        if (fheType == FheType.Uint256) return 256;
+        revert("FHEVM mock: unsupported type");
+    }
+
+    function maxValue(FheType fheType) internal pure returns (uint256) {
+        uint16 bits = bitWidth(fheType);
+        return bits == 256 ? type(uint256).max : (uint256(1) << bits) - 1;
+    }
+
+    /// @dev Recovers the signer of an `eth_sign` (EIP-191) signature over `digest`
+    function recoverSigner(bytes32 digest, bytes memory signature) internal pure returns (address) {
+        require(signature.length == 65, "FHEVM mock: invalid signature length");
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(signature, 32))
+            s := mload(add(signature, 64))
+            v := byte(0, mload(add(signature, 96)))
+        }
+        bytes32 signed = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", digest));
+        return ecrecover(signed, v, r, s);
+    }
+}
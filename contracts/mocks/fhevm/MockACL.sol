@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHEVMMockConfig } from "./FHEVMMockConfig.sol";
+
+/// @title Mock ACL
+/// @dev Access control list for FHE handles, enforced the way the FHEVM ACL enforces it
+/// @notice Installed at the SepoliaConfig ACL address by test/helpers/fhevm-mock.ts; never deploy outside of tests
+contract MockACL {
+
+    mapping(bytes32 => mapping(address => bool)) private persistedAllowed;
+    mapping(bytes32 => bool) private allowedForDecryption;
+
+    /// @dev Transient slot holding the number of transient grants made in this transaction
+    bytes32 private constant TRANSIENT_COUNT_SLOT = keccak256("fhevm.mock.ACL.transientCount");
+
+    event Allowed(address indexed caller, address indexed account, bytes32 handle);
+    event AllowedForDecryption(address indexed caller, bytes32[] handlesList);
+
+    /// @dev Grants `account` access to `handle` for the current transaction only
+    /// @notice The executor may always grant; anyone else must already have access
+    function allowTransient(bytes32 handle, address account) external {
+        if (msg.sender != FHEVMMockConfig.EXECUTOR) {
+            require(isAllowed(handle, msg.sender), "ACL: sender is not allowed to use handle");
+        }
+
+        bytes32 slot = _transientSlot(handle, account);
+        bytes32 countSlot = TRANSIENT_COUNT_SLOT;
+        assembly {
+            if iszero(tload(slot)) {
+                tstore(slot, 1)
+                let count := tload(countSlot)
+                // Keep the slot so cleanTransientStorage() can reset it
+                tstore(add(countSlot, add(count, 1)), slot)
+                tstore(countSlot, add(count, 1))
+            }
+        }
+    }
+
+    /// @dev Grants `account` persistent access to `handle`
+    function allow(bytes32 handle, address account) external {
+        require(isAllowed(handle, msg.sender), "ACL: sender is not allowed to use handle");
+        persistedAllowed[handle][account] = true;
+        emit Allowed(msg.sender, account, handle);
+    }
+
+    /// @dev Marks handles as publicly decryptable
+    function allowForDecryption(bytes32[] memory handlesList) external {
+        for (uint256 i = 0; i < handlesList.length; i++) {
+            require(isAllowed(handlesList[i], msg.sender), "ACL: sender is not allowed to use handle");
+            allowedForDecryption[handlesList[i]] = true;
+        }
+        emit AllowedForDecryption(msg.sender, handlesList);
+    }
+
+    /// @dev Removes every transient grant made in the current transaction
+    function cleanTransientStorage() external {
+        bytes32 countSlot = TRANSIENT_COUNT_SLOT;
+        assembly {
+            let count := tload(countSlot)
+            for { let i := 1 } iszero(gt(i, count)) { i := add(i, 1) } {
+                tstore(tload(add(countSlot, i)), 0)
+                tstore(add(countSlot, i), 0)
+            }
+            tstore(countSlot, 0)
+        }
+    }
+
+    function isAllowed(bytes32 handle, address account) public view returns (bool) {
+        return allowedTransient(handle, account) || persistedAllowed[handle][account];
+    }
+
+    function persistAllowed(bytes32 handle, address account) external view returns (bool) {
+        return persistedAllowed[handle][account];
+    }
+
+    function allowedTransient(bytes32 handle, address account) public view returns (bool) {
+        bytes32 slot = _transientSlot(handle, account);
+        bool allowed;
+        assembly {
+            allowed := tload(slot)
+        }
+        return allowed;
+    }
+
+    function isAllowedForDecryption(bytes32 handle) external view returns (bool) {
+        return allowedForDecryption[handle];
+    }
+
+    function _transientSlot(bytes32 handle, address account) private pure returns (bytes32) {
+        return keccak256(abi.encodePacked(handle, account));
+    }
+}
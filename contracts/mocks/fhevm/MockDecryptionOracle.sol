@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// @title Mock Decryption Oracle
+/// @dev Queues public decryption requests until the mock relayer in test/helpers/fhevm-mock.ts fulfills them
+/// @notice Unlike the real oracle, the callback is made by this contract rather than by a relayer account
+contract MockDecryptionOracle {
+
+    struct Request {
+        uint256 requestID;
+        bytes32[] handles;
+        address contractCaller;
+        bytes4 callbackSelector;
+        bool fulfilled;
+    }
+
+    Request[] private requests;
+
+    event DecryptionRequest(
+        uint256 indexed counter,
+        uint256 requestID,
+        bytes32[] cts,
+        address contractCaller,
+        bytes4 callbackSelector
+    );
+    event DecryptionFulfilled(uint256 indexed counter);
+
+    function requestDecryption(
+        uint256 requestID,
+        bytes32[] calldata ctsHandles,
+        bytes4 callbackSelector
+    ) external payable {
+        requests.push(Request(requestID, ctsHandles, msg.sender, callbackSelector, false));
+        emit DecryptionRequest(requests.length - 1, requestID, ctsHandles, msg.sender, callbackSelector);
+    }
+
+    /// @dev Delivers a decryption result to the requesting contract; reverts with the callback's reason
+    function fulfillRequest(uint256 counter, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        require(counter < requests.length, "DecryptionOracle: unknown request");
+        Request storage request = requests[counter];
+        require(!request.fulfilled, "DecryptionOracle: request already fulfilled");
+        request.fulfilled = true;
+
+        (bool success, bytes memory result) = request.contractCaller.call(
+            abi.encodeWithSelector(request.callbackSelector, request.requestID, cleartexts, decryptionProof)
+        );
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        emit DecryptionFulfilled(counter);
+    }
+
+    function getCounter() external view returns (uint256) {
+        return requests.length;
+    }
+
+    function getRequest(uint256 counter) external view returns (Request memory) {
+        require(counter < requests.length, "DecryptionOracle: unknown request");
+        return requests[counter];
+    }
+}
@@ -0,0 +1,266 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { FHEVMMockConfig } from "./FHEVMMockConfig.sol";
+import { MockACL } from "./MockACL.sol";
+import { MockInputVerifier } from "./MockInputVerifier.sol";
+
+/// @title Mock FHEVM Executor
+/// @dev Coprocessor stand-in that evaluates FHE operations on plaintexts kept on-chain by handle
+/// @notice Operands must be allowed to the calling contract in the ACL, and every result is
+/// transiently allowed to it, exactly as with the real coprocessor. Never deploy outside of tests
+contract MockFHEVMExecutor {
+
+    enum Operator {
+        Add, Sub, Mul, Div, Rem, BitAnd, BitOr, BitXor, Shl, Shr, Rotl, Rotr,
+        Eq, Ne, Ge, Gt, Le, Lt, Min, Max, Neg, Not, IfThenElse,
+        Cast, TrivialEncrypt, Rand, RandBounded
+    }
+
+    mapping(bytes32 => uint256) private plaintexts;
+    mapping(bytes32 => bool) private known;
+    uint256 private randCounter;
+
+    event FheOperation(address indexed caller, Operator indexed op, bytes32 result);
+
+    function fheAdd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Add, lhs, rhs, scalarByte);
+    }
+
+    function fheSub(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Sub, lhs, rhs, scalarByte);
+    }
+
+    function fheMul(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Mul, lhs, rhs, scalarByte);
+    }
+
+    function fheDiv(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        require(scalarByte == 0x01, "FHEVM mock: only scalar division is supported");
+        return _binaryOp(Operator.Div, lhs, rhs, scalarByte);
+    }
+
+    function fheRem(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        require(scalarByte == 0x01, "FHEVM mock: only scalar remainder is supported");
+        return _binaryOp(Operator.Rem, lhs, rhs, scalarByte);
+    }
+
+    function fheBitAnd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.BitAnd, lhs, rhs, scalarByte);
+    }
+
+    function fheBitOr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.BitOr, lhs, rhs, scalarByte);
+    }
+
+    function fheBitXor(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.BitXor, lhs, rhs, scalarByte);
+    }
+
+    function fheShl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Shl, lhs, rhs, scalarByte);
+    }
+
+    function fheShr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Shr, lhs, rhs, scalarByte);
+    }
+
+    function fheRotl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Rotl, lhs, rhs, scalarByte);
+    }
+
+    function fheRotr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Rotr, lhs, rhs, scalarByte);
+    }
+
+    function fheEq(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Eq, lhs, rhs, scalarByte);
+    }
+
+    function fheNe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Ne, lhs, rhs, scalarByte);
+    }
+
+    function fheGe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Ge, lhs, rhs, scalarByte);
+    }
+
+    function fheGt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Gt, lhs, rhs, scalarByte);
+    }
+
+    function fheLe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Le, lhs, rhs, scalarByte);
+    }
+
+    function fheLt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Lt, lhs, rhs, scalarByte);
+    }
+
+    function fheMin(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Min, lhs, rhs, scalarByte);
+    }
+
+    function fheMax(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return _binaryOp(Operator.Max, lhs, rhs, scalarByte);
+    }
+
+    function fheNeg(bytes32 ct) external returns (bytes32) {
+        FheType fheType = _checkOperand(ct);
+        uint256 value;
+        unchecked {
+            value = (0 - plaintexts[ct]) & FHEVMMockConfig.maxValue(fheType);
+        }
+        return _store(Operator.Neg, keccak256(abi.encode(Operator.Neg, ct)), fheType, value);
+    }
+
+    function fheNot(bytes32 ct) external returns (bytes32) {
+        FheType fheType = _checkOperand(ct);
+        uint256 value = ~plaintexts[ct] & FHEVMMockConfig.maxValue(fheType);
+        return _store(Operator.Not, keccak256(abi.encode(Operator.Not, ct)), fheType, value);
+    }
+
+    function fheIfThenElse(bytes32 control, bytes32 ifTrue, bytes32 ifFalse) external returns (bytes32) {
+        require(_checkOperand(control) == FheType.Bool, "FHEVM mock: control must be an ebool");
+        FheType fheType = _checkOperand(ifTrue);
+        require(_checkOperand(ifFalse) == fheType, "FHEVM mock: operand types differ");
+        uint256 value = plaintexts[control] == 1 ? plaintexts[ifTrue] : plaintexts[ifFalse];
+        bytes32 prehandle = keccak256(abi.encode(Operator.IfThenElse, control, ifTrue, ifFalse));
+        return _store(Operator.IfThenElse, prehandle, fheType, value);
+    }
+
+    function cast(bytes32 ct, FheType toType) external returns (bytes32) {
+        _checkOperand(ct);
+        uint256 value = plaintexts[ct];
+        value = toType == FheType.Bool ? (value == 0 ? 0 : 1) : value & FHEVMMockConfig.maxValue(toType);
+        return _store(Operator.Cast, keccak256(abi.encode(Operator.Cast, ct, toType)), toType, value);
+    }
+
+    function trivialEncrypt(uint256 pt, FheType toType) external returns (bytes32) {
+        uint256 value = pt & FHEVMMockConfig.maxValue(toType);
+        return _store(Operator.TrivialEncrypt, keccak256(abi.encode(Operator.TrivialEncrypt, pt, toType)), toType, value);
+    }
+
+    function fheRand(FheType randType) external returns (bytes32) {
+        bytes32 seed = _nextSeed();
+        return _store(Operator.Rand, seed, randType, uint256(seed) & FHEVMMockConfig.maxValue(randType));
+    }
+
+    function fheRandBounded(uint256 upperBound, FheType randType) external returns (bytes32) {
+        require(upperBound != 0 && upperBound & (upperBound - 1) == 0, "FHEVM mock: bound must be a power of two");
+        bytes32 seed = _nextSeed();
+        uint256 value = (uint256(seed) % upperBound) & FHEVMMockConfig.maxValue(randType);
+        return _store(Operator.RandBounded, seed, randType, value);
+    }
+
+    /// @dev Checks an input proof through the input verifier and registers the plaintext it carries
+    /// @param userAddress Account that sent the input to the calling contract
+    function verifyCiphertext(
+        bytes32 inputHandle,
+        address userAddress,
+        bytes memory inputProof,
+        FheType inputType
+    ) external returns (bytes32) {
+        uint256 value = MockInputVerifier(FHEVMMockConfig.INPUT_VERIFIER).verifyInput(
+            userAddress,
+            msg.sender,
+            inputHandle,
+            inputProof,
+            inputType
+        );
+        plaintexts[inputHandle] = value;
+        known[inputHandle] = true;
+        MockACL(FHEVMMockConfig.ACL).allowTransient(inputHandle, msg.sender);
+        return inputHandle;
+    }
+
+    function getInputVerifierAddress() external pure returns (address) {
+        return FHEVMMockConfig.INPUT_VERIFIER;
+    }
+
+    /// @dev Plaintext behind a handle. Test tooling only: the ACL is not checked here
+    function plaintextOf(bytes32 handle) external view returns (uint256) {
+        require(known[handle], "FHEVM mock: unknown handle");
+        return plaintexts[handle];
+    }
+
+    function isKnownHandle(bytes32 handle) external view returns (bool) {
+        return known[handle];
+    }
+
+    function _binaryOp(Operator op, bytes32 lhs, bytes32 rhs, bytes1 scalarByte) private returns (bytes32) {
+        FheType fheType = _checkOperand(lhs);
+        uint256 mask = FHEVMMockConfig.maxValue(fheType);
+        uint256 a = plaintexts[lhs];
+        uint256 b;
+        if (scalarByte == 0x01) {
+            b = uint256(rhs) & mask;
+        } else {
+            require(_checkOperand(rhs) == fheType, "FHEVM mock: operand types differ");
+            b = plaintexts[rhs];
+        }
+
+        uint256 value = _evaluate(op, a, b, FHEVMMockConfig.bitWidth(fheType), mask);
+        FheType resultType = op >= Operator.Eq && op <= Operator.Lt ? FheType.Bool : fheType;
+        return _store(op, keccak256(abi.encode(op, lhs, rhs, scalarByte)), resultType, value);
+    }
+
+    function _evaluate(Operator op, uint256 a, uint256 b, uint16 bits, uint256 mask) private pure returns (uint256) {
+        unchecked {
+            if (op == Operator.Add) return (a + b) & mask;
+            if (op == Operator.Sub) return (a - b) & mask;
+            if (op == Operator.Mul) return (a * b) & mask;
+            if (op == Operator.Div) {
+                require(b != 0, "FHEVM mock: division by zero");
+                return a / b;
+            }
+            if (op == Operator.Rem) {
+                require(b != 0, "FHEVM mock: division by zero");
+                return a % b;
+            }
+            if (op == Operator.BitAnd) return a & b;
+            if (op == Operator.BitOr) return a | b;
+            if (op == Operator.BitXor) return a ^ b;
+            if (op == Operator.Shl) return (a << (b % bits)) & mask;
+            if (op == Operator.Shr) return a >> (b % bits);
+            if (op == Operator.Rotl || op == Operator.Rotr) {
+                uint256 shift = b % bits;
+                if (shift == 0) return a;
+                if (op == Operator.Rotr) shift = bits - shift;
+                return ((a << shift) | (a >> (bits - shift))) & mask;
+            }
+            if (op == Operator.Eq) return a == b ? 1 : 0;
+            if (op == Operator.Ne) return a != b ? 1 : 0;
+            if (op == Operator.Ge) return a >= b ? 1 : 0;
+            if (op == Operator.Gt) return a > b ? 1 : 0;
+            if (op == Operator.Le) return a <= b ? 1 : 0;
+            if (op == Operator.Lt) return a < b ? 1 : 0;
+            if (op == Operator.Min) return a < b ? a : b;
+            if (op == Operator.Max) return a > b ? a : b;
+        }
+        revert("FHEVM mock: unsupported operation");
+    }
+
+    /// @dev The calling contract must be allowed to use every encrypted operand
+    function _checkOperand(bytes32 handle) private view returns (FheType) {
+        require(known[handle], "FHEVM mock: unknown handle");
+        require(
+            MockACL(FHEVMMockConfig.ACL).isAllowed(handle, msg.sender),
+            "FHEVM mock: sender is not allowed to use handle"
+        );
+        return FHEVMMockConfig.typeOf(handle);
+    }
+
+    function _store(Operator op, bytes32 prehandle, FheType fheType, uint256 value) private returns (bytes32 result) {
+        result = FHEVMMockConfig.toHandle(prehandle, FHEVMMockConfig.COMPUTED_INDEX, fheType);
+        plaintexts[result] = value;
+        known[result] = true;
+        MockACL(FHEVMMockConfig.ACL).allowTransient(result, msg.sender);
+        emit FheOperation(msg.sender, op, result);
+    }
+
+    function _nextSeed() private returns (bytes32) {
+        return keccak256(abi.encode(block.prevrandao, block.number, msg.sender, randCounter++));
+    }
+}
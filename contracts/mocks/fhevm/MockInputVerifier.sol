@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { FHEVMMockConfig } from "./FHEVMMockConfig.sol";
+
+/// @title Mock Input Verifier
+/// @dev Checks input proofs produced by the test-side encryptor in test/helpers/fhevm-mock.ts
+/// @notice A mock proof carries its plaintexts next to the handles, signed by the mock coprocessor
+/// key for one user and one contract: `abi.encode(bytes32[] handles, uint256[] values, bytes signature)`
+contract MockInputVerifier {
+
+    address public signer;
+
+    /// @dev Sets the coprocessor signer; called once by the installer since installed code runs no constructor
+    function initialize(address _signer) external {
+        require(signer == address(0), "InputVerifier: already initialized");
+        signer = _signer;
+    }
+
+    /// @dev Verifies `inputHandle` against `inputProof` and returns its plaintext
+    /// @param userAddress Account that encrypted the input
+    /// @param contractAddress Contract the input was encrypted for
+    function verifyInput(
+        address userAddress,
+        address contractAddress,
+        bytes32 inputHandle,
+        bytes memory inputProof,
+        FheType inputType
+    ) external view returns (uint256) {
+        require(msg.sender == FHEVMMockConfig.EXECUTOR, "InputVerifier: caller is not the executor");
+        require(inputProof.length > 0, "InputVerifier: empty input proof");
+
+        (bytes32[] memory handles, uint256[] memory values, bytes memory signature) =
+            abi.decode(inputProof, (bytes32[], uint256[], bytes));
+        require(handles.length == values.length, "InputVerifier: malformed input proof");
+
+        bytes32 digest = keccak256(abi.encode(handles, values, userAddress, contractAddress, block.chainid));
+        require(
+            FHEVMMockConfig.recoverSigner(digest, signature) == signer,
+            "InputVerifier: proof is not valid for this user and contract"
+        );
+
+        uint8 index = FHEVMMockConfig.indexOf(inputHandle);
+        require(index < handles.length && handles[index] == inputHandle, "InputVerifier: handle is not part of the proof");
+        require(FHEVMMockConfig.chainIdOf(inputHandle) == block.chainid, "InputVerifier: wrong chain id");
+        require(FHEVMMockConfig.typeOf(inputHandle) == inputType, "InputVerifier: wrong input type");
+        require(values[index] <= FHEVMMockConfig.maxValue(inputType), "InputVerifier: value out of range");
+
+        return values[index];
+    }
+
+    /// @dev Proofs are not cached between calls, so there is nothing to clean
+    function cleanTransientStorage() external {}
+}
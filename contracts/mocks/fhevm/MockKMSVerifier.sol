@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHEVMMockConfig } from "./FHEVMMockConfig.sol";
+
+/// @title Mock KMS Verifier
+/// @dev Verifies decryption results signed by the mock KMS key of test/helpers/fhevm-mock.ts
+/// @notice The proof is a single `eth_sign` signature over `keccak256(abi.encode(handlesList, decryptedResult))`
+/// instead of the EIP-712 signatures of the KMS signer set
+contract MockKMSVerifier {
+
+    address public signer;
+
+    /// @dev Sets the KMS signer; called once by the installer since installed code runs no constructor
+    function initialize(address _signer) external {
+        require(signer == address(0), "KMSVerifier: already initialized");
+        signer = _signer;
+    }
+
+    function verifyDecryptionEIP712KMSSignatures(
+        bytes32[] memory handlesList,
+        bytes memory decryptedResult,
+        bytes memory decryptionProof
+    ) external view returns (bool) {
+        if (decryptionProof.length != 65) {
+            return false;
+        }
+        bytes32 digest = keccak256(abi.encode(handlesList, decryptedResult));
+        return FHEVMMockConfig.recoverSigner(digest, decryptionProof) == signer;
+    }
+}
@@ -22,6 +22,9 @@ contract ConfidentialERC20 is SepoliaConfig {
     event Approval(address indexed owner, address indexed spender);
     event Mint(address indexed to, uint64 amount);
 
+    /// @param _name Token name
+    /// @param _symbol Token symbol
+    /// @param _decimals Number of decimals shown to users
     constructor(string memory _name, string memory _symbol, uint8 _decimals) {
         name = _name;
         symbol = _symbol;
@@ -28,6 +28,10 @@ contract ConfidentialERC20Wrapper is SepoliaConfig {
     event Unwrap(address indexed account, uint256 amount);
     event Transfer(address indexed from, address indexed to);
 
+    /// @param _underlyingToken Address of the public ERC20 token being wrapped
+    /// @param _name Name of the confidential token
+    /// @param _symbol Symbol of the confidential token
+    /// @param _decimals Decimals, usually those of the underlying token
     constructor(
         address _underlyingToken,
         string memory _name,
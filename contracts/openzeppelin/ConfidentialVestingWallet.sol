@@ -19,6 +19,9 @@ contract ConfidentialVestingWallet is SepoliaConfig {
     event TokensReleased(address indexed beneficiary, uint256 timestamp);
     event VestingScheduleCreated(address indexed beneficiary, uint256 start, uint256 duration);
 
+    /// @param _beneficiary Address that receives the vested tokens
+    /// @param _startTimestamp Unix timestamp at which vesting starts
+    /// @param _durationSeconds Length of the vesting schedule in seconds
     constructor(
         address _beneficiary,
         uint256 _startTimestamp,
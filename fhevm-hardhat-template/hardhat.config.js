@@ -8,6 +8,8 @@ module.exports = {
         enabled: true,
         runs: 200,
       },
+      // The FHEVM host contracts and their mocks use transient storage
+      evmVersion: "cancun",
     },
   },
   networks: {
@@ -9,9 +9,9 @@ async function main() {
     
     const TemplateFactory = await ethers.getContractFactory("TemplateContract");
     const contract = await TemplateFactory.deploy();
-    await contract.deployed();
+    await contract.waitForDeployment();
     
-    console.log("TemplateContract deployed to:", contract.address);
+    console.log("TemplateContract deployed to:", await contract.getAddress());
   } catch (error) {
     console.error("Deployment failed:", error);
     process.exitCode = 1;
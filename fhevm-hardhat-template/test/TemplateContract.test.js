@@ -8,13 +8,13 @@ describe("TemplateContract", function () {
   beforeEach(async function () {
     const TemplateContractFactory = await ethers.getContractFactory("TemplateContract");
     templateContract = await TemplateContractFactory.deploy();
-    await templateContract.deployed();
+    await templateContract.waitForDeployment();
 
     [owner] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(templateContract.address).to.not.be.undefined;
+    expect(await templateContract.getAddress()).to.be.properAddress;
   });
 
   it("Should set and get value", async function () {
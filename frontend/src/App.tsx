@@ -1,24 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
 import './App.css';
-
-const CONTRACT_ADDRESS = "0xc9B0CD3F8b1fEB158c66d9a5266D054EE89aF153";
+import { encryptCertificationInput, encryptRenewalScore, userDecryptBool } from './fhevm';
+import { INDEXER_URL, IndexedRevocation, fetchRevocations } from './indexer';
+import {
+  type PrivacyProfessionalCertificate,
+  connectPrivacyProfessionalCertificate,
+} from './bindings/PrivacyProfessionalCertificate';
+import {
+  type CertificateSummaryOutput,
+  type PrivacyProfessionalCertificateViews,
+  connectPrivacyProfessionalCertificateViews,
+} from './bindings/PrivacyProfessionalCertificateViews';
+
+// PrivacyProfessionalCertificate and its views, as recorded in deployments/<network>.json by scripts/deploy.js
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS ?? '';
+const CONTRACT_MISSING = 'The registry is not configured: build the frontend with VITE_CONTRACT_ADDRESS set to the PrivacyProfessionalCertificate address';
+const VIEWS_ADDRESS = import.meta.env.VITE_VIEWS_ADDRESS;
+const VIEWS_MISSING = 'Certificate lists are unavailable: build the frontend with VITE_VIEWS_ADDRESS set to the PrivacyProfessionalCertificateViews address';
 const SEPOLIA_CHAIN_ID = "0xaa36a7"; // 11155111 in hex
 
-const CONTRACT_ABI = [
-  "function requestCertification(string memory _profession, uint64 _score, uint8 _level, string memory _evidence) external",
-  "function processCertificationRequest(uint256 _requestId, string memory _issuerName) external",
-  "function verifyCertificate(uint256 _certificateId) external view returns (address holder, string memory profession, bool isValid, uint256 issueDate, uint256 expiryDate, string memory issuer, bytes32 credentialHash)",
-  "function getHolderCertificates(address _holder) external view returns (uint256[] memory)",
-  "function getCertificateCount() external view returns (uint256)",
-  "function getRequestCount() external view returns (uint256)",
-  "function getProfessionRequirements(string memory _profession) external view returns (uint256 minScore, uint8 minLevel)",
-  "function authorizedIssuers(address) external view returns (bool)",
-  "function owner() external view returns (address)",
-  "event CertificateIssued(uint256 indexed certificateId, address indexed holder, string profession)",
-  "event CertificationRequested(uint256 indexed requestId, address indexed applicant, string profession)",
-  "event CertificationApproved(uint256 indexed requestId, uint256 indexed certificateId)"
-];
+// Professions offered by the request form, and the scopes an issuer can be accredited for
+const PROFESSIONS = ['Software Engineer', 'Data Scientist', 'Cybersecurity Specialist', 'Project Manager'];
+
+// CertificateStatus enum of the contract
+const CERTIFICATE_STATUS = ['Valid', 'Revoked', 'Suspended', 'Expired', 'Withdrawn'];
+
+// DisclosurePredicate enum of the contract, as shown next to the threshold
+const DISCLOSURE_PREDICATES = ['Score at least', 'Level at least'];
+
+// RequestStatus enum of the contract
+const REQUEST_STATUS = ['Pending', 'Approved', 'Rejected', 'Withdrawn'];
+
+// Requests fetched per page in My Requests and the review queue
+const PAGE_SIZE = 10;
+
+// Certificates expiring within this many seconds are listed in the renewal banner
+const EXPIRY_WARNING_WINDOW = 30 * 24 * 60 * 60;
 
 interface WalletState {
   isConnected: boolean;
@@ -26,6 +44,7 @@ interface WalletState {
   network: string;
   balance: string;
   isAdmin: boolean;
+  isOwner: boolean;
 }
 
 interface Certificate {
@@ -36,6 +55,72 @@ interface Certificate {
   issueDate: number;
   expiryDate: number;
   issuer: string;
+  issuedBy: string;
+  status: string;
+}
+
+interface CertificationRequest {
+  id: number;
+  applicant: string;
+  profession: string;
+  evidence: string;
+  requestTime: number;
+  // Pending requests an issuer has picked up are under encrypted evaluation
+  underEvaluation: boolean;
+  // Issuers that endorsed it, how many of them still count, and how many the profession requires
+  endorsers: string[];
+  endorsements: number;
+  quorum: number;
+  status: string;
+  rejectionReason: string;
+}
+
+interface Disclosure {
+  id: number;
+  certificateId: number;
+  verifier: string;
+  predicate: number;
+  threshold: number;
+  expiresAt: number;
+  revoked: boolean;
+  redeemed: boolean;
+  result: string;
+  // Set once the verifier has decrypted the predicate in this session
+  outcome?: boolean;
+}
+
+interface RenewalRecord {
+  renewalRequestId: number;
+  approved: boolean;
+  decidedAt: number;
+  newExpiry: number;
+}
+
+// Registry listings verifiers and dashboards can page through
+type RegistryFilter = 'all' | 'profession' | 'issuer';
+
+// Maps a CertificateSummary from the batch views
+function toCertificate(summary: CertificateSummaryOutput): Certificate {
+  const status = CERTIFICATE_STATUS[Number(summary.status)];
+  return {
+    id: Number(summary.certificateId),
+    holder: summary.holder,
+    profession: summary.profession,
+    isValid: status === 'Valid',
+    issueDate: Number(summary.issueDate),
+    expiryDate: Number(summary.expiryDate),
+    issuer: summary.issuer,
+    issuedBy: summary.issuedBy,
+    status
+  };
+}
+
+// A certificate listed in My Certificates, with its renewal state; history and disclosures load on demand
+interface HeldCertificate extends Certificate {
+  renewalCount: number;
+  pendingRenewal: number;
+  renewals?: RenewalRecord[];
+  disclosures?: Disclosure[];
 }
 
 function App() {
@@ -44,16 +129,28 @@ function App() {
     account: '',
     network: '',
     balance: '0',
-    isAdmin: false
+    isAdmin: false,
+    isOwner: false
   });
 
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.JsonRpcSigner | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [contract, setContract] = useState<PrivacyProfessionalCertificate | null>(null);
+  const [views, setViews] = useState<PrivacyProfessionalCertificateViews | null>(null);
   const [loading, setLoading] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
-  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [certificates, setCertificates] = useState<HeldCertificate[]>([]);
+  const [certificatesPage, setCertificatesPage] = useState(0);
+  const [certificatesTotal, setCertificatesTotal] = useState(0);
+  const [registryFilter, setRegistryFilter] = useState<RegistryFilter>('all');
+  const [registryQuery, setRegistryQuery] = useState('');
+  const [registryCertificates, setRegistryCertificates] = useState<Certificate[]>([]);
+  const [registryPage, setRegistryPage] = useState(0);
+  const [registryTotal, setRegistryTotal] = useState(0);
+  const [revocations, setRevocations] = useState<IndexedRevocation[]>([]);
+  const [expiringSoon, setExpiringSoon] = useState<Certificate[]>([]);
+  const [renewalTarget, setRenewalTarget] = useState<number | null>(null);
 
   // Form states
   const [profession, setProfession] = useState('');
@@ -62,8 +159,28 @@ function App() {
   const [evidence, setEvidence] = useState('');
   const [certificateId, setCertificateId] = useState('');
   const [requestId, setRequestId] = useState('');
-  const [issuerName, setIssuerName] = useState('');
+  const [renewalScores, setRenewalScores] = useState<Record<number, string>>({});
+  const [renewalRequestId, setRenewalRequestId] = useState('');
+  const [myRequests, setMyRequests] = useState<CertificationRequest[]>([]);
+  const [myRequestsPage, setMyRequestsPage] = useState(0);
+  const [myRequestsTotal, setMyRequestsTotal] = useState(0);
+  const [reviewQueue, setReviewQueue] = useState<CertificationRequest[]>([]);
+  const [reviewQueuePage, setReviewQueuePage] = useState(0);
+  const [reviewQueueTotal, setReviewQueueTotal] = useState(0);
+  const [rejectionReasons, setRejectionReasons] = useState<Record<number, string>>({});
+  const [disclosureCertificateId, setDisclosureCertificateId] = useState('');
+  const [disclosureVerifier, setDisclosureVerifier] = useState('');
+  const [disclosurePredicate, setDisclosurePredicate] = useState('0');
+  const [disclosureThreshold, setDisclosureThreshold] = useState('');
+  const [disclosureDays, setDisclosureDays] = useState('7');
+  const [receivedDisclosures, setReceivedDisclosures] = useState<Disclosure[]>([]);
+  const [issuerProfile, setIssuerProfile] = useState<{ organization: string; professions: string[] } | null>(null);
+  const [newIssuerAddress, setNewIssuerAddress] = useState('');
+  const [newIssuerOrganization, setNewIssuerOrganization] = useState('');
+  const [newIssuerScope, setNewIssuerScope] = useState<string[]>([]);
   const [verifiedCert, setVerifiedCert] = useState<Certificate | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [suspensionAddress, setSuspensionAddress] = useState('');
 
   useEffect(() => {
     checkWalletConnection();
@@ -81,7 +198,10 @@ function App() {
       setError('');
       setSuccess('');
 
-      // Step 1: Check for MetaMask
+      // Step 1: Check the build configuration and MetaMask
+      if (!CONTRACT_ADDRESS) {
+        throw new Error(CONTRACT_MISSING);
+      }
       if (typeof window.ethereum === 'undefined') {
         throw new Error('MetaMask not found. Please install MetaMask to continue.');
       }
@@ -101,24 +221,40 @@ function App() {
       }
 
       // Step 5: Initialize contract
-      const newContract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, newSigner);
+      const newContract = connectPrivacyProfessionalCertificate(CONTRACT_ADDRESS, newSigner);
+      const newViews = VIEWS_ADDRESS ? connectPrivacyProfessionalCertificateViews(VIEWS_ADDRESS, newSigner) : null;
 
       // Step 6: Update state
       const balance = await newProvider.getBalance(userAddress);
       const isAdmin = await checkAdminStatus(newContract, userAddress);
+      const isOwner = (await newContract.owner()).toLowerCase() === userAddress.toLowerCase();
+      setIsPaused(await newContract.paused());
+      const registered = await newContract.getIssuer(userAddress);
+      setIssuerProfile(registered.active
+        ? { organization: registered.organization, professions: [...registered.professions] }
+        : null);
+      if (newViews) {
+        const expiring = await newViews.expiringWithin(EXPIRY_WARNING_WINDOW);
+        setExpiringSoon(expiring.map(toCertificate));
+      }
 
       setProvider(newProvider);
       setSigner(newSigner);
       setContract(newContract);
+      setViews(newViews);
       setWalletState({
         isConnected: true,
         account: userAddress,
         network: `Sepolia (${network.chainId})`,
         balance: ethers.formatEther(balance).slice(0, 6),
-        isAdmin
+        isAdmin,
+        isOwner
       });
 
       setSuccess('Successfully connected to Sepolia testnet! ✅');
+      if (!newViews) {
+        setError(VIEWS_MISSING);
+      }
 
     } catch (error: any) {
       console.error('Connection error:', error);
@@ -157,7 +293,7 @@ function App() {
     }
   };
 
-  const checkAdminStatus = async (contract: ethers.Contract, address: string): Promise<boolean> => {
+  const checkAdminStatus = async (contract: PrivacyProfessionalCertificate, address: string): Promise<boolean> => {
     try {
       const isAuthorized = await contract.authorizedIssuers(address);
       const owner = await contract.owner();
@@ -180,7 +316,20 @@ function App() {
       setError('');
       setSuccess('');
 
-      const tx = await contract.requestCertification(profession, parseInt(score), parseInt(level), evidence);
+      // Encrypted in the browser: only ciphertext handles and the input proof go on-chain
+      const input = await encryptCertificationInput(
+        CONTRACT_ADDRESS,
+        walletState.account,
+        parseInt(score),
+        parseInt(level)
+      );
+      const tx = await contract.requestEncryptedCertification(
+        profession,
+        input.score,
+        input.level,
+        input.inputProof,
+        evidence
+      );
       await tx.wait();
 
       setSuccess('Certification request submitted successfully!');
@@ -217,51 +366,47 @@ function App() {
         isValid: result.isValid,
         issueDate: Number(result.issueDate),
         expiryDate: Number(result.expiryDate),
-        issuer: result.issuer
+        issuer: result.issuer,
+        issuedBy: result.issuedBy,
+        status: CERTIFICATE_STATUS[Number(result.status)]
       };
 
       setVerifiedCert(cert);
       setSuccess('Certificate verified successfully!');
     } catch (error: any) {
       console.error('Verify error:', error);
-      setError(`Verification failed: ${error.message}`);
+      setError(error.revert?.name === 'CertificateNotFound'
+        ? `Certificate #${certificateId} does not exist.`
+        : `Verification failed: ${error.message}`);
       setVerifiedCert(null);
     } finally {
       setLoading('');
     }
   };
 
-  const loadMyCertificates = async () => {
+  const loadMyCertificates = async (page: number) => {
     if (!contract || !walletState.isConnected) {
       setError('Please connect your wallet first');
       return;
     }
+    if (!views) {
+      setError(VIEWS_MISSING);
+      return;
+    }
 
     try {
       setLoading('certificates');
       setError('');
 
-      const certificateIds = await contract.getHolderCertificates(walletState.account);
-      const certs: Certificate[] = [];
-
-      for (const id of certificateIds) {
-        try {
-          const cert = await contract.verifyCertificate(id);
-          certs.push({
-            id: Number(id),
-            holder: cert.holder,
-            profession: cert.profession,
-            isValid: cert.isValid,
-            issueDate: Number(cert.issueDate),
-            expiryDate: Number(cert.expiryDate),
-            issuer: cert.issuer
-          });
-        } catch (error) {
-          console.error(`Error loading certificate ${id}:`, error);
-        }
-      }
-
-      setCertificates(certs);
+      // One call lists the page; renewal history and disclosures load when a certificate is expanded
+      const result = await views.getCertificatesByHolder(walletState.account, page * PAGE_SIZE, PAGE_SIZE);
+      setCertificates(result.page.map((summary) => ({
+        ...toCertificate(summary),
+        renewalCount: Number(summary.renewalCount),
+        pendingRenewal: Number(summary.pendingRenewal)
+      })));
+      setCertificatesTotal(Number(result.total));
+      setCertificatesPage(page);
     } catch (error: any) {
       console.error('Load certificates error:', error);
       setError('Error loading certificates');
@@ -270,6 +415,463 @@ function App() {
     }
   };
 
+  const loadCertificateDetails = async (certificateId: number) => {
+    if (!contract) return;
+
+    try {
+      setLoading(`details-${certificateId}`);
+      setError('');
+
+      const [history, disclosureIds] = await Promise.all([
+        contract.getRenewalHistory(certificateId),
+        contract.getCertificateDisclosures(certificateId)
+      ]);
+      const renewals = history.map((record) => ({
+        renewalRequestId: Number(record.renewalRequestId),
+        approved: record.approved,
+        decidedAt: Number(record.decidedAt),
+        newExpiry: Number(record.newExpiry)
+      }));
+      const disclosures = await fetchDisclosures([...disclosureIds]);
+
+      setCertificates(prev => prev.map(cert => cert.id === certificateId ? { ...cert, renewals, disclosures } : cert));
+    } catch (error: any) {
+      console.error('Load certificate details error:', error);
+      setError(`Error loading the history of certificate #${certificateId}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const loadRegistry = async (page: number) => {
+    if (!walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+    if (!views) {
+      setError(VIEWS_MISSING);
+      return;
+    }
+    if (registryFilter === 'issuer' && !ethers.isAddress(registryQuery)) {
+      setError('Enter a valid issuer address');
+      return;
+    }
+
+    try {
+      setLoading('registry');
+      setError('');
+
+      const offset = page * PAGE_SIZE;
+      const result = registryFilter === 'profession'
+        ? await views.getCertificatesByProfession(registryQuery, offset, PAGE_SIZE)
+        : registryFilter === 'issuer'
+          ? await views.getCertificatesByIssuer(registryQuery, offset, PAGE_SIZE)
+          : await views.getCertificates(offset, PAGE_SIZE);
+
+      setRegistryCertificates(result.page.map(toCertificate));
+      setRegistryTotal(Number(result.total));
+      setRegistryPage(page);
+    } catch (error: any) {
+      console.error('Load registry error:', error);
+      setError('Error loading the certificate registry');
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const fetchDisclosures = async (disclosureIds: bigint[]): Promise<Disclosure[]> => {
+    if (!contract) return [];
+
+    return Promise.all(disclosureIds.map(async (id) => {
+      const disclosure = await contract.getDisclosure(id);
+      return {
+        id: Number(id),
+        certificateId: Number(disclosure.certificateId),
+        verifier: disclosure.verifier,
+        predicate: Number(disclosure.predicate),
+        threshold: Number(disclosure.threshold),
+        expiresAt: Number(disclosure.expiresAt),
+        revoked: disclosure.revoked,
+        redeemed: disclosure.redeemed,
+        result: disclosure.result
+      };
+    }));
+  };
+
+  const handleCreateDisclosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+    if (!ethers.isAddress(disclosureVerifier)) {
+      setError('Enter a valid verifier address');
+      return;
+    }
+
+    try {
+      setLoading('disclosure');
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.createDisclosure(
+        parseInt(disclosureCertificateId),
+        disclosureVerifier,
+        parseInt(disclosurePredicate),
+        parseInt(disclosureThreshold),
+        parseInt(disclosureDays) * 24 * 60 * 60
+      );
+      await tx.wait();
+
+      setSuccess(`The verifier can now learn whether certificate #${disclosureCertificateId} meets "${DISCLOSURE_PREDICATES[parseInt(disclosurePredicate)]} ${disclosureThreshold}" for ${disclosureDays} days, and nothing else.`);
+      setDisclosureVerifier('');
+      setDisclosureThreshold('');
+    } catch (error: any) {
+      console.error('Disclosure error:', error);
+      setError(`Disclosure failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleWithdrawCertificate = async (certId: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+    if (!window.confirm(
+      `Withdraw certificate #${certId}? It becomes permanently invalid, its encrypted score and level ` +
+      'can no longer be used, and open disclosures are revoked. This cannot be undone.'
+    )) {
+      return;
+    }
+
+    try {
+      setLoading(`withdraw-certificate-${certId}`);
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.withdrawCertificate(certId);
+      await tx.wait();
+
+      setSuccess(`Certificate #${certId} withdrawn. Verifiers will see it as withdrawn by the holder.`);
+      setExpiringSoon(prev => prev.filter(cert => cert.id !== certId));
+      await loadMyCertificates(certificatesPage);
+    } catch (error: any) {
+      console.error('Withdraw certificate error:', error);
+      setError(`Withdrawal failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleRevokeDisclosure = async (disclosureId: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`disclosure-${disclosureId}`);
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.revokeDisclosure(disclosureId);
+      await tx.wait();
+
+      setSuccess(`Disclosure #${disclosureId} revoked.`);
+      setCertificates(prev => prev.map(cert => ({
+        ...cert,
+        disclosures: cert.disclosures?.map(d => d.id === disclosureId ? { ...d, revoked: true } : d)
+      })));
+    } catch (error: any) {
+      console.error('Revoke disclosure error:', error);
+      setError(`Revocation failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  // Revocations have no on-chain listing; they are read from the indexer when one is configured
+  const loadRevocations = async () => {
+    try {
+      setLoading('revocations');
+      setError('');
+      setRevocations(await fetchRevocations());
+    } catch (error: any) {
+      console.error('Load revocations error:', error);
+      setError(`Error loading revocations: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const loadReceivedDisclosures = async () => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading('received');
+      setError('');
+
+      const disclosureIds = await contract.getVerifierDisclosures(walletState.account);
+      setReceivedDisclosures(await fetchDisclosures([...disclosureIds]));
+    } catch (error: any) {
+      console.error('Load disclosures error:', error);
+      setError('Error loading disclosures');
+    } finally {
+      setLoading('');
+    }
+  };
+
+  // Redeems the disclosure if needed, then user-decrypts the granted predicate
+  const handleRedeemDisclosure = async (disclosure: Disclosure) => {
+    if (!contract || !signer || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`disclosure-${disclosure.id}`);
+      setError('');
+      setSuccess('');
+
+      if (!disclosure.redeemed) {
+        const tx = await contract.redeemDisclosure(disclosure.id);
+        await tx.wait();
+      }
+      const { result } = await contract.getDisclosure(disclosure.id);
+      const outcome = await userDecryptBool(result, CONTRACT_ADDRESS, signer);
+
+      setReceivedDisclosures(prev => prev.map(d => d.id === disclosure.id
+        ? { ...d, redeemed: true, result, outcome }
+        : d));
+    } catch (error: any) {
+      console.error('Redeem disclosure error:', error);
+      setError(`Disclosure failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const fetchRequests = async (requestIds: bigint[]): Promise<CertificationRequest[]> => {
+    if (!contract) return [];
+
+    return Promise.all(requestIds.map(async (id) => {
+      const [request, reason, endorsement] = await Promise.all([
+        contract.certificationRequests(id),
+        contract.rejectionReasons(id),
+        contract.getRequestEndorsements(id)
+      ]);
+      return {
+        id: Number(id),
+        applicant: request.applicant,
+        profession: request.profession,
+        evidence: request.evidence,
+        requestTime: Number(request.requestTime),
+        underEvaluation: request.isProcessed && Number(request.status) === 0,
+        endorsers: [...endorsement.endorsers],
+        endorsements: Number(endorsement.counted),
+        quorum: Number(endorsement.quorum),
+        status: REQUEST_STATUS[Number(request.status)],
+        rejectionReason: reason
+      };
+    }));
+  };
+
+  const loadMyRequests = async (page: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading('requests');
+      setError('');
+
+      const result = await contract.getApplicantRequests(walletState.account, page * PAGE_SIZE, PAGE_SIZE);
+      setMyRequests(await fetchRequests([...result.requestIds]));
+      setMyRequestsTotal(Number(result.total));
+      setMyRequestsPage(page);
+    } catch (error: any) {
+      console.error('Load requests error:', error);
+      setError('Error loading requests');
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const loadReviewQueue = async (page: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    if (!views) {
+      setError(VIEWS_MISSING);
+      return;
+    }
+
+    try {
+      setLoading('queue');
+      setError('');
+
+      // Scoped to the professions this issuer may decide on before paging, so pages stay full
+      const result = await views.getPendingRequestsForIssuer(walletState.account, page * PAGE_SIZE, PAGE_SIZE);
+      setReviewQueue(await fetchRequests([...result.requestIds]));
+      setReviewQueueTotal(Number(result.total));
+      setReviewQueuePage(page);
+    } catch (error: any) {
+      console.error('Load queue error:', error);
+      setError('Error loading the review queue');
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleWithdrawRequest = async (id: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`withdraw-${id}`);
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.withdrawRequest(id);
+      await tx.wait();
+
+      setSuccess(`Request #${id} withdrawn.`);
+      await loadMyRequests(myRequestsPage);
+    } catch (error: any) {
+      console.error('Withdraw error:', error);
+      setError(`Withdrawal failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  // Processing only endorses a request until the profession's quorum is reached
+  const describeEndorsement = (receipt: ethers.TransactionReceipt | null, id: number) => {
+    if (!contract) return '';
+    const events = (receipt?.logs ?? [])
+      .map(log => contract.interface.parseLog(log))
+      .filter((event): event is ethers.LogDescription => event !== null);
+    if (events.some(event => event.name === 'CertificationEvaluationRequested')) {
+      return `Request #${id} submitted for encrypted evaluation. The certificate is issued once the decryption oracle confirms the requirements are met.`;
+    }
+    const endorsed = events.find(event => event.name === 'CertificationEndorsed');
+    return endorsed
+      ? `Endorsement of request #${id} recorded (${endorsed.args.endorsements} of ${endorsed.args.quorum}).`
+      : `Request #${id} processed.`;
+  };
+
+  const handleReviewDecision = async (id: number, approve: boolean) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`review-${id}`);
+      setError('');
+      setSuccess('');
+
+      const tx = approve
+        ? await contract.processCertificationRequest(id)
+        : await contract.rejectCertificationRequest(id, rejectionReasons[id]);
+      const receipt = await tx.wait();
+
+      setSuccess(approve ? describeEndorsement(receipt, id) : `Request #${id} rejected.`);
+      await loadReviewQueue(reviewQueuePage);
+    } catch (error: any) {
+      console.error('Review error:', error);
+      setError(`Review failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  // Opens the My Certificates page holding the certificate, then brings its renewal form into view
+  const handleRenewExpiring = async (certId: number) => {
+    if (!contract) return;
+    const ids: bigint[] = await contract.getHolderCertificates(walletState.account);
+    const position = ids.findIndex(id => Number(id) === certId);
+    setRenewalTarget(certId);
+    await loadMyCertificates(Math.floor(Math.max(position, 0) / PAGE_SIZE));
+  };
+
+  useEffect(() => {
+    if (renewalTarget === null) return;
+    const item = document.getElementById(`certificate-${renewalTarget}`);
+    if (item) {
+      item.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      document.getElementById(`renewal-score-${renewalTarget}`)?.focus({ preventScroll: true });
+      setRenewalTarget(null);
+    }
+  }, [certificates, renewalTarget]);
+
+  const handleRequestRenewal = async (certId: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`renewal-${certId}`);
+      setError('');
+      setSuccess('');
+
+      // Only the new score is re-submitted; the certified level is re-checked on-chain
+      const input = await encryptRenewalScore(CONTRACT_ADDRESS, walletState.account, parseInt(renewalScores[certId]));
+      const tx = await contract.requestRenewal(certId, input.score, input.inputProof);
+      const receipt = await tx.wait();
+      const event = (receipt?.logs ?? [])
+        .map(log => contract.interface.parseLog(log))
+        .find(parsed => parsed?.name === 'RenewalRequested');
+
+      setSuccess(`Renewal request #${event?.args.renewalRequestId} submitted for certificate #${certId}.`);
+      setRenewalScores(prev => ({ ...prev, [certId]: '' }));
+      setCertificates(prev => prev.map(cert => cert.id === certId
+        ? { ...cert, pendingRenewal: Number(event?.args.renewalRequestId ?? 0) }
+        : cert));
+    } catch (error: any) {
+      console.error('Renewal error:', error);
+      setError(`Renewal failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleProcessRenewal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading('renewal');
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.processRenewalRequest(parseInt(renewalRequestId));
+      await tx.wait();
+
+      setSuccess('Renewal submitted for encrypted re-assessment against the current requirements. The certificate is extended once the decryption oracle confirms them.');
+      setRenewalRequestId('');
+    } catch (error: any) {
+      console.error('Process renewal error:', error);
+      setError(`Renewal processing failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
   const handleProcessRequest = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!contract || !walletState.isConnected) {
@@ -282,12 +884,11 @@ function App() {
       setError('');
       setSuccess('');
 
-      const tx = await contract.processCertificationRequest(parseInt(requestId), issuerName);
-      await tx.wait();
+      const tx = await contract.processCertificationRequest(parseInt(requestId));
+      const receipt = await tx.wait();
 
-      setSuccess('Request processed successfully!');
+      setSuccess(describeEndorsement(receipt, parseInt(requestId)));
       setRequestId('');
-      setIssuerName('');
     } catch (error: any) {
       console.error('Process error:', error);
       setError(`Processing failed: ${error.message}`);
@@ -296,6 +897,99 @@ function App() {
     }
   };
 
+  const handleAuthorizeIssuer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+    if (!ethers.isAddress(newIssuerAddress)) {
+      setError('Enter a valid issuer address');
+      return;
+    }
+
+    try {
+      setLoading('issuer');
+      setError('');
+      setSuccess('');
+
+      const tx = await contract.authorizeIssuer(newIssuerAddress, newIssuerOrganization, newIssuerScope);
+      await tx.wait();
+
+      setSuccess(`${newIssuerOrganization} registered as issuer for ${newIssuerScope.join(', ') || 'no professions yet'}.`);
+      setNewIssuerAddress('');
+      setNewIssuerOrganization('');
+      setNewIssuerScope([]);
+    } catch (error: any) {
+      console.error('Authorize issuer error:', error);
+      setError(`Issuer registration failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const toggleNewIssuerScope = (profession: string) => {
+    setNewIssuerScope(prev => prev.includes(profession)
+      ? prev.filter(p => p !== profession)
+      : [...prev, profession]);
+  };
+
+  const handleTogglePause = async () => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading('pause');
+      setError('');
+      setSuccess('');
+
+      const tx = isPaused ? await contract.unpause() : await contract.emergencyPause();
+      await tx.wait();
+
+      setIsPaused(!isPaused);
+      setSuccess(isPaused ? 'Registry resumed.' : 'Registry paused: requests, processing, revocation and renewal are blocked.');
+    } catch (error: any) {
+      console.error('Pause error:', error);
+      setError(`Pause toggle failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleIssuerSuspension = async (suspend: boolean) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+    if (!ethers.isAddress(suspensionAddress)) {
+      setError('Enter a valid issuer address');
+      return;
+    }
+
+    try {
+      setLoading('suspension');
+      setError('');
+      setSuccess('');
+
+      const tx = suspend
+        ? await contract.suspendIssuer(suspensionAddress)
+        : await contract.reinstateIssuer(suspensionAddress);
+      await tx.wait();
+
+      setSuccess(suspend
+        ? `Issuer ${suspensionAddress} suspended: its certificates now verify as suspended.`
+        : `Issuer ${suspensionAddress} reinstated.`);
+      setSuspensionAddress('');
+    } catch (error: any) {
+      console.error('Suspension error:', error);
+      setError(`Issuer update failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
   // Handle account and network changes
   useEffect(() => {
     if (window.ethereum) {
@@ -359,6 +1053,27 @@ function App() {
               <strong>Balance:</strong> {walletState.balance} ETH
             </div>
 
+            {expiringSoon.length > 0 && (
+              <div className="expiry-banner">
+                <strong>⏳ Expiring soon</strong>
+                {expiringSoon.map((cert) => (
+                  <div key={cert.id} className="expiry-banner-item">
+                    <span>
+                      Certificate #{cert.id} ({cert.profession}) expires on{' '}
+                      {new Date(cert.expiryDate * 1000).toLocaleDateString()}
+                    </span>
+                    <button
+                      className="btn"
+                      onClick={() => handleRenewExpiring(cert.id)}
+                      disabled={loading === 'certificates'}
+                    >
+                      Renew
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="main-content">
               {/* Request Certificate Card */}
               <div className="card">
@@ -421,7 +1136,7 @@ function App() {
                   </div>
 
                   <button type="submit" className="btn" disabled={loading === 'request'}>
-                    {loading === 'request' ? 'Processing...' : 'Submit Request'}
+                    {loading === 'request' ? 'Encrypting and submitting...' : 'Submit Request'}
                   </button>
                 </form>
               </div>
@@ -457,9 +1172,14 @@ function App() {
                     <p><strong>Holder:</strong> {verifiedCert.holder}</p>
                     <p><strong>Profession:</strong> {verifiedCert.profession}</p>
                     <p><strong>Valid:</strong> {verifiedCert.isValid ? 'Yes' : 'No'}</p>
+                    <p><strong>Status:</strong> {verifiedCert.status}</p>
+                    {verifiedCert.status === 'Revoked' && <p>Revoked by the issuer.</p>}
+                    {verifiedCert.status === 'Withdrawn' && (
+                      <p>Withdrawn by the holder, who no longer consents to its use. This is not an issuer revocation.</p>
+                    )}
                     <p><strong>Issue Date:</strong> {new Date(verifiedCert.issueDate * 1000).toLocaleDateString()}</p>
                     <p><strong>Expiry Date:</strong> {new Date(verifiedCert.expiryDate * 1000).toLocaleDateString()}</p>
-                    <p><strong>Issuer:</strong> {verifiedCert.issuer}</p>
+                    <p><strong>Issuer:</strong> {verifiedCert.issuer} ({verifiedCert.issuedBy})</p>
                   </div>
                 )}
               </div>
@@ -471,7 +1191,7 @@ function App() {
                   <h3>My Certificates</h3>
                 </div>
 
-                <button className="btn" onClick={loadMyCertificates} disabled={loading === 'certificates'}>
+                <button className="btn" onClick={() => loadMyCertificates(0)} disabled={loading === 'certificates'}>
                   {loading === 'certificates' ? 'Loading...' : 'Load My Certificates'}
                 </button>
 
@@ -480,18 +1200,403 @@ function App() {
                     <p>No certificates found.</p>
                   ) : (
                     certificates.map((cert) => (
-                      <div key={cert.id} className="certificate-item">
+                      <div key={cert.id} id={`certificate-${cert.id}`} className="certificate-item">
                         <div className="certificate-title">Certificate #{cert.id}</div>
                         <div className="certificate-details">
                           <strong>Profession:</strong> {cert.profession}<br />
-                          <strong>Status:</strong> {cert.isValid ? 'Valid' : 'Invalid'}<br />
+                          <strong>Status:</strong> {cert.status}<br />
                           <strong>Issued:</strong> {new Date(cert.issueDate * 1000).toLocaleDateString()}<br />
+                          <strong>Expires:</strong> {new Date(cert.expiryDate * 1000).toLocaleDateString()}<br />
+                          <strong>Renewals:</strong> {cert.renewalCount}
+                        </div>
+
+                        {!cert.renewals && (
+                          <button
+                            className="btn"
+                            onClick={() => loadCertificateDetails(cert.id)}
+                            disabled={loading === `details-${cert.id}`}
+                          >
+                            {loading === `details-${cert.id}` ? 'Loading...' : 'Show History'}
+                          </button>
+                        )}
+
+                        {cert.renewals && cert.renewals.length > 0 && (
+                          <ul className="renewal-history">
+                            {cert.renewals.map((renewal) => (
+                              <li key={renewal.renewalRequestId}>
+                                {new Date(renewal.decidedAt * 1000).toLocaleDateString()}:{' '}
+                                {renewal.approved
+                                  ? `renewed until ${new Date(renewal.newExpiry * 1000).toLocaleDateString()}`
+                                  : 'renewal rejected'}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {cert.disclosures && cert.disclosures.length > 0 && (
+                          <ul className="renewal-history">
+                            {cert.disclosures.map((disclosure) => (
+                              <li key={disclosure.id}>
+                                {DISCLOSURE_PREDICATES[disclosure.predicate]} {disclosure.threshold} for{' '}
+                                {`${disclosure.verifier.slice(0, 6)}...${disclosure.verifier.slice(-4)}`}:{' '}
+                                {disclosure.revoked
+                                  ? 'revoked'
+                                  : disclosure.redeemed
+                                    ? 'redeemed'
+                                    : `open until ${new Date(disclosure.expiresAt * 1000).toLocaleDateString()}`}
+                                {!disclosure.revoked && !disclosure.redeemed && (
+                                  <>
+                                    {' '}
+                                    <button
+                                      className="btn"
+                                      onClick={() => handleRevokeDisclosure(disclosure.id)}
+                                      disabled={loading === `disclosure-${disclosure.id}`}
+                                    >
+                                      Revoke
+                                    </button>
+                                  </>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {cert.pendingRenewal > 0 ? (
+                          <p>Renewal request #{cert.pendingRenewal} is awaiting an issuer.</p>
+                        ) : (cert.status === 'Valid' || cert.status === 'Expired') && (
+                          <div className="form-group">
+                            <input
+                              id={`renewal-score-${cert.id}`}
+                              type="number"
+                              min="0"
+                              max="100"
+                              value={renewalScores[cert.id] ?? ''}
+                              onChange={(e) => setRenewalScores(prev => ({ ...prev, [cert.id]: e.target.value }))}
+                              placeholder="New professional score (0-100)"
+                            />
+                            <button
+                              className="btn"
+                              onClick={() => handleRequestRenewal(cert.id)}
+                              disabled={loading === `renewal-${cert.id}` || !renewalScores[cert.id]}
+                            >
+                              {loading === `renewal-${cert.id}` ? 'Encrypting and submitting...' : 'Request Renewal'}
+                            </button>
+                          </div>
+                        )}
+
+                        {cert.status !== 'Revoked' && cert.status !== 'Withdrawn' && (
+                          <button
+                            className="btn btn-danger"
+                            onClick={() => handleWithdrawCertificate(cert.id)}
+                            disabled={loading === `withdraw-certificate-${cert.id}`}
+                          >
+                            {loading === `withdraw-certificate-${cert.id}` ? 'Withdrawing...' : 'Withdraw Certificate'}
+                          </button>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {certificatesTotal > PAGE_SIZE && (
+                  <div className="pagination">
+                    <button className="btn" onClick={() => loadMyCertificates(certificatesPage - 1)} disabled={certificatesPage === 0}>
+                      Previous
+                    </button>
+                    <span>Page {certificatesPage + 1} of {Math.ceil(certificatesTotal / PAGE_SIZE)}</span>
+                    <button
+                      className="btn"
+                      onClick={() => loadMyCertificates(certificatesPage + 1)}
+                      disabled={(certificatesPage + 1) * PAGE_SIZE >= certificatesTotal}
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Certificate Registry Card */}
+              <div className="card">
+                <div className="card-header">
+                  <div className="card-icon icon-verify">📚</div>
+                  <h3>Certificate Registry</h3>
+                </div>
+
+                <div className="form-group">
+                  <label>List</label>
+                  <select
+                    value={registryFilter}
+                    onChange={(e) => {
+                      setRegistryFilter(e.target.value as RegistryFilter);
+                      setRegistryQuery('');
+                    }}
+                  >
+                    <option value="all">All certificates</option>
+                    <option value="profession">By profession</option>
+                    <option value="issuer">By issuer address</option>
+                  </select>
+                </div>
+
+                {registryFilter === 'profession' && (
+                  <div className="form-group">
+                    <select value={registryQuery} onChange={(e) => setRegistryQuery(e.target.value)}>
+                      <option value="">Select Profession</option>
+                      {PROFESSIONS.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {registryFilter === 'issuer' && (
+                  <div className="form-group">
+                    <input
+                      type="text"
+                      value={registryQuery}
+                      onChange={(e) => setRegistryQuery(e.target.value)}
+                      placeholder="0x..."
+                    />
+                  </div>
+                )}
+
+                <button
+                  className="btn"
+                  onClick={() => loadRegistry(0)}
+                  disabled={loading === 'registry' || (registryFilter !== 'all' && !registryQuery)}
+                >
+                  {loading === 'registry' ? 'Loading...' : 'Load Certificates'}
+                </button>
+
+                <div className="certificate-list">
+                  {registryCertificates.length === 0 ? (
+                    <p>No certificates on this page.</p>
+                  ) : (
+                    registryCertificates.map((cert) => (
+                      <div key={cert.id} className="certificate-item">
+                        <div className="certificate-title">Certificate #{cert.id}: {cert.profession}</div>
+                        <div className="certificate-details">
+                          <strong>Holder:</strong> {`${cert.holder.slice(0, 6)}...${cert.holder.slice(-4)}`}<br />
+                          <strong>Status:</strong> {cert.status}<br />
+                          <strong>Issuer:</strong> {cert.issuer}<br />
                           <strong>Expires:</strong> {new Date(cert.expiryDate * 1000).toLocaleDateString()}
                         </div>
                       </div>
                     ))
                   )}
                 </div>
+
+                {registryTotal > PAGE_SIZE && (
+                  <div className="pagination">
+                    <button className="btn" onClick={() => loadRegistry(registryPage - 1)} disabled={registryPage === 0}>
+                      Previous
+                    </button>
+                    <span>Page {registryPage + 1} of {Math.ceil(registryTotal / PAGE_SIZE)}</span>
+                    <button
+                      className="btn"
+                      onClick={() => loadRegistry(registryPage + 1)}
+                      disabled={(registryPage + 1) * PAGE_SIZE >= registryTotal}
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Revocations Card (indexer only) */}
+              {INDEXER_URL && (
+                <div className="card">
+                  <div className="card-header">
+                    <div className="card-icon icon-verify">🚫</div>
+                    <h3>Recent Revocations</h3>
+                  </div>
+
+                  <button className="btn" onClick={loadRevocations} disabled={loading === 'revocations'}>
+                    {loading === 'revocations' ? 'Loading...' : 'Load Revocations'}
+                  </button>
+
+                  <div className="certificate-list">
+                    {revocations.length === 0 ? (
+                      <p>No revocations loaded.</p>
+                    ) : (
+                      revocations.map((revocation) => (
+                        <div key={`${revocation.certificateId}-${revocation.transactionHash}`} className="certificate-item">
+                          <div className="certificate-title">
+                            Certificate #{revocation.certificateId}: {revocation.profession}
+                          </div>
+                          <div className="certificate-details">
+                            <strong>Holder:</strong> {`${revocation.holder.slice(0, 6)}...${revocation.holder.slice(-4)}`}<br />
+                            <strong>{revocation.kind === 'Revoked' ? 'Revoked by issuer' : 'Withdrawn by holder'}:</strong>{' '}
+                            {new Date(revocation.timestamp * 1000).toLocaleDateString()}
+                            {revocation.reason && <><br /><strong>Reason:</strong> {revocation.reason}</>}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Selective Disclosure Card */}
+              <div className="card">
+                <div className="card-header">
+                  <div className="card-icon icon-verify">🔐</div>
+                  <h3>Selective Disclosure</h3>
+                </div>
+
+                <form onSubmit={handleCreateDisclosure}>
+                  <div className="form-group">
+                    <label>Certificate</label>
+                    <select
+                      value={disclosureCertificateId}
+                      onChange={(e) => setDisclosureCertificateId(e.target.value)}
+                      required
+                    >
+                      <option value="">Select Certificate (load My Certificates first)</option>
+                      {certificates.filter(cert => cert.status === 'Valid').map((cert) => (
+                        <option key={cert.id} value={cert.id}>#{cert.id} {cert.profession}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label>Verifier Address</label>
+                    <input
+                      type="text"
+                      value={disclosureVerifier}
+                      onChange={(e) => setDisclosureVerifier(e.target.value)}
+                      placeholder="0x..."
+                      required
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Statement</label>
+                    <select value={disclosurePredicate} onChange={(e) => setDisclosurePredicate(e.target.value)}>
+                      {DISCLOSURE_PREDICATES.map((label, index) => (
+                        <option key={label} value={index}>{label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      max={disclosurePredicate === '0' ? '100' : '10'}
+                      value={disclosureThreshold}
+                      onChange={(e) => setDisclosureThreshold(e.target.value)}
+                      placeholder={disclosurePredicate === '0' ? 'Minimum score (0-100)' : 'Minimum level (1-10)'}
+                      required
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Valid for (days, up to 30)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="30"
+                      value={disclosureDays}
+                      onChange={(e) => setDisclosureDays(e.target.value)}
+                      required
+                    />
+                  </div>
+
+                  <button type="submit" className="btn" disabled={loading === 'disclosure'}>
+                    {loading === 'disclosure' ? 'Creating...' : 'Create Disclosure'}
+                  </button>
+                </form>
+
+                <h4>Shared With Me</h4>
+                <button className="btn" onClick={loadReceivedDisclosures} disabled={loading === 'received'}>
+                  {loading === 'received' ? 'Loading...' : 'Load Disclosures'}
+                </button>
+
+                <div className="certificate-list">
+                  {receivedDisclosures.length === 0 ? (
+                    <p>No disclosures shared with this account.</p>
+                  ) : (
+                    receivedDisclosures.map((disclosure) => (
+                      <div key={disclosure.id} className="certificate-item">
+                        <div className="certificate-title">
+                          Certificate #{disclosure.certificateId}: {DISCLOSURE_PREDICATES[disclosure.predicate]} {disclosure.threshold}?
+                        </div>
+                        <div className="certificate-details">
+                          {disclosure.outcome !== undefined ? (
+                            <strong>{disclosure.outcome ? 'Yes' : 'No'}</strong>
+                          ) : disclosure.revoked ? (
+                            'Revoked by the holder'
+                          ) : !disclosure.redeemed && disclosure.expiresAt * 1000 <= Date.now() ? (
+                            'Expired'
+                          ) : (
+                            <button
+                              className="btn"
+                              onClick={() => handleRedeemDisclosure(disclosure)}
+                              disabled={loading === `disclosure-${disclosure.id}`}
+                            >
+                              {loading === `disclosure-${disclosure.id}` ? 'Decrypting...' : 'Reveal Answer'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              {/* My Requests Card */}
+              <div className="card">
+                <div className="card-header">
+                  <div className="card-icon icon-request">🗂️</div>
+                  <h3>My Requests</h3>
+                </div>
+
+                <button className="btn" onClick={() => loadMyRequests(0)} disabled={loading === 'requests'}>
+                  {loading === 'requests' ? 'Loading...' : 'Load My Requests'}
+                </button>
+
+                <div className="certificate-list">
+                  {myRequests.length === 0 ? (
+                    <p>No requests found.</p>
+                  ) : (
+                    myRequests.map((request) => (
+                      <div key={request.id} className="certificate-item">
+                        <div className="certificate-title">Request #{request.id}</div>
+                        <div className="certificate-details">
+                          <strong>Profession:</strong> {request.profession}<br />
+                          <strong>Status:</strong> {request.underEvaluation ? 'Under evaluation' : request.status}<br />
+                          {request.status === 'Pending' && !request.underEvaluation && request.quorum > 1 && (
+                            <><strong>Endorsements:</strong> {request.endorsements} of {request.quorum}<br /></>
+                          )}
+                          {request.rejectionReason && <><strong>Reason:</strong> {request.rejectionReason}<br /></>}
+                          <strong>Filed:</strong> {new Date(request.requestTime * 1000).toLocaleDateString()}
+                        </div>
+                        {request.status === 'Pending' && !request.underEvaluation && (
+                          <button
+                            className="btn"
+                            onClick={() => handleWithdrawRequest(request.id)}
+                            disabled={loading === `withdraw-${request.id}`}
+                          >
+                            {loading === `withdraw-${request.id}` ? 'Withdrawing...' : 'Withdraw'}
+                          </button>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {myRequestsTotal > PAGE_SIZE && (
+                  <div className="pagination">
+                    <button className="btn" onClick={() => loadMyRequests(myRequestsPage - 1)} disabled={myRequestsPage === 0}>
+                      Previous
+                    </button>
+                    <span>Page {myRequestsPage + 1} of {Math.ceil(myRequestsTotal / PAGE_SIZE)}</span>
+                    <button
+                      className="btn"
+                      onClick={() => loadMyRequests(myRequestsPage + 1)}
+                      disabled={(myRequestsPage + 1) * PAGE_SIZE >= myRequestsTotal}
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Admin Panel Card */}
@@ -502,6 +1607,15 @@ function App() {
                     <h3>Admin Panel</h3>
                   </div>
 
+                  {issuerProfile ? (
+                    <p>
+                      <strong>Certifying as:</strong> {issuerProfile.organization}<br />
+                      <strong>Accredited for:</strong> {issuerProfile.professions.join(', ') || 'No professions'}
+                    </p>
+                  ) : (
+                    <p>Only registered issuers can process requests, within their accredited professions.</p>
+                  )}
+
                   <form onSubmit={handleProcessRequest}>
                     <div className="form-group">
                       <label>Request ID to Process</label>
@@ -515,25 +1629,177 @@ function App() {
                       />
                     </div>
 
+                    <button type="submit" className="btn" disabled={loading === 'admin' || !issuerProfile}>
+                      {loading === 'admin' ? 'Processing...' : 'Process Request'}
+                    </button>
+                  </form>
+
+                  {issuerProfile && (
+                    <>
+                      <h4>Review Queue</h4>
+                      <button className="btn" onClick={() => loadReviewQueue(0)} disabled={loading === 'queue'}>
+                        {loading === 'queue' ? 'Loading...' : 'Load Pending Requests'}
+                      </button>
+
+                      <div className="certificate-list">
+                        {reviewQueue.length === 0 ? (
+                          <p>No pending requests in your professions on this page.</p>
+                        ) : (
+                          reviewQueue.map((request) => (
+                            <div key={request.id} className="certificate-item">
+                              <div className="certificate-title">Request #{request.id}: {request.profession}</div>
+                              <div className="certificate-details">
+                                <strong>Applicant:</strong> {`${request.applicant.slice(0, 6)}...${request.applicant.slice(-4)}`}<br />
+                                <strong>Evidence:</strong> {request.evidence}<br />
+                                <strong>Filed:</strong> {new Date(request.requestTime * 1000).toLocaleDateString()}<br />
+                                <strong>Endorsements:</strong> {request.endorsements} of {request.quorum}
+                                {request.endorsers.length > 0 && (
+                                  <> ({request.endorsers.map(endorser => `${endorser.slice(0, 6)}...${endorser.slice(-4)}`).join(', ')})</>
+                                )}
+                              </div>
+                              <progress className="endorsement-progress" value={request.endorsements} max={request.quorum} />
+                              <button
+                                className="btn"
+                                onClick={() => handleReviewDecision(request.id, true)}
+                                disabled={
+                                  loading === `review-${request.id}` ||
+                                  request.endorsers.some(endorser => endorser.toLowerCase() === walletState.account.toLowerCase())
+                                }
+                              >
+                                {request.endorsements + 1 >= request.quorum ? 'Evaluate' : 'Endorse'}
+                              </button>
+                              <div className="form-group">
+                                <input
+                                  type="text"
+                                  value={rejectionReasons[request.id] ?? ''}
+                                  onChange={(e) => setRejectionReasons(prev => ({ ...prev, [request.id]: e.target.value }))}
+                                  placeholder="Reason for rejection"
+                                />
+                              </div>
+                              <button
+                                className="btn"
+                                onClick={() => handleReviewDecision(request.id, false)}
+                                disabled={loading === `review-${request.id}` || !rejectionReasons[request.id]}
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          ))
+                        )}
+                      </div>
+
+                      {reviewQueueTotal > PAGE_SIZE && (
+                        <div className="pagination">
+                          <button className="btn" onClick={() => loadReviewQueue(reviewQueuePage - 1)} disabled={reviewQueuePage === 0}>
+                            Previous
+                          </button>
+                          <span>Page {reviewQueuePage + 1} of {Math.ceil(reviewQueueTotal / PAGE_SIZE)}</span>
+                          <button
+                            className="btn"
+                            onClick={() => loadReviewQueue(reviewQueuePage + 1)}
+                            disabled={(reviewQueuePage + 1) * PAGE_SIZE >= reviewQueueTotal}
+                          >
+                            Next
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  <form onSubmit={handleProcessRenewal}>
                     <div className="form-group">
-                      <label>Issuer Name</label>
+                      <label>Renewal Request ID to Process</label>
                       <input
-                        type="text"
-                        value={issuerName}
-                        onChange={(e) => setIssuerName(e.target.value)}
-                        placeholder="Enter issuer organization name"
+                        type="number"
+                        min="1"
+                        value={renewalRequestId}
+                        onChange={(e) => setRenewalRequestId(e.target.value)}
+                        placeholder="Enter renewal request ID"
                         required
                       />
                     </div>
 
-                    <button type="submit" className="btn" disabled={loading === 'admin'}>
-                      {loading === 'admin' ? 'Processing...' : 'Process Request'}
+                    <button type="submit" className="btn" disabled={loading === 'renewal' || !issuerProfile}>
+                      {loading === 'renewal' ? 'Processing...' : 'Process Renewal'}
                     </button>
                   </form>
+
+                  {walletState.isOwner && (
+                    <form onSubmit={handleAuthorizeIssuer}>
+                      <h4>Register Issuer</h4>
+                      <div className="form-group">
+                        <label>Issuer Address</label>
+                        <input
+                          type="text"
+                          value={newIssuerAddress}
+                          onChange={(e) => setNewIssuerAddress(e.target.value)}
+                          placeholder="0x..."
+                          required
+                        />
+                      </div>
+
+                      <div className="form-group">
+                        <label>Organization</label>
+                        <input
+                          type="text"
+                          value={newIssuerOrganization}
+                          onChange={(e) => setNewIssuerOrganization(e.target.value)}
+                          placeholder="Enter the accrediting organization"
+                          required
+                        />
+                      </div>
+
+                      <div className="form-group">
+                        <label>Accredited Professions</label>
+                        {PROFESSIONS.map((p) => (
+                          <label key={p}>
+                            <input
+                              type="checkbox"
+                              checked={newIssuerScope.includes(p)}
+                              onChange={() => toggleNewIssuerScope(p)}
+                            />
+                            {' '}{p}
+                          </label>
+                        ))}
+                      </div>
+
+                      <button type="submit" className="btn" disabled={loading === 'issuer'}>
+                        {loading === 'issuer' ? 'Registering...' : 'Register Issuer'}
+                      </button>
+                    </form>
+                  )}
+
+                  {walletState.isOwner && (
+                    <>
+                      <h4>Emergency Controls</h4>
+                      <p><strong>Registry:</strong> {isPaused ? 'Paused' : 'Active'}</p>
+                      <button className="btn" onClick={handleTogglePause} disabled={loading === 'pause'}>
+                        {loading === 'pause' ? 'Processing...' : isPaused ? 'Unpause Registry' : 'Emergency Pause'}
+                      </button>
+
+                      <div className="form-group">
+                        <label>Issuer Address</label>
+                        <input
+                          type="text"
+                          value={suspensionAddress}
+                          onChange={(e) => setSuspensionAddress(e.target.value)}
+                          placeholder="0x..."
+                        />
+                      </div>
+
+                      <button className="btn" onClick={() => handleIssuerSuspension(true)} disabled={loading === 'suspension'}>
+                        Suspend Issuer
+                      </button>
+                      <button className="btn" onClick={() => handleIssuerSuspension(false)} disabled={loading === 'suspension'}>
+                        Reinstate Issuer
+                      </button>
+                    </>
+                  )}
                 </div>
               )}
             </div>
 
+            {isPaused && <div className="error">The registry is paused: new requests and certificate changes are on hold, and certificates verify as suspended.</div>}
             {error && <div className="error">{error}</div>}
             {success && <div className="success">{success}</div>}
           </>
@@ -549,6 +1815,7 @@ function App() {
             <li>📋 Secure certification request process</li>
             <li>🏆 Tamper-proof digital certificates</li>
             <li>🔍 Public verification without revealing sensitive data</li>
+            <li>🔐 Selective disclosure of score and level thresholds to chosen verifiers</li>
             <li>⚙️ Authorized issuer management system</li>
             <li>🌐 Sepolia testnet integration for testing</li>
           </ul>
@@ -0,0 +1,2306 @@
+// Generated by scripts/generate-frontend-bindings.ts from the PrivacyProfessionalCertificate artifact (contracts/PrivacyProfessionalCertificate.sol).
+// Do not edit: run `npm run bindings` after changing the contract.
+
+import { BaseContract, Contract } from 'ethers';
+import type { AddressLike, BigNumberish, BytesLike, ContractRunner, ContractTransactionResponse, Overrides } from 'ethers';
+
+export const PRIVACY_PROFESSIONAL_CERTIFICATE_ABI = [
+  {
+    "inputs": [],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "CertificateNotFound",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "disclosureId",
+        "type": "uint256"
+      }
+    ],
+    "name": "DisclosureNotFound",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "HandlesAlreadySavedForRequestID",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidKMSSignatures",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoHandleFoundForRequestID",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "renewalRequestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "RenewalRequestNotFound",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "RequestNotFound",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "holder",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      }
+    ],
+    "name": "CertificateIssued",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "renewalRequestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "newExpiry",
+        "type": "uint256"
+      }
+    ],
+    "name": "CertificateRenewed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
+      }
+    ],
+    "name": "CertificateRevoked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "holder",
+        "type": "address"
+      }
+    ],
+    "name": "CertificateWithdrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "CertificationApproved",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "endorsements",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "quorum",
+        "type": "uint256"
+      }
+    ],
+    "name": "CertificationEndorsed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "decryptionRequestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "CertificationEvaluationRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
+      }
+    ],
+    "name": "CertificationRejected",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "applicant",
+        "type": "address"
+      }
+    ],
+    "name": "CertificationRequestWithdrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "applicant",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      }
+    ],
+    "name": "CertificationRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestID",
+        "type": "uint256"
+      }
+    ],
+    "name": "DecryptionFulfilled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "disclosureId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "verifier",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "enum PrivacyProfessionalCertificate.DisclosurePredicate",
+        "name": "predicate",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "threshold",
+        "type": "uint64"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "expiresAt",
+        "type": "uint256"
+      }
+    ],
+    "name": "DisclosureCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "disclosureId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "verifier",
+        "type": "address"
+      }
+    ],
+    "name": "DisclosureRedeemed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "disclosureId",
+        "type": "uint256"
+      }
+    ],
+    "name": "DisclosureRevoked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "organization",
+        "type": "string"
+      }
+    ],
+    "name": "IssuerAuthorized",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      }
+    ],
+    "name": "IssuerReinstated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      }
+    ],
+    "name": "IssuerRevoked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "accredited",
+        "type": "bool"
+      }
+    ],
+    "name": "IssuerScopeUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      }
+    ],
+    "name": "IssuerSuspended",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "issuer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "period",
+        "type": "uint256"
+      }
+    ],
+    "name": "IssuerValidityUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "Paused",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "period",
+        "type": "uint64"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "minOverride",
+        "type": "uint64"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "maxOverride",
+        "type": "uint64"
+      }
+    ],
+    "name": "ProfessionValidityUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "renewalRequestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "decryptionRequestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "RenewalEvaluationRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "renewalRequestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
+      }
+    ],
+    "name": "RenewalRejected",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "renewalRequestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "holder",
+        "type": "address"
+      }
+    ],
+    "name": "RenewalRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "Unpaused",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "CERTIFICATE_VALIDITY",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_DISCLOSURE_DURATION",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      }
+    ],
+    "name": "addIssuerScope",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "_organization",
+        "type": "string"
+      },
+      {
+        "internalType": "string[]",
+        "name": "_professions",
+        "type": "string[]"
+      }
+    ],
+    "name": "authorizeIssuer",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "authorizedIssuers",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "certificates",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "holder",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "internalType": "euint64",
+        "name": "encryptedScore",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "euint8",
+        "name": "encryptedLevel",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bool",
+        "name": "isValid",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "issueDate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "expiryDate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "issuedBy",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "hashedCredentials",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "uint256",
+        "name": "renewalCount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "withdrawnByHolder",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "certificationRequests",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "applicant",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "internalType": "euint64",
+        "name": "encryptedScore",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "euint8",
+        "name": "encryptedLevel",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "ebool",
+        "name": "isInRange",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bool",
+        "name": "isProcessed",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "isApproved",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "requestTime",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "evidence",
+        "type": "string"
+      },
+      {
+        "internalType": "enum PrivacyProfessionalCertificate.RequestStatus",
+        "name": "status",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "_verifier",
+        "type": "address"
+      },
+      {
+        "internalType": "enum PrivacyProfessionalCertificate.DisclosurePredicate",
+        "name": "_predicate",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint64",
+        "name": "_threshold",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_duration",
+        "type": "uint256"
+      }
+    ],
+    "name": "createDisclosure",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "emergencyPause",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "endorsementQuorum",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_applicant",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getApplicantRequests",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "requestIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getCertificateCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificateDisclosures",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificateStatus",
+    "outputs": [
+      {
+        "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_disclosureId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getDisclosure",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "verifier",
+            "type": "address"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.DisclosurePredicate",
+            "name": "predicate",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint64",
+            "name": "threshold",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiresAt",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "revoked",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "redeemed",
+            "type": "bool"
+          },
+          {
+            "internalType": "ebool",
+            "name": "result",
+            "type": "bytes32"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificate.Disclosure",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedLevel",
+    "outputs": [
+      {
+        "internalType": "euint8",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedScore",
+    "outputs": [
+      {
+        "internalType": "euint64",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_holder",
+        "type": "address"
+      }
+    ],
+    "name": "getHolderCertificates",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "getIssuer",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "organization",
+            "type": "string"
+          },
+          {
+            "internalType": "string[]",
+            "name": "professions",
+            "type": "string[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "active",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "authorizedAt",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificate.Issuer",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "getIssuerCertificates",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPendingRequests",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "requestIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      }
+    ],
+    "name": "getProfessionCertificates",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      }
+    ],
+    "name": "getProfessionRequirements",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "minScore",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "minLevel",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "quorum",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRenewalHistory",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "renewalRequestId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuer",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "approved",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "decidedAt",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "previousExpiry",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "newExpiry",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificate.RenewalRecord[]",
+        "name": "",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getRequestCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRequestEndorsements",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "endorsers",
+        "type": "address[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "counted",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "quorum",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRequestStatus",
+    "outputs": [
+      {
+        "internalType": "enum PrivacyProfessionalCertificate.RequestStatus",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      }
+    ],
+    "name": "getValidityPeriod",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_verifier",
+        "type": "address"
+      }
+    ],
+    "name": "getVerifierDisclosures",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "hasEndorsed",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "holderCertificates",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "issuerScope",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "issuerValidity",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "minimumLevelRequirement",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "minimumScoreRequirement",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextCertificateId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextDisclosureId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextRenewalRequestId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextRequestId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "paused",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "pendingRenewal",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "processCertificationRequest",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "decryptionRequestId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "evaluated",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_renewalRequestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "processRenewalRequest",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "protocolId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "pure",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_disclosureId",
+        "type": "uint256"
+      }
+    ],
+    "name": "redeemDisclosure",
+    "outputs": [
+      {
+        "internalType": "ebool",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "reinstateIssuer",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_requestId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "_reason",
+        "type": "string"
+      }
+    ],
+    "name": "rejectCertificationRequest",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "rejectionReasons",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      }
+    ],
+    "name": "removeIssuerScope",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "renewalRequests",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "certificateId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "euint64",
+        "name": "encryptedScore",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "ebool",
+        "name": "isInRange",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bool",
+        "name": "isProcessed",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "isApproved",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "requestTime",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "uint64",
+        "name": "_score",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint8",
+        "name": "_level",
+        "type": "uint8"
+      },
+      {
+        "internalType": "string",
+        "name": "_evidence",
+        "type": "string"
+      }
+    ],
+    "name": "requestCertification",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "externalEuint64",
+        "name": "_score",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "externalEuint8",
+        "name": "_level",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "string",
+        "name": "_evidence",
+        "type": "string"
+      }
+    ],
+    "name": "requestEncryptedCertification",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint64",
+        "name": "_score",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "requestRenewal",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_decryptionRequestId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_cleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "resolveCertificationRequest",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_decryptionRequestId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_cleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "resolveRenewalRequest",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "_reason",
+        "type": "string"
+      }
+    ],
+    "name": "revokeCertificate",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_disclosureId",
+        "type": "uint256"
+      }
+    ],
+    "name": "revokeDisclosure",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "revokeIssuer",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_period",
+        "type": "uint256"
+      }
+    ],
+    "name": "setIssuerValidity",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_minScore",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "_minLevel",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_quorum",
+        "type": "uint256"
+      }
+    ],
+    "name": "setProfessionRequirements",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "uint64",
+        "name": "_period",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "_minOverride",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "_maxOverride",
+        "type": "uint64"
+      }
+    ],
+    "name": "setProfessionValidity",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      }
+    ],
+    "name": "suspendIssuer",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "suspendedIssuers",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "unpause",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "name": "validityPolicies",
+    "outputs": [
+      {
+        "internalType": "uint64",
+        "name": "period",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "minOverride",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "maxOverride",
+        "type": "uint64"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "verifyCertificate",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "holder",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "profession",
+        "type": "string"
+      },
+      {
+        "internalType": "bool",
+        "name": "isValid",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "issueDate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "expiryDate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "issuer",
+        "type": "string"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "credentialHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+        "name": "status",
+        "type": "uint8"
+      },
+      {
+        "internalType": "address",
+        "name": "issuedBy",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_certificateId",
+        "type": "uint256"
+      }
+    ],
+    "name": "withdrawCertificate",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "withdrawRequest",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export type DisclosureOutput = [bigint, string, bigint, bigint, bigint, boolean, boolean, string] & { certificateId: bigint; verifier: string; predicate: bigint; threshold: bigint; expiresAt: bigint; revoked: boolean; redeemed: boolean; result: string };
+
+export type IssuerOutput = [string, string, string[], boolean, bigint] & { account: string; organization: string; professions: string[]; active: boolean; authorizedAt: bigint };
+
+export type RenewalRecordOutput = [bigint, string, boolean, bigint, bigint, bigint] & { renewalRequestId: bigint; issuer: string; approved: boolean; decidedAt: bigint; previousExpiry: bigint; newExpiry: bigint };
+
+export interface PrivacyProfessionalCertificate extends BaseContract {
+  connect(runner: ContractRunner | null): PrivacyProfessionalCertificate;
+  CERTIFICATE_VALIDITY(overrides?: Overrides): Promise<bigint>;
+  MAX_DISCLOSURE_DURATION(overrides?: Overrides): Promise<bigint>;
+  addIssuerScope(_issuer: AddressLike, _profession: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  authorizeIssuer(_issuer: AddressLike, _organization: string, _professions: string[], overrides?: Overrides): Promise<ContractTransactionResponse>;
+  authorizedIssuers(_issuer: AddressLike, overrides?: Overrides): Promise<boolean>;
+  certificates(arg0: BigNumberish, overrides?: Overrides): Promise<[string, string, string, string, boolean, bigint, bigint, string, string, bigint, boolean] & { holder: string; profession: string; encryptedScore: string; encryptedLevel: string; isValid: boolean; issueDate: bigint; expiryDate: bigint; issuedBy: string; hashedCredentials: string; renewalCount: bigint; withdrawnByHolder: boolean }>;
+  certificationRequests(arg0: BigNumberish, overrides?: Overrides): Promise<[string, string, string, string, string, boolean, boolean, bigint, string, bigint] & { applicant: string; profession: string; encryptedScore: string; encryptedLevel: string; isInRange: string; isProcessed: boolean; isApproved: boolean; requestTime: bigint; evidence: string; status: bigint }>;
+  createDisclosure(_certificateId: BigNumberish, _verifier: AddressLike, _predicate: BigNumberish, _threshold: BigNumberish, _duration: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  emergencyPause(overrides?: Overrides): Promise<ContractTransactionResponse>;
+  endorsementQuorum(arg0: string, overrides?: Overrides): Promise<bigint>;
+  getApplicantRequests(_applicant: AddressLike, _offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[bigint[], bigint] & { requestIds: bigint[]; total: bigint }>;
+  getCertificateCount(overrides?: Overrides): Promise<bigint>;
+  getCertificateDisclosures(_certificateId: BigNumberish, overrides?: Overrides): Promise<bigint[]>;
+  getCertificateStatus(_certificateId: BigNumberish, overrides?: Overrides): Promise<bigint>;
+  getDisclosure(_disclosureId: BigNumberish, overrides?: Overrides): Promise<DisclosureOutput>;
+  getEncryptedLevel(_certificateId: BigNumberish, overrides?: Overrides): Promise<string>;
+  getEncryptedScore(_certificateId: BigNumberish, overrides?: Overrides): Promise<string>;
+  getHolderCertificates(_holder: AddressLike, overrides?: Overrides): Promise<bigint[]>;
+  getIssuer(_issuer: AddressLike, overrides?: Overrides): Promise<IssuerOutput>;
+  getIssuerCertificates(_issuer: AddressLike, overrides?: Overrides): Promise<bigint[]>;
+  getPendingRequests(_offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[bigint[], bigint] & { requestIds: bigint[]; total: bigint }>;
+  getProfessionCertificates(_profession: string, overrides?: Overrides): Promise<bigint[]>;
+  getProfessionRequirements(_profession: string, overrides?: Overrides): Promise<[bigint, bigint, bigint] & { minScore: bigint; minLevel: bigint; quorum: bigint }>;
+  getRenewalHistory(_certificateId: BigNumberish, overrides?: Overrides): Promise<RenewalRecordOutput[]>;
+  getRequestCount(overrides?: Overrides): Promise<bigint>;
+  getRequestEndorsements(_requestId: BigNumberish, overrides?: Overrides): Promise<[string[], bigint, bigint] & { endorsers: string[]; counted: bigint; quorum: bigint }>;
+  getRequestStatus(_requestId: BigNumberish, overrides?: Overrides): Promise<bigint>;
+  getValidityPeriod(_issuer: AddressLike, _profession: string, overrides?: Overrides): Promise<bigint>;
+  getVerifierDisclosures(_verifier: AddressLike, overrides?: Overrides): Promise<bigint[]>;
+  hasEndorsed(arg0: BigNumberish, arg1: AddressLike, overrides?: Overrides): Promise<boolean>;
+  holderCertificates(arg0: AddressLike, arg1: BigNumberish, overrides?: Overrides): Promise<bigint>;
+  issuerScope(arg0: AddressLike, arg1: string, overrides?: Overrides): Promise<boolean>;
+  issuerValidity(arg0: AddressLike, arg1: string, overrides?: Overrides): Promise<bigint>;
+  minimumLevelRequirement(arg0: string, overrides?: Overrides): Promise<bigint>;
+  minimumScoreRequirement(arg0: string, overrides?: Overrides): Promise<bigint>;
+  nextCertificateId(overrides?: Overrides): Promise<bigint>;
+  nextDisclosureId(overrides?: Overrides): Promise<bigint>;
+  nextRenewalRequestId(overrides?: Overrides): Promise<bigint>;
+  nextRequestId(overrides?: Overrides): Promise<bigint>;
+  owner(overrides?: Overrides): Promise<string>;
+  paused(overrides?: Overrides): Promise<boolean>;
+  pendingRenewal(arg0: BigNumberish, overrides?: Overrides): Promise<bigint>;
+  processCertificationRequest(_requestId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  processRenewalRequest(_renewalRequestId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  protocolId(overrides?: Overrides): Promise<bigint>;
+  redeemDisclosure(_disclosureId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  reinstateIssuer(_issuer: AddressLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  rejectCertificationRequest(_requestId: BigNumberish, _reason: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  rejectionReasons(arg0: BigNumberish, overrides?: Overrides): Promise<string>;
+  removeIssuerScope(_issuer: AddressLike, _profession: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  renewalRequests(arg0: BigNumberish, overrides?: Overrides): Promise<[bigint, string, string, boolean, boolean, bigint] & { certificateId: bigint; encryptedScore: string; isInRange: string; isProcessed: boolean; isApproved: boolean; requestTime: bigint }>;
+  requestCertification(_profession: string, _score: BigNumberish, _level: BigNumberish, _evidence: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  requestEncryptedCertification(_profession: string, _score: BytesLike, _level: BytesLike, _inputProof: BytesLike, _evidence: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  requestRenewal(_certificateId: BigNumberish, _score: BytesLike, _inputProof: BytesLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  resolveCertificationRequest(_decryptionRequestId: BigNumberish, _cleartexts: BytesLike, _decryptionProof: BytesLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  resolveRenewalRequest(_decryptionRequestId: BigNumberish, _cleartexts: BytesLike, _decryptionProof: BytesLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  revokeCertificate(_certificateId: BigNumberish, _reason: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  revokeDisclosure(_disclosureId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  revokeIssuer(_issuer: AddressLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  setIssuerValidity(_profession: string, _period: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  setProfessionRequirements(_profession: string, _minScore: BigNumberish, _minLevel: BigNumberish, _quorum: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  setProfessionValidity(_profession: string, _period: BigNumberish, _minOverride: BigNumberish, _maxOverride: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  suspendIssuer(_issuer: AddressLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  suspendedIssuers(arg0: AddressLike, overrides?: Overrides): Promise<boolean>;
+  unpause(overrides?: Overrides): Promise<ContractTransactionResponse>;
+  validityPolicies(arg0: string, overrides?: Overrides): Promise<[bigint, bigint, bigint] & { period: bigint; minOverride: bigint; maxOverride: bigint }>;
+  verifyCertificate(_certificateId: BigNumberish, overrides?: Overrides): Promise<[string, string, boolean, bigint, bigint, string, string, bigint, string] & { holder: string; profession: string; isValid: boolean; issueDate: bigint; expiryDate: bigint; issuer: string; credentialHash: string; status: bigint; issuedBy: string }>;
+  withdrawCertificate(_certificateId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  withdrawRequest(_requestId: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+}
+
+export function connectPrivacyProfessionalCertificate(address: string, runner?: ContractRunner | null): PrivacyProfessionalCertificate {
+  return new Contract(address, PRIVACY_PROFESSIONAL_CERTIFICATE_ABI, runner) as unknown as PrivacyProfessionalCertificate;
+}
@@ -0,0 +1,595 @@
+// Generated by scripts/generate-frontend-bindings.ts from the PrivacyProfessionalCertificateViews artifact (contracts/PrivacyProfessionalCertificateViews.sol).
+// Do not edit: run `npm run bindings` after changing the contract.
+
+import { BaseContract, Contract } from 'ethers';
+import type { AddressLike, BigNumberish, ContractRunner, Overrides } from 'ethers';
+
+export const PRIVACY_PROFESSIONAL_CERTIFICATE_VIEWS_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract PrivacyProfessionalCertificate",
+        "name": "_registry",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_window",
+        "type": "uint256"
+      }
+    ],
+    "name": "expiringWithin",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "expiring",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificates",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "page",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_holder",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificatesByHolder",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "page",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificatesByIssuer",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "page",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_profession",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCertificatesByProfession",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "page",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_issuer",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPendingRequestsForIssuer",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "requestIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "registry",
+    "outputs": [
+      {
+        "internalType": "contract PrivacyProfessionalCertificate",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "_certificateIds",
+        "type": "uint256[]"
+      }
+    ],
+    "name": "verifyCertificates",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "certificateId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "exists",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "holder",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "profession",
+            "type": "string"
+          },
+          {
+            "internalType": "uint256",
+            "name": "issueDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "expiryDate",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "issuedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "string",
+            "name": "issuer",
+            "type": "string"
+          },
+          {
+            "internalType": "enum PrivacyProfessionalCertificate.CertificateStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "renewalCount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pendingRenewal",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct PrivacyProfessionalCertificateViews.CertificateSummary[]",
+        "name": "summaries",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export type CertificateSummaryOutput = [bigint, boolean, string, string, bigint, bigint, string, string, bigint, bigint, bigint] & { certificateId: bigint; exists: boolean; holder: string; profession: string; issueDate: bigint; expiryDate: bigint; issuedBy: string; issuer: string; status: bigint; renewalCount: bigint; pendingRenewal: bigint };
+
+export interface PrivacyProfessionalCertificateViews extends BaseContract {
+  connect(runner: ContractRunner | null): PrivacyProfessionalCertificateViews;
+  expiringWithin(_window: BigNumberish, overrides?: Overrides): Promise<CertificateSummaryOutput[]>;
+  getCertificates(_offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[CertificateSummaryOutput[], bigint] & { page: CertificateSummaryOutput[]; total: bigint }>;
+  getCertificatesByHolder(_holder: AddressLike, _offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[CertificateSummaryOutput[], bigint] & { page: CertificateSummaryOutput[]; total: bigint }>;
+  getCertificatesByIssuer(_issuer: AddressLike, _offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[CertificateSummaryOutput[], bigint] & { page: CertificateSummaryOutput[]; total: bigint }>;
+  getCertificatesByProfession(_profession: string, _offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[CertificateSummaryOutput[], bigint] & { page: CertificateSummaryOutput[]; total: bigint }>;
+  getPendingRequestsForIssuer(_issuer: AddressLike, _offset: BigNumberish, _limit: BigNumberish, overrides?: Overrides): Promise<[bigint[], bigint] & { requestIds: bigint[]; total: bigint }>;
+  registry(overrides?: Overrides): Promise<string>;
+  verifyCertificates(_certificateIds: BigNumberish[], overrides?: Overrides): Promise<CertificateSummaryOutput[]>;
+}
+
+export function connectPrivacyProfessionalCertificateViews(address: string, runner?: ContractRunner | null): PrivacyProfessionalCertificateViews {
+  return new Contract(address, PRIVACY_PROFESSIONAL_CERTIFICATE_VIEWS_ABI, runner) as unknown as PrivacyProfessionalCertificateViews;
+}
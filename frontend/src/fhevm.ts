@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { createInstance, initSDK, SepoliaConfig, type FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+
+// Encrypted inputs as the contract takes them: bytes32 handles plus one shared proof
+export interface EncryptedCertificationInput {
+  score: string;
+  level: string;
+  inputProof: string;
+}
+
+export interface EncryptedRenewalInput {
+  score: string;
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// Loads the WASM modules and the network public key once per page
+function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    if (!window.ethereum) {
+      return Promise.reject(new Error('No wallet found'));
+    }
+    const network = window.ethereum;
+    instancePromise = initSDK()
+      .then(() => createInstance({ ...SepoliaConfig, network }))
+      .catch(error => {
+        instancePromise = null;
+        throw error;
+      });
+  }
+  return instancePromise;
+}
+
+/**
+ * Encrypts a score and level in the browser so they never appear in calldata.
+ * The proof is only valid when `userAddress` sends it to `contractAddress`.
+ */
+export async function encryptCertificationInput(
+  contractAddress: string,
+  userAddress: string,
+  score: number,
+  level: number
+): Promise<EncryptedCertificationInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(score)
+    .add8(level)
+    .encrypt();
+
+  return {
+    score: ethers.hexlify(handles[0]),
+    level: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+/**
+ * Encrypts the new score of a renewal; the certified level is carried over on-chain.
+ */
+export async function encryptRenewalScore(
+  contractAddress: string,
+  userAddress: string,
+  score: number
+): Promise<EncryptedRenewalInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(score)
+    .encrypt();
+
+  return {
+    score: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+/**
+ * Decrypts an ebool the contract granted to the signer. The signed EIP-712 request
+ * lets the KMS re-encrypt the value for a throwaway keypair held only by this page.
+ */
+export async function userDecryptBool(
+  handle: string,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<boolean> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    privateKey,
+    publicKey,
+    signature.replace('0x', ''),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    durationDays
+  );
+  return Boolean(results[handle]);
+}
@@ -0,0 +1,31 @@
+// Optional read-only source of indexed events (scripts/start-indexer.ts); set VITE_INDEXER_URL to use it
+export const INDEXER_URL = import.meta.env.VITE_INDEXER_URL?.replace(/\/$/, '');
+
+export interface IndexedRevocation {
+  certificateId: string;
+  holder: string;
+  profession: string;
+  kind: 'Revoked' | 'Withdrawn';
+  reason?: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+async function getJson<T>(route: string): Promise<T> {
+  if (!INDEXER_URL) {
+    throw new Error('No indexer configured');
+  }
+  const response = await fetch(`${INDEXER_URL}${route}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error ?? `Indexer answered ${response.status}`);
+  }
+  return body as T;
+}
+
+// Issuer revocations and holder withdrawals, newest first
+export async function fetchRevocations(): Promise<IndexedRevocation[]> {
+  const revocations = await getJson<IndexedRevocation[]>('/revocations');
+  return revocations.reverse();
+}
@@ -1,5 +1,11 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  readonly VITE_INDEXER_URL?: string;
+  readonly VITE_VIEWS_ADDRESS?: string;
+}
+
 interface Window {
   ethereum?: {
     request: (args: { method: string; params?: any[] }) => Promise<any>;
@@ -5,7 +5,7 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
-    exclude: ['@fhevm/hardhat-plugin', 'fhevmjs'],
+    exclude: ['@fhevm/hardhat-plugin', 'fhevmjs', '@zama-fhe/relayer-sdk'],
     include: ['ethers'] // 明确包含 ethers
   },
   define: {
@@ -9,6 +9,10 @@ module.exports = {
         enabled: true,
         runs: 200,
       },
+      // PrivacyProfessionalCertificate stays under the 24 KB contract size limit only with the IR pipeline
+      viaIR: true,
+      // The FHEVM host contracts and their mocks use transient storage
+      evmVersion: "cancun",
     },
   },
   networks: {
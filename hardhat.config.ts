@@ -1,5 +1,39 @@
-import { HardhatUserConfig } from "hardhat/config";
+import * as path from "path";
+import { HardhatUserConfig, subtask, task } from "hardhat/config";
+import {
+  TASK_COMPILE,
+  TASK_COMPILE_REMOVE_OBSOLETE_ARTIFACTS,
+  TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS,
+} from "hardhat/builtin-tasks/task-names";
 import "@nomicfoundation/hardhat-toolbox";
+import { BOUND_CONTRACTS, generateBindings } from "./scripts/generate-frontend-bindings";
+
+// Set by the bindings task: compile only the contracts the frontend is bound to, and what they import
+let boundContractsOnly = false;
+
+subtask(TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS).setAction(async (args, hre, runSuper) => {
+  const sourcePaths: string[] = await runSuper(args);
+  if (!boundContractsOnly) {
+    return sourcePaths;
+  }
+  const bound = Object.values(BOUND_CONTRACTS).map(file => path.join(hre.config.paths.sources, file));
+  return sourcePaths.filter(sourcePath => bound.includes(sourcePath));
+});
+
+// The artifacts of the contracts left out are not obsolete
+subtask(TASK_COMPILE_REMOVE_OBSOLETE_ARTIFACTS).setAction(async (args, hre, runSuper) => {
+  if (!boundContractsOnly) {
+    await runSuper(args);
+  }
+});
+
+task("bindings", "Compiles the contracts the frontend is bound to and writes frontend/src/bindings/")
+  .addFlag("check", "Fail if frontend/src/bindings/ is out of date instead of writing it")
+  .setAction(async ({ check }, hre) => {
+    boundContractsOnly = true;
+    await hre.run(TASK_COMPILE, { quiet: true });
+    generateBindings(check);
+  });
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -9,6 +43,10 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 200,
       },
+      // PrivacyProfessionalCertificate stays under the 24 KB contract size limit only with the IR pipeline
+      viaIR: true,
+      // The FHEVM host contracts and their mocks use transient storage
+      evmVersion: "cancun",
     },
   },
   networks: {
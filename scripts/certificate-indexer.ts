@@ -0,0 +1,566 @@
+/**
+ * certificate-indexer - Event-sourced index of PrivacyProfessionalCertificate
+ *
+ * Replays the contract's events from a JSON-RPC node into an append-only event
+ * log, persists the log, and derives certificates, requests, issuers and
+ * revocations from it. The derived view is rebuilt from the log after every
+ * sync, so undoing a reorganized block only means dropping its events.
+ *
+ * Reorgs are detected by re-checking the hashes of recently indexed blocks;
+ * a reorg deeper than `reorgDepth` blocks triggers a full re-index.
+ *
+ * The index is a convenience for listings and dashboards: `verifyCertificate`
+ * on the contract stays the authority on whether a certificate is valid.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Contract, Interface, Log, Provider, getAddress } from 'ethers';
+
+const CERTIFICATE_EVENTS = [
+  'event CertificateIssued(uint256 indexed certificateId, address indexed holder, string profession)',
+  'event CertificationRequested(uint256 indexed requestId, address indexed applicant, string profession)',
+  'event CertificationEndorsed(uint256 indexed requestId, address indexed issuer, uint256 endorsements, uint256 quorum)',
+  'event CertificationEvaluationRequested(uint256 indexed requestId, uint256 decryptionRequestId)',
+  'event CertificationApproved(uint256 indexed requestId, uint256 indexed certificateId)',
+  'event CertificationRejected(uint256 indexed requestId, string reason)',
+  'event CertificationRequestWithdrawn(uint256 indexed requestId, address indexed applicant)',
+  'event CertificateRevoked(uint256 indexed certificateId, string reason)',
+  'event CertificateWithdrawn(uint256 indexed certificateId, address indexed holder)',
+  'event CertificateRenewed(uint256 indexed certificateId, uint256 indexed renewalRequestId, uint256 newExpiry)',
+  'event IssuerAuthorized(address indexed issuer, string organization)',
+  'event IssuerRevoked(address indexed issuer)',
+  'event IssuerScopeUpdated(address indexed issuer, string profession, bool accredited)',
+  'event ProfessionValidityUpdated(string profession, uint64 period, uint64 minOverride, uint64 maxOverride)',
+  'event IssuerValidityUpdated(address indexed issuer, string profession, uint256 period)',
+  'event IssuerSuspended(address indexed issuer)',
+  'event IssuerReinstated(address indexed issuer)',
+  'event Paused(address account)',
+  'event Unpaused(address account)',
+];
+
+const certificateEvents = new Interface(CERTIFICATE_EVENTS);
+
+// CertificateIssued does not name the issuer, so it is read from the certificate the event announces
+const CERTIFICATE_ABI = [
+  'function verifyCertificate(uint256 _certificateId) external view returns (address holder, string memory profession, bool isValid, uint256 issueDate, uint256 expiryDate, string memory issuer, bytes32 credentialHash, uint8 status, address issuedBy)',
+];
+
+/** A decoded contract event; integers are kept as decimal strings so the log stays JSON */
+export interface IndexedEvent {
+  name: string;
+  args: Record<string, string | boolean>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+  // Issuing address the contract recorded, kept for CertificateIssued
+  issuedBy?: string;
+}
+
+/** Everything the indexer persists */
+export interface IndexerState {
+  version: 1;
+  chainId: string;
+  contract: string;
+  // Highest block whose events are all in `events`
+  lastBlock: number;
+  // Hashes of recently indexed blocks, by block number, for reorg detection
+  blockHashes: Record<string, string>;
+  events: IndexedEvent[];
+}
+
+export interface EventStore {
+  load(): IndexerState | undefined;
+  save(state: IndexerState): void;
+}
+
+/** Keeps the state in one JSON file, replaced atomically on every save */
+export class JsonEventStore implements EventStore {
+  constructor(private readonly file: string) {}
+
+  load(): IndexerState | undefined {
+    if (!fs.existsSync(this.file)) {
+      return undefined;
+    }
+    const state = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as IndexerState;
+    if (state.version !== 1) {
+      throw new Error(`${this.file} has unsupported store version ${state.version}`);
+    }
+    return state;
+  }
+
+  save(state: IndexerState): void {
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(state));
+    fs.renameSync(temporary, this.file);
+  }
+}
+
+export type IndexedCertificateStatus = 'Active' | 'Revoked' | 'Withdrawn';
+
+export interface IndexedCertificate {
+  certificateId: string;
+  holder: string;
+  profession: string;
+  requestId?: string;
+  issuedBy?: string;
+  issuedAt: number;
+  transactionHash: string;
+  // Lifecycle only: expiry, pauses and issuer suspensions are left to `verifyCertificate`
+  status: IndexedCertificateStatus;
+  revocationReason?: string;
+  renewalCount: number;
+  renewedUntil?: string;
+}
+
+export type IndexedRequestStatus = 'Pending' | 'UnderEvaluation' | 'Approved' | 'Rejected' | 'Withdrawn';
+
+export interface IndexedRequest {
+  requestId: string;
+  applicant: string;
+  profession: string;
+  requestedAt: number;
+  status: IndexedRequestStatus;
+  endorsers: string[];
+  rejectionReason?: string;
+  certificateId?: string;
+}
+
+export interface IssuerRecord {
+  address: string;
+  organization?: string;
+  active: boolean;
+  suspended: boolean;
+  professions: string[];
+  // Validity periods the issuer set for its own certificates, by profession, in seconds
+  validity: Record<string, string>;
+  certificatesIssued: string[];
+  // Registry changes and endorsements concerning the issuer, oldest first
+  history: IndexedEvent[];
+}
+
+/** Validity of new certificates in a profession and the bounds of issuer overrides, in seconds */
+export interface ValidityPolicy {
+  profession: string;
+  period: string;
+  minOverride: string;
+  maxOverride: string;
+  updatedAt: number;
+}
+
+export interface Revocation {
+  certificateId: string;
+  holder: string;
+  profession: string;
+  // Revoked by an issuer or withdrawn by the holder
+  kind: 'Revoked' | 'Withdrawn';
+  reason?: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+/** State derived from the event log */
+export interface RegistryProjection {
+  certificates: Map<string, IndexedCertificate>;
+  requests: Map<string, IndexedRequest>;
+  issuers: Map<string, IssuerRecord>;
+  validityPolicies: Map<string, ValidityPolicy>;
+  revocations: Revocation[];
+  paused: boolean;
+}
+
+function issuerRecord(projection: RegistryProjection, address: string): IssuerRecord {
+  let issuer = projection.issuers.get(address);
+  if (!issuer) {
+    issuer = { address, active: false, suspended: false, professions: [], validity: {}, certificatesIssued: [], history: [] };
+    projection.issuers.set(address, issuer);
+  }
+  return issuer;
+}
+
+/** Folds the event log, in chain order, into certificates, requests, issuers and revocations. */
+export function project(events: IndexedEvent[]): RegistryProjection {
+  const projection: RegistryProjection = {
+    certificates: new Map(),
+    requests: new Map(),
+    issuers: new Map(),
+    validityPolicies: new Map(),
+    revocations: [],
+    paused: false,
+  };
+  const { certificates, requests } = projection;
+
+  for (const event of events) {
+    const args = event.args as Record<string, string>;
+    if (typeof args.issuer === 'string') {
+      issuerRecord(projection, args.issuer).history.push(event);
+    }
+
+    switch (event.name) {
+      case 'CertificationRequested':
+        requests.set(args.requestId, {
+          requestId: args.requestId,
+          applicant: args.applicant,
+          profession: args.profession,
+          requestedAt: event.timestamp,
+          status: 'Pending',
+          endorsers: [],
+        });
+        break;
+      case 'CertificationEndorsed':
+        requests.get(args.requestId)?.endorsers.push(args.issuer);
+        break;
+      case 'CertificationEvaluationRequested': {
+        const request = requests.get(args.requestId);
+        if (request) {
+          request.status = 'UnderEvaluation';
+        }
+        break;
+      }
+      case 'CertificationRejected': {
+        const request = requests.get(args.requestId);
+        if (request) {
+          request.status = 'Rejected';
+          request.rejectionReason = args.reason;
+        }
+        break;
+      }
+      case 'CertificationRequestWithdrawn': {
+        const request = requests.get(args.requestId);
+        if (request) {
+          request.status = 'Withdrawn';
+        }
+        break;
+      }
+      case 'CertificateIssued':
+        certificates.set(args.certificateId, {
+          certificateId: args.certificateId,
+          holder: args.holder,
+          profession: args.profession,
+          issuedAt: event.timestamp,
+          transactionHash: event.transactionHash,
+          issuedBy: event.issuedBy,
+          status: 'Active',
+          renewalCount: 0,
+        });
+        if (event.issuedBy) {
+          issuerRecord(projection, event.issuedBy).certificatesIssued.push(args.certificateId);
+        }
+        break;
+      // Emitted right after CertificateIssued, in the same transaction
+      case 'CertificationApproved': {
+        const request = requests.get(args.requestId);
+        const certificate = certificates.get(args.certificateId);
+        if (request && certificate) {
+          request.status = 'Approved';
+          request.certificateId = args.certificateId;
+          certificate.requestId = args.requestId;
+        }
+        break;
+      }
+      case 'CertificateRevoked':
+      case 'CertificateWithdrawn': {
+        const certificate = certificates.get(args.certificateId);
+        if (certificate) {
+          const kind = event.name === 'CertificateRevoked' ? 'Revoked' : 'Withdrawn';
+          certificate.status = kind;
+          certificate.revocationReason = args.reason;
+          projection.revocations.push({
+            certificateId: args.certificateId,
+            holder: certificate.holder,
+            profession: certificate.profession,
+            kind,
+            reason: args.reason,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+            timestamp: event.timestamp,
+          });
+        }
+        break;
+      }
+      case 'CertificateRenewed': {
+        const certificate = certificates.get(args.certificateId);
+        if (certificate) {
+          certificate.renewalCount++;
+          certificate.renewedUntil = args.newExpiry;
+        }
+        break;
+      }
+      // Authorizing again replaces the scope; the IssuerScopeUpdated events that follow list the new one
+      case 'IssuerAuthorized': {
+        const issuer = issuerRecord(projection, args.issuer);
+        issuer.organization = args.organization;
+        issuer.active = true;
+        issuer.professions = [];
+        break;
+      }
+      case 'IssuerRevoked':
+        issuerRecord(projection, args.issuer).active = false;
+        break;
+      case 'IssuerScopeUpdated': {
+        const issuer = issuerRecord(projection, args.issuer);
+        issuer.professions = issuer.professions.filter(profession => profession !== args.profession);
+        if (event.args.accredited) {
+          issuer.professions.push(args.profession);
+        }
+        break;
+      }
+      // Issuer periods outside changed bounds stay as set; the contract clamps them when it applies them
+      case 'ProfessionValidityUpdated':
+        projection.validityPolicies.set(args.profession, {
+          profession: args.profession,
+          period: args.period,
+          minOverride: args.minOverride,
+          maxOverride: args.maxOverride,
+          updatedAt: event.timestamp,
+        });
+        break;
+      // A period of 0 returns the issuer to the profession's period
+      case 'IssuerValidityUpdated': {
+        const issuer = issuerRecord(projection, args.issuer);
+        if (args.period === '0') {
+          delete issuer.validity[args.profession];
+        } else {
+          issuer.validity[args.profession] = args.period;
+        }
+        break;
+      }
+      case 'IssuerSuspended':
+        issuerRecord(projection, args.issuer).suspended = true;
+        break;
+      case 'IssuerReinstated':
+        issuerRecord(projection, args.issuer).suspended = false;
+        break;
+      case 'Paused':
+        projection.paused = true;
+        break;
+      case 'Unpaused':
+        projection.paused = false;
+        break;
+    }
+  }
+
+  return projection;
+}
+
+export interface IndexerOptions {
+  // First block to index, usually the deployment block
+  fromBlock?: number;
+  // Most blocks fetched per eth_getLogs call
+  batchSize?: number;
+  // How many recent blocks are re-checked for reorgs
+  reorgDepth?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  // Set when a reorg was found: the last block that was kept
+  rolledBackTo?: number;
+}
+
+/** Indexes one contract on one chain into `store`; call `sync` to catch up with the chain head. */
+export class CertificateIndexer {
+  readonly contractAddress: string;
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+  private readonly certificates: Contract;
+  private state: IndexerState | undefined;
+  private projection: RegistryProjection;
+  private running: Promise<SyncResult> | undefined;
+
+  constructor(
+    private readonly provider: Provider,
+    contractAddress: string,
+    private readonly store: EventStore,
+    options: IndexerOptions = {}
+  ) {
+    this.contractAddress = getAddress(contractAddress);
+    this.fromBlock = options.fromBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.certificates = new Contract(this.contractAddress, CERTIFICATE_ABI, provider);
+    this.state = store.load();
+    this.projection = project(this.state?.events ?? []);
+  }
+
+  /** Derived view of everything indexed so far */
+  get registry(): RegistryProjection {
+    return this.projection;
+  }
+
+  get lastBlock(): number {
+    return this.state?.lastBlock ?? this.fromBlock - 1;
+  }
+
+  get eventCount(): number {
+    return this.state?.events.length ?? 0;
+  }
+
+  get chainId(): string | undefined {
+    return this.state?.chainId;
+  }
+
+  /** Indexes up to the current head. Concurrent calls share one run. */
+  sync(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<SyncResult> {
+    const state = await this.loadState();
+    const rolledBackTo = await this.rollBackReorg(state);
+    const head = await this.provider.getBlockNumber();
+    const fromBlock = state.lastBlock + 1;
+    let newEvents = 0;
+
+    try {
+      while (state.lastBlock < head) {
+        const start = state.lastBlock + 1;
+        const end = Math.min(start + this.batchSize - 1, head);
+        const events = await this.fetchEvents(start, end);
+        const endBlock = await this.provider.getBlock(end);
+        if (!endBlock?.hash) {
+          throw new Error(`Block ${end} is not available`);
+        }
+
+        state.events.push(...events);
+        state.lastBlock = end;
+        events.forEach(event => {
+          state.blockHashes[event.blockNumber] = event.blockHash;
+        });
+        state.blockHashes[end] = endBlock.hash;
+        this.pruneBlockHashes(state);
+        this.store.save(state);
+        newEvents += events.length;
+      }
+    } finally {
+      // Batches saved before a failure are kept and served
+      if (newEvents > 0 || rolledBackTo !== undefined) {
+        this.projection = project(state.events);
+      }
+    }
+    return { fromBlock, toBlock: state.lastBlock, newEvents, rolledBackTo };
+  }
+
+  private async loadState(): Promise<IndexerState> {
+    const { chainId } = await this.provider.getNetwork();
+    if (!this.state) {
+      this.state = {
+        version: 1,
+        chainId: chainId.toString(),
+        contract: this.contractAddress,
+        lastBlock: this.fromBlock - 1,
+        blockHashes: {},
+        events: [],
+      };
+    } else if (this.state.chainId !== chainId.toString() || this.state.contract !== this.contractAddress) {
+      throw new Error(
+        `The store indexes ${this.state.contract} on chain ${this.state.chainId}, ` +
+        `not ${this.contractAddress} on chain ${chainId}`
+      );
+    }
+    return this.state;
+  }
+
+  // Drops the events of blocks that are no longer on the chain and returns the last block kept
+  private async rollBackReorg(state: IndexerState): Promise<number | undefined> {
+    const tracked = Object.keys(state.blockHashes).map(Number).sort((a, b) => a - b);
+    const latest = tracked[tracked.length - 1];
+    // Block hashes chain, so an unchanged latest block means nothing before it changed either
+    if (latest === undefined || (await this.provider.getBlock(latest))?.hash === state.blockHashes[latest]) {
+      return undefined;
+    }
+
+    let firstChanged = tracked.length - 1;
+    for (let i = 0; i < tracked.length; i++) {
+      const block = await this.provider.getBlock(tracked[i]);
+      if (block?.hash !== state.blockHashes[tracked[i]]) {
+        firstChanged = i;
+        break;
+      }
+    }
+
+    // Untracked blocks between the last unchanged block and the first changed one may have changed too,
+    // so everything after the last unchanged block is fetched again. Nothing older than the first
+    // tracked block is checked, so a change there means the reorg may go deeper: index from scratch
+    const keepUpTo = firstChanged === 0 ? this.fromBlock - 1 : tracked[firstChanged - 1];
+    state.events = state.events.filter(event => event.blockNumber <= keepUpTo);
+    state.lastBlock = keepUpTo;
+    for (const blockNumber of tracked) {
+      if (blockNumber > keepUpTo) {
+        delete state.blockHashes[blockNumber];
+      }
+    }
+    this.store.save(state);
+    return keepUpTo;
+  }
+
+  private pruneBlockHashes(state: IndexerState): void {
+    for (const blockNumber of Object.keys(state.blockHashes).map(Number)) {
+      if (blockNumber <= state.lastBlock - this.reorgDepth) {
+        delete state.blockHashes[blockNumber];
+      }
+    }
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const logs = await this.provider.getLogs({ address: this.contractAddress, fromBlock, toBlock });
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const event = this.decode(log);
+      if (!event) {
+        continue;
+      }
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        // The chain moved while fetching; the next sync sees the reorg and starts over from there
+        if (block?.hash !== log.blockHash) {
+          throw new Error(`Block ${log.blockNumber} changed during the sync`);
+        }
+        timestamps.set(log.blockNumber, block.timestamp);
+      }
+      const indexed: IndexedEvent = { ...event, timestamp: timestamps.get(log.blockNumber)! };
+      // Set once at issuance, so the current state gives the address the event announced
+      if (event.name === 'CertificateIssued') {
+        const certificate = await this.certificates.verifyCertificate(event.args.certificateId);
+        indexed.issuedBy = getAddress(certificate.issuedBy);
+      }
+      events.push(indexed);
+    }
+    return events;
+  }
+
+  // Events of the contract this indexer does not project, such as disclosures, are skipped
+  private decode(log: Log): Omit<IndexedEvent, 'timestamp'> | undefined {
+    const parsed = certificateEvents.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return undefined;
+    }
+    const args: Record<string, string | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = typeof value === 'bigint' ? value.toString() : value;
+    });
+    return {
+      name: parsed.name,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+}
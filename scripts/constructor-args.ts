@@ -0,0 +1,309 @@
+/**
+ * constructor-args - Constructor parameters and deploy-time defaults for generated deploy scripts
+ *
+ * Parameters are read from the compiled ABI when the hub has been compiled
+ * (artifacts/), otherwise from the Solidity constructor signature. Their
+ * descriptions come from the constructor's NatSpec `@param` lines.
+ *
+ * Defaults are recorded per example with `@deployArg <param> <value> [description]`
+ * tags in the example's test (see discover-examples.ts). Values are literals
+ * (`3600`, `"Confidential Token"`, `true`) or one of:
+ *
+ *   deployer     Address of the deploying account
+ *   now[+N]      Latest block timestamp, optionally plus N seconds
+ *
+ * Every argument can be overridden at deploy time with DEPLOY_<PARAM>, e.g.
+ * DEPLOY_BIDDING_TIME for `biddingTime`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ConstructorParam {
+  name: string;
+  /** Canonical Solidity type, e.g. `uint256`, `address[]` */
+  type: string;
+  description: string;
+}
+
+// Default recorded in the registry for one constructor parameter
+export interface DeployArgDefault {
+  value: string;
+  description?: string;
+}
+
+// One constructor argument as rendered into a deploy script
+export interface DeployArg {
+  name: string;
+  /** JavaScript identifier the deploy script stores the value in */
+  identifier: string;
+  type: string;
+  /** JSDoc type of the value passed to `deploy()` */
+  jsType: string;
+  description: string;
+  /** Environment variable overriding the default */
+  envVar: string;
+  /** Default as shown to users */
+  defaultLabel: string;
+  /** JavaScript expression producing the value */
+  expression: string;
+}
+
+export interface DeployPlan {
+  args: DeployArg[];
+  /** The script needs the deployer signer */
+  needsDeployer: boolean;
+  /** The script needs the latest block */
+  needsTimestamp: boolean;
+  /** Parameters without a default; deploying fails unless their env var is set */
+  required: string[];
+}
+
+/** Parses a `@deployArg` tag value: `<param> <value> [description]`. */
+export function parseDeployArgTag(tag: string): [string, DeployArgDefault] | null {
+  const match = tag.match(/^(\w+)\s+("(?:[^"\\]|\\.)*"|\S+)(?:\s+(.+))?$/);
+  if (!match) {
+    return null;
+  }
+  return [match[1], match[3] ? { value: match[2], description: match[3] } : { value: match[2] }];
+}
+
+function splitParams(list: string): string[] {
+  const params: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(') {
+      depth++;
+    }
+    if (char === ')') {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      params.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    params.push(current);
+  }
+  return params.map(param => param.trim());
+}
+
+// `@param name description` lines from the `///` block above the constructor
+function readParamDocs(lines: string[]): Record<string, string> {
+  const docs: Record<string, string> = {};
+  lines.forEach(line => {
+    const match = line.match(/^\s*\/\/\/\s*@param\s+(\w+)\s+(.+?)\s*$/);
+    if (match) {
+      docs[match[1]] = match[2];
+    }
+  });
+  return docs;
+}
+
+/** Reads the constructor of `contractName` from Solidity source; empty when it has none. */
+export function parseSolidityConstructor(source: string, contractName: string): ConstructorParam[] {
+  const declaration = source.search(new RegExp(`^[ \\t]*(?:abstract\\s+)?contract\\s+${contractName}\\b`, 'm'));
+  if (declaration === -1) {
+    return [];
+  }
+
+  // Only look inside this contract, not at contracts declared after it
+  const rest = source.slice(declaration);
+  const next = rest.slice(1).search(/^(?:abstract\s+)?(?:contract|interface|library)\s+\w+/m);
+  const body = next === -1 ? rest : rest.slice(0, next + 1);
+
+  const start = body.search(/\bconstructor\s*\(/);
+  if (start === -1) {
+    return [];
+  }
+
+  const open = body.indexOf('(', start);
+  let depth = 0;
+  let close = open;
+  for (; close < body.length; close++) {
+    if (body[close] === '(') {
+      depth++;
+    }
+    if (body[close] === ')' && --depth === 0) {
+      break;
+    }
+  }
+
+  const docLines: string[] = [];
+  const before = body.slice(0, start).split(/\r?\n/);
+  for (let i = before.length - 2; i >= 0 && before[i].trim().startsWith('///'); i--) {
+    docLines.unshift(before[i]);
+  }
+  const docs = readParamDocs(docLines);
+
+  return splitParams(body.slice(open + 1, close)).map((param, index) => {
+    const words = param.split(/\s+/).filter(word => !['memory', 'calldata', 'storage', 'payable'].includes(word));
+    const name = words.length > 1 ? words[words.length - 1] : `arg${index}`;
+    return { name, type: words[0], description: docs[name] || '' };
+  });
+}
+
+function abiType(input: { type: string; components?: { type: string }[] }): string {
+  if (input.type.startsWith('tuple') && input.components) {
+    return `(${input.components.map(abiType).join(',')})${input.type.slice('tuple'.length)}`;
+  }
+  return input.type;
+}
+
+/**
+ * Reads the constructor inputs from the Hardhat artifact of a contract.
+ *
+ * @param contract Repository-relative contract source
+ * @returns null when the hub has not been compiled
+ */
+export function readArtifactConstructor(rootDir: string, contract: string, contractName: string): ConstructorParam[] | null {
+  const artifactPath = path.join(rootDir, 'artifacts', contract, `${contractName}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    return null;
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf-8'));
+  const constructor = (artifact.abi as { type: string; inputs?: any[] }[]).find(entry => entry.type === 'constructor');
+  return (constructor && constructor.inputs ? constructor.inputs : []).map((input, index) => ({
+    name: input.name || `arg${index}`,
+    type: abiType(input),
+    description: '',
+  }));
+}
+
+/**
+ * Constructor parameters of an example contract, preferring the compiled ABI
+ * and falling back to the Solidity source. NatSpec descriptions are always
+ * taken from the source.
+ */
+export function getConstructorParams(rootDir: string, contract: string, contractName: string): ConstructorParam[] {
+  const fromSource = parseSolidityConstructor(fs.readFileSync(path.join(rootDir, contract), 'utf-8'), contractName);
+  const fromArtifact = readArtifactConstructor(rootDir, contract, contractName);
+  if (!fromArtifact) {
+    return fromSource;
+  }
+
+  return fromArtifact.map(param => {
+    const documented = fromSource.find(candidate => candidate.name === param.name);
+    return { ...param, description: documented ? documented.description : '' };
+  });
+}
+
+/** _startTimestamp -> START_TIMESTAMP */
+export function toEnvVar(name: string): string {
+  return name
+    .replace(/^_+/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toUpperCase();
+}
+
+function toJsType(type: string): string {
+  if (type.endsWith(']') || type.startsWith('(')) {
+    return 'any[]';
+  }
+  if (/^u?int\d*$/.test(type)) {
+    return 'bigint';
+  }
+  if (type === 'bool') {
+    return 'boolean';
+  }
+  return 'string';
+}
+
+// Type-based default when the registry does not record one
+function typeDefault(type: string): string | null {
+  if (type.endsWith(']')) {
+    return '[]';
+  }
+  if (/^u?int\d*$/.test(type)) {
+    return '0';
+  }
+  if (type === 'bool') {
+    return 'false';
+  }
+  if (type === 'string') {
+    return '""';
+  }
+  if (type === 'bytes') {
+    return '0x';
+  }
+  if (/^bytes\d+$/.test(type)) {
+    return `0x${'00'.repeat(Number(type.slice(5)))}`;
+  }
+  return null;
+}
+
+/**
+ * Builds the deploy-script arguments for a constructor, combining registry
+ * defaults with type-based ones.
+ *
+ * @throws When a registry default does not fit its parameter
+ */
+export function planDeployArgs(params: ConstructorParam[], defaults: Record<string, DeployArgDefault>): DeployPlan {
+  const plan: DeployPlan = { args: [], needsDeployer: false, needsTimestamp: false, required: [] };
+
+  params.forEach(param => {
+    const recorded = defaults[param.name];
+    const envVar = `DEPLOY_${toEnvVar(param.name)}`;
+    const jsType = toJsType(param.type);
+    const env = `process.env.${envVar}`;
+    const raw = recorded ? recorded.value : typeDefault(param.type);
+    let expression: string;
+
+    if (raw === null) {
+      // No sensible default (e.g. the address of another contract)
+      plan.required.push(envVar);
+    }
+
+    if (jsType === 'any[]') {
+      expression = `JSON.parse(${raw === null ? `requireEnv("${envVar}")` : `${env} ?? ${JSON.stringify(raw)}`})`;
+    } else if (raw === null) {
+      expression = `requireEnv("${envVar}")`;
+    } else if (raw === 'deployer') {
+      if (param.type !== 'address') {
+        throw new Error(`${param.name}: "deployer" only fits address parameters, not ${param.type}`);
+      }
+      expression = `${env} ?? deployer.address`;
+      plan.needsDeployer = true;
+    } else if (/^now(\+\d+)?$/.test(raw)) {
+      if (jsType !== 'bigint') {
+        throw new Error(`${param.name}: "${raw}" only fits integer parameters, not ${param.type}`);
+      }
+      expression = `${env} ?? String(latestBlock.timestamp${raw.length > 3 ? ` + ${raw.slice(4)}` : ''})`;
+      plan.needsTimestamp = true;
+    } else {
+      const literal = String(raw.startsWith('"') ? JSON.parse(raw) : raw);
+      if (jsType === 'bigint' && !/^-?\d+$/.test(literal)) {
+        throw new Error(`${param.name}: "${raw}" is not an integer`);
+      }
+      if (jsType === 'boolean' && literal !== 'true' && literal !== 'false') {
+        throw new Error(`${param.name}: "${raw}" is not a boolean`);
+      }
+      expression = `${env} ?? ${JSON.stringify(literal)}`;
+    }
+
+    if (jsType === 'bigint') {
+      expression = `BigInt(${expression})`;
+    } else if (jsType === 'boolean') {
+      expression = `(${expression}) === "true"`;
+    }
+
+    plan.args.push({
+      name: param.name,
+      identifier: /^[A-Za-z_$][\w$]*$/.test(param.name) ? param.name : `arg${plan.args.length}`,
+      type: param.type,
+      jsType,
+      description: (recorded && recorded.description) || param.description,
+      envVar,
+      defaultLabel: raw === null ? 'required' : raw,
+      expression,
+    });
+  });
+
+  return plan;
+}
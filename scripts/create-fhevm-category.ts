@@ -3,13 +3,16 @@
 /**
  * create-fhevm-category - CLI tool to generate category-based project collections
  *
- * Usage: ts-node scripts/create-fhevm-category.ts <category-name> [output-dir]
+ * Usage: ts-node scripts/create-fhevm-category.ts <category-name> [output-dir] [options]
  *
  * Example: ts-node scripts/create-fhevm-category.ts basic ./fhevm-basic-examples
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { CATEGORIES, CategoryConfig, getExamplesByCategory } from './examples-registry';
+import { PlannedFile, UpdateOptions, UpdateResult, printDryRun, readManifest, updateProject, writeProject } from './project-sync';
+import { TEMPLATES_DIR_ENV, TemplateContext, renderTemplateFile, resolveTemplatesDir } from './template-engine';
 
 // Color codes for terminal output
 enum Color {
@@ -38,59 +41,29 @@ function info(message: string): void {
   log(`ℹ️  ${message}`, Color.Blue);
 }
 
-// Category configuration
-interface CategoryConfig {
-  title: string;
-  description: string;
+// Category configuration with its examples resolved from the registry
+interface CategoryProject extends CategoryConfig {
   examples: string[];
 }
 
-// Map of categories to their examples
-const CATEGORIES_MAP: Record<string, CategoryConfig> = {
-  'basic': {
-    title: 'Basic FHE Examples',
-    description: 'Fundamental concepts for working with encrypted values',
-    examples: [
-      'fhe-counter',
-      'arithmetic-operations',
-      'comparison-operations',
-    ],
-  },
-  'encryption': {
-    title: 'Encryption Examples',
-    description: 'How to encrypt values using FHEVM',
-    examples: [
-      'encrypt-single-value',
-      'encrypt-multiple-values',
-    ],
-  },
-  'decryption': {
-    title: 'Decryption Examples',
-    description: 'User and public decryption patterns',
-    examples: [
-      'user-decrypt-single',
-      'user-decrypt-multiple',
-      'public-decrypt-single',
-      'public-decrypt-multiple',
-    ],
-  },
-  'access-control': {
-    title: 'Access Control Examples',
-    description: 'Managing permissions for encrypted values',
-    examples: [
-      'access-control',
-      'input-proof',
-      'anti-patterns',
-    ],
-  },
-  'advanced': {
-    title: 'Advanced Examples',
-    description: 'Complex FHE applications and patterns',
-    examples: [
-      'blind-auction',
-    ],
-  },
-};
+interface CategoryOptions extends UpdateOptions {
+  /** Print the files instead of writing them */
+  dryRun: boolean;
+  /** Re-sync an existing project instead of creating a new one */
+  update: boolean;
+  /** Organisation directory whose templates override templates/ */
+  templatesDir?: string;
+}
+
+const GENERATOR = 'create-fhevm-category';
+
+function getCategoryProject(categoryName: string): CategoryProject | undefined {
+  const category = CATEGORIES[categoryName];
+  if (!category) {
+    return undefined;
+  }
+  return { ...category, examples: getExamplesByCategory(categoryName) };
+}
 
 function copyDirectoryRecursive(source: string, destination: string, excludeDirs: string[] = []): void {
   if (!fs.existsSync(destination)) {
@@ -116,215 +89,79 @@ function copyDirectoryRecursive(source: string, destination: string, excludeDirs
   });
 }
 
-function generateCategoryReadme(categoryName: string, category: CategoryConfig): string {
-  const examplesList = category.examples
-    .map(ex => `- **${ex}**: See \`examples/${ex}/README.md\``)
-    .join('\n');
-
-  return `# ${category.title}
-
-${category.description}
-
-## Examples in This Category
-
-${examplesList}
-
-## Quick Start
-
-Each example is a standalone project in the \`examples/\` directory.
-
-### To run a specific example:
-
-\`\`\`bash
-cd examples/<example-name>
-npm install
-npm run test
-\`\`\`
-
-## Category Overview
-
-### ${category.title}
-
-This category contains ${category.examples.length} example(s) covering:
-
-${category.examples.map((ex, idx) => `${idx + 1}. **${ex}**`).join('\n')}
-
-## Prerequisites
-
-- **Node.js**: Version 20 or higher
-- **npm**: Package manager
-
-## Documentation
-
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [FHEVM Examples](https://docs.zama.org/protocol/examples)
-
-## License
-
-All examples in this category are licensed under the BSD-3-Clause-Clear License.
-
----
-
-**Built with FHEVM by Zama**
-`;
-}
-
-function generatePackageJson(categoryName: string, category: CategoryConfig): string {
-  return JSON.stringify(
-    {
-      name: `fhevm-examples-${categoryName}`,
-      version: '1.0.0',
-      description: category.description,
-      scripts: {
-        'install:all': 'npm install && cd examples && for dir in */; do (cd "$dir" && npm install); done',
-        'test:all': 'cd examples && for dir in */; do echo "Testing $dir..." && (cd "$dir" && npm test); done',
-      },
-      keywords: ['fhevm', 'privacy', 'encryption', categoryName],
-      author: 'Zama',
-      license: 'BSD-3-Clause-Clear',
-    },
-    null,
-    2
-  );
+// Build every file of the category project in memory
+function planCategory(categoryName: string, category: CategoryProject, templatesDir?: string): PlannedFile[] {
+  const context: TemplateContext = { categoryName, ...category };
+  const render = (template: string, extra: TemplateContext = {}): string =>
+    renderTemplateFile(template, { ...context, ...extra }, templatesDir);
+
+  return [
+    { path: 'package.json', content: render('category/package.json.tpl') },
+    { path: 'README.md', content: render('category/README.md.tpl') },
+    { path: 'CATEGORY_SUMMARY.md', content: render('category/CATEGORY_SUMMARY.md.tpl') },
+    ...category.examples.map(example => ({
+      path: `examples/${example}/README.md`,
+      content: render('category/examples/README.md.tpl', { exampleName: example }),
+    })),
+    { path: '.gitignore', content: render('category/gitignore.tpl') },
+  ];
 }
 
-function generateCategorySummary(categoryName: string, category: CategoryConfig): string {
-  return `# ${category.title} - Summary
-
-## Category: ${categoryName}
-
-${category.description}
-
-## Examples Included
-
-${category.examples
-  .map(
-    (ex, idx) => `
-### ${idx + 1}. ${ex}
-
-This example demonstrates key concepts of the ${categoryName} category.
-See \`examples/${ex}/\` for implementation details.
-`
-  )
-  .join('')}
-
-## Learning Path
-
-Start with the first example and progress through each one to build your understanding of ${categoryName} concepts.
-
-## Quick Navigation
-
-${category.examples.map(ex => `- [${ex}](./examples/${ex}/README.md)`).join('\n')}
-
----
-
-For the complete FHEVM documentation, visit: https://docs.zama.ai/fhevm
-`;
+function printUpdateSummary(result: UpdateResult): void {
+  log('\n' + '='.repeat(60), Color.Green);
+  success(`Created: ${result.created.length}, updated: ${result.updated.length}, unchanged: ${result.unchanged.length}`);
+  if (result.skipped.length > 0) {
+    log(`⏭️  Skipped: ${result.skipped.join(', ')}`, Color.Yellow);
+  }
+  log('='.repeat(60), Color.Green);
 }
 
-function createCategory(categoryName: string, outputDir: string): void {
-  const rootDir = path.resolve(__dirname, '..');
-
+async function createCategory(categoryName: string, outputDir: string, options: CategoryOptions): Promise<void> {
   // Check if category exists
-  if (!CATEGORIES_MAP[categoryName]) {
-    const availableCategories = Object.keys(CATEGORIES_MAP)
-      .map(k => `  - ${k}: ${CATEGORIES_MAP[k].title}`)
+  const category = getCategoryProject(categoryName);
+  if (!category) {
+    const availableCategories = Object.keys(CATEGORIES)
+      .map(k => `  - ${k}: ${CATEGORIES[k].title}`)
       .join('\n');
     error(
       `Unknown category: ${categoryName}\n\nAvailable categories:\n${availableCategories}`
     );
   }
 
-  const category = CATEGORIES_MAP[categoryName];
+  const files = planCategory(categoryName, category, options.templatesDir);
+  const manifestOptions: Record<string, string> = { category: categoryName };
+  if (options.templatesDir) {
+    manifestOptions.templates = options.templatesDir;
+  }
+
+  if (options.dryRun) {
+    info(`Dry run for FHEVM category project: ${categoryName} (nothing is written)\n`);
+    printDryRun(path.relative(process.cwd(), outputDir) || '.', files);
+    return;
+  }
+
+  if (options.update) {
+    info(`Updating FHEVM category project: ${categoryName}`);
+    info(`Project directory: ${outputDir}`);
+    if (!fs.existsSync(outputDir)) {
+      error(`Project directory does not exist: ${outputDir}`);
+    }
+    const result = await updateProject(outputDir, files, GENERATOR, manifestOptions, options);
+    printUpdateSummary(result);
+    return;
+  }
 
   info(`Creating FHEVM category project: ${categoryName}`);
   info(`Output directory: ${outputDir}`);
 
-  // Step 1: Create directory structure
-  log('\n📁 Step 1: Creating directory structure...', Color.Cyan);
   if (fs.existsSync(outputDir)) {
-    error(`Output directory already exists: ${outputDir}`);
+    error(`Output directory already exists: ${outputDir} (use --update to re-sync it)`);
   }
 
-  const examplesDir = path.join(outputDir, 'examples');
-  fs.mkdirSync(examplesDir, { recursive: true });
-  success('Directory structure created');
-
-  // Step 2: Generate package.json
-  log('\n📦 Step 2: Creating package.json...', Color.Cyan);
-  const packageJsonContent = generatePackageJson(categoryName, category);
-  fs.writeFileSync(
-    path.join(outputDir, 'package.json'),
-    packageJsonContent
-  );
-  success('package.json created');
-
-  // Step 3: Generate README
-  log('\n📝 Step 3: Generating README.md...', Color.Cyan);
-  const readmeContent = generateCategoryReadme(categoryName, category);
-  fs.writeFileSync(path.join(outputDir, 'README.md'), readmeContent);
-  success('README.md created');
-
-  // Step 4: Generate category summary
-  log('\n📋 Step 4: Generating category summary...', Color.Cyan);
-  const summaryContent = generateCategorySummary(categoryName, category);
-  fs.writeFileSync(
-    path.join(outputDir, 'CATEGORY_SUMMARY.md'),
-    summaryContent
-  );
-  success('CATEGORY_SUMMARY.md created');
-
-  // Step 5: Create example placeholders
-  log('\n🔧 Step 5: Creating example structure...', Color.Cyan);
-  category.examples.forEach(example => {
-    const exampleDir = path.join(examplesDir, example);
-    fs.mkdirSync(exampleDir, { recursive: true });
-
-    // Create placeholder files
-    const placeholderReadme = `# ${example}
-
-This example is part of the "${category.title}" category.
-
-## Quick Start
-
-1. Install dependencies: \`npm install\`
-2. Run tests: \`npm run test\`
-3. Compile contracts: \`npm run compile\`
-
-## More Information
-
-See the parent directory README for more details about this category.
-
----
-
-For full documentation, see the main project README.
-`;
-
-    fs.writeFileSync(
-      path.join(exampleDir, 'README.md'),
-      placeholderReadme
-    );
-  });
-  success(`Created structure for ${category.examples.length} examples`);
-
-  // Step 6: Create .gitignore
-  log('\n🔒 Step 6: Creating .gitignore...', Color.Cyan);
-  const gitignore = `node_modules/
-dist/
-build/
-artifacts/
-cache/
-coverage/
-.env
-.env.local
-.hardhat-node/
-*.log
-.DS_Store
-.vscode/
-.idea/
-`;
-  fs.writeFileSync(path.join(outputDir, '.gitignore'), gitignore);
-  success('.gitignore created');
+  // Write package.json, READMEs, category summary, example placeholders and .gitignore
+  log('\n📝 Writing files...', Color.Cyan);
+  writeProject(outputDir, files, GENERATOR, manifestOptions);
+  files.forEach(file => success(`${file.path} created`));
 
   // Final summary
   log('\n' + '='.repeat(60), Color.Green);
@@ -360,15 +197,21 @@ function main(): void {
   if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
     log('FHEVM Category Project Generator', Color.Cyan);
     log(
-      '\nUsage: ts-node scripts/create-fhevm-category.ts <category-name> [output-dir]\n'
+      '\nUsage: ts-node scripts/create-fhevm-category.ts <category-name> [output-dir] [options]\n'
     );
+    log('Options:', Color.Yellow);
+    log('  --dry-run           Print the file tree and file contents without writing');
+    log('  --update            Re-sync an existing project, reviewing a diff per file');
+    log('  --force             With --update: also review files you modified locally');
+    log('  --yes               With --update: apply every change without prompting');
+    log(`  --templates <dir>   Override files in templates/ (default: $${TEMPLATES_DIR_ENV})\n`);
     log('Available categories:', Color.Yellow);
-    Object.entries(CATEGORIES_MAP).forEach(([name, info]) => {
+    Object.entries(CATEGORIES).forEach(([name, info]) => {
       log(`  ${name}`, Color.Green);
       log(`    ${info.title}`, Color.Cyan);
       log(`    ${info.description}`, Color.Reset);
       log(
-        `    Examples: ${info.examples.join(', ')}\n`,
+        `    Examples: ${getExamplesByCategory(name).join(', ')}\n`,
         Color.Blue
       );
     });
@@ -379,12 +222,51 @@ function main(): void {
     process.exit(0);
   }
 
-  const categoryName = args[0];
+  const options: CategoryOptions = { dryRun: false, update: false, force: false, yes: false };
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--templates') {
+      const value = args[++i];
+      if (!value) {
+        error('--templates needs a directory');
+      }
+      options.templatesDir = value;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--update') {
+      options.update = true;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else if (arg === '--yes') {
+      options.yes = true;
+    } else if (arg.startsWith('--')) {
+      error(`Unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (options.dryRun && options.update) {
+    error('--dry-run and --update cannot be combined');
+  }
+  if ((options.force || options.yes) && !options.update) {
+    error('--force and --yes only apply to --update');
+  }
+
+  const categoryName = positional[0];
   const outputDir =
-    args[1] ||
+    positional[1] ||
     path.join(process.cwd(), 'output', `fhevm-${categoryName}-examples`);
 
-  createCategory(categoryName, outputDir);
+  // Keep the templates the project was generated with
+  const manifest = options.update ? readManifest(outputDir) : null;
+  options.templatesDir = resolveTemplatesDir(options.templatesDir || (manifest ? manifest.options.templates : undefined));
+  if (options.templatesDir && !fs.existsSync(options.templatesDir)) {
+    error(`Templates directory not found: ${options.templatesDir}`);
+  }
+
+  createCategory(categoryName, outputDir, options).catch(err => error(err.message));
 }
 
 main();
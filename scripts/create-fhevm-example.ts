@@ -3,14 +3,28 @@
 /**
  * create-fhevm-example - CLI tool to generate standalone FHEVM example repositories
  *
- * Usage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir]
+ * Usage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir] [options]
+ *        ts-node scripts/create-fhevm-example.ts   (interactive mode)
  *
  * Example: ts-node scripts/create-fhevm-example.ts fhe-counter ./my-fhe-counter
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import * as readline from 'readline/promises';
+import { getConstructorParams, planDeployArgs } from './constructor-args';
+import {
+  DEFAULT_ETHERS_VERSION,
+  ETHERS_PACKAGES,
+  ETHERS_V6_ONLY_SOURCES,
+  EthersVersion,
+  isEthersVersion,
+  toEthersV5,
+} from './ethers-compat';
+import { CATEGORIES, EXAMPLES } from './examples-registry';
+import { PlannedFile, UpdateResult, printDryRun, readManifest, updateProject, writeProject } from './project-sync';
+import { resolveRelativeImport } from './resolve-dependencies';
+import { TEMPLATES_DIR_ENV, TemplateContext, renderTemplateFile, resolveTemplatesDir } from './template-engine';
 
 // Color codes for terminal output
 enum Color {
@@ -39,136 +53,59 @@ function info(message: string): void {
   log(`ℹ️  ${message}`, Color.Blue);
 }
 
-// Example configuration interface
-interface ExampleConfig {
-  contract: string;
-  test: string;
-  description: string;
-  category: string;
+type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+// Settings that shape the generated files
+interface PlanOptions {
+  packageManager: PackageManager;
+  ethersVersion: EthersVersion;
+  /** Organisation directory whose templates override templates/ */
+  templatesDir?: string;
+}
+
+interface ExampleOptions extends PlanOptions {
+  /** Print the files instead of writing them */
+  dryRun: boolean;
+  /** Re-sync an existing project instead of creating a new one */
+  update: boolean;
+  /** With update: also offer changes to locally modified files */
+  force: boolean;
+  /** With update: apply every change without prompting */
+  yes: boolean;
 }
 
-// Map of example names to their contract and test paths
-const EXAMPLES_MAP: Record<string, ExampleConfig> = {
-  'fhe-counter': {
-    contract: 'contracts/basic/FHECounter.sol',
-    test: 'test/basic/FHECounter.test.ts',
-    description: 'A simple FHE counter demonstrating basic encrypted operations',
-    category: 'basic',
-  },
-  'arithmetic-operations': {
-    contract: 'contracts/basic/ArithmeticOperations.sol',
-    test: 'test/basic/ArithmeticOperations.test.ts',
-    description: 'Demonstrates FHE arithmetic operations (add, sub, mul)',
-    category: 'basic',
-  },
-  'comparison-operations': {
-    contract: 'contracts/basic/ComparisonOperations.sol',
-    test: 'test/basic/ComparisonOperations.test.ts',
-    description: 'Shows FHE comparison operations (eq, gt, lt)',
-    category: 'basic',
-  },
-  'encrypt-single-value': {
-    contract: 'contracts/encryption/EncryptSingleValue.sol',
-    test: 'test/encryption/EncryptSingleValue.test.ts',
-    description: 'Demonstrates how to encrypt a single value using FHEVM',
-    category: 'encryption',
-  },
-  'encrypt-multiple-values': {
-    contract: 'contracts/encryption/EncryptMultipleValues.sol',
-    test: 'test/encryption/EncryptMultipleValues.test.ts',
-    description: 'Shows how to encrypt and handle multiple values',
-    category: 'encryption',
-  },
-  'user-decrypt-single': {
-    contract: 'contracts/decryption/UserDecryptSingleValue.sol',
-    test: 'test/decryption/UserDecryptSingleValue.test.ts',
-    description: 'Demonstrates user decryption of a single encrypted value',
-    category: 'decryption',
-  },
-  'user-decrypt-multiple': {
-    contract: 'contracts/decryption/UserDecryptMultipleValues.sol',
-    test: 'test/decryption/UserDecryptMultipleValues.test.ts',
-    description: 'Shows how to decrypt multiple encrypted values',
-    category: 'decryption',
-  },
-  'public-decrypt-single': {
-    contract: 'contracts/decryption/PublicDecryptSingleValue.sol',
-    test: 'test/decryption/PublicDecryptSingleValue.test.ts',
-    description: 'Demonstrates public decryption mechanism',
-    category: 'decryption',
-  },
-  'public-decrypt-multiple': {
-    contract: 'contracts/decryption/PublicDecryptMultipleValues.sol',
-    test: 'test/decryption/PublicDecryptMultipleValues.test.ts',
-    description: 'Shows public decryption with multiple values',
-    category: 'decryption',
-  },
-  'access-control': {
-    contract: 'contracts/access/AccessControlExample.sol',
-    test: 'test/access/AccessControlExample.test.ts',
-    description: 'Demonstrates FHE.allow and FHE.allowTransient for access control',
-    category: 'access-control',
-  },
-  'input-proof': {
-    contract: 'contracts/access/InputProofExample.sol',
-    test: 'test/access/InputProofExample.test.ts',
-    description: 'Explains what input proofs are and why they are needed',
-    category: 'access-control',
-  },
-  'anti-patterns': {
-    contract: 'contracts/access/AntiPatterns.sol',
-    test: 'test/access/AntiPatterns.test.ts',
-    description: 'Common mistakes and anti-patterns with FHEVM',
-    category: 'anti-patterns',
-  },
-  'blind-auction': {
-    contract: 'contracts/advanced/BlindAuction.sol',
-    test: 'test/advanced/BlindAuction.test.ts',
-    description: 'Sealed-bid auction with confidential bids',
-    category: 'advanced',
-  },
-  'confidential-erc20': {
-    contract: 'contracts/openzeppelin/ConfidentialERC20.sol',
-    test: 'test/openzeppelin/ConfidentialERC20.test.ts',
-    description: 'ERC7984 confidential token standard implementation',
-    category: 'openzeppelin',
-  },
-  'erc20-wrapper': {
-    contract: 'contracts/openzeppelin/ConfidentialERC20Wrapper.sol',
-    test: 'test/openzeppelin/ConfidentialERC20Wrapper.test.ts',
-    description: 'Wrapper to convert standard ERC20 to confidential tokens',
-    category: 'openzeppelin',
-  },
-  'vesting-wallet': {
-    contract: 'contracts/openzeppelin/ConfidentialVestingWallet.sol',
-    test: 'test/openzeppelin/ConfidentialVestingWallet.test.ts',
-    description: 'Confidential token vesting with encrypted allocation',
-    category: 'openzeppelin',
-  },
+const GENERATOR = 'create-fhevm-example';
+
+// Install and script commands for each supported package manager
+const PACKAGE_MANAGERS: Record<PackageManager, { install: string; run: string }> = {
+  npm: { install: 'npm install', run: 'npm run' },
+  yarn: { install: 'yarn install', run: 'yarn' },
+  pnpm: { install: 'pnpm install', run: 'pnpm' },
 };
 
-function copyDirectoryRecursive(source: string, destination: string): void {
-  if (!fs.existsSync(destination)) {
-    fs.mkdirSync(destination, { recursive: true });
-  }
+// Template directories that are never copied into a generated project
+const TEMPLATE_EXCLUDED_DIRS = ['node_modules', 'artifacts', 'cache', 'coverage', 'types', 'dist', 'frontend'];
 
-  const items = fs.readdirSync(source);
+function isPackageManager(value: string): value is PackageManager {
+  return Object.keys(PACKAGE_MANAGERS).includes(value);
+}
 
-  items.forEach(item => {
-    const sourcePath = path.join(source, item);
-    const destPath = path.join(destination, item);
-    const stat = fs.statSync(sourcePath);
+// Template files copied into a generated project, relative to the template root
+function listTemplateFiles(templateDir: string, relativeDir = ''): string[] {
+  const files: string[] = [];
 
-    if (stat.isDirectory()) {
-      // Skip node_modules, artifacts, cache, etc.
-      if (['node_modules', 'artifacts', 'cache', 'coverage', 'types', 'dist', 'frontend'].includes(item)) {
-        return;
+  fs.readdirSync(path.join(templateDir, relativeDir)).forEach(item => {
+    const relativePath = relativeDir ? `${relativeDir}/${item}` : item;
+    if (fs.statSync(path.join(templateDir, relativePath)).isDirectory()) {
+      if (!TEMPLATE_EXCLUDED_DIRS.includes(item)) {
+        files.push(...listTemplateFiles(templateDir, relativePath));
       }
-      copyDirectoryRecursive(sourcePath, destPath);
     } else {
-      fs.copyFileSync(sourcePath, destPath);
+      files.push(relativePath);
     }
   });
+
+  return files;
 }
 
 function getContractName(contractPath: string): string | null {
@@ -178,147 +115,142 @@ function getContractName(contractPath: string): string | null {
   return match ? match[1] : null;
 }
 
-function updateDeployScript(outputDir: string, contractName: string): void {
-  const deployScriptPath = path.join(outputDir, 'scripts', 'deploy.js');
-
-  const deployScript = `const hre = require("hardhat");
-
-async function main() {
-  console.log("Deploying ${contractName}...");
-
-  const Contract = await hre.ethers.getContractFactory("${contractName}");
-  const contract = await Contract.deploy();
-
-  await contract.deployed();
-
-  console.log("${contractName} deployed to:", contract.address);
-}
-
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
-`;
-
-  // Ensure scripts directory exists
-  const scriptsDir = path.join(outputDir, 'scripts');
-  if (!fs.existsSync(scriptsDir)) {
-    fs.mkdirSync(scriptsDir, { recursive: true });
+// Where a dependency lands in the generated project: contracts are flattened
+// next to the example contract, test helpers keep their place under test/
+function getDependencyDestination(source: string): string {
+  if (source.endsWith('.sol')) {
+    return `contracts/${path.posix.basename(source)}`;
   }
-
-  fs.writeFileSync(deployScriptPath, deployScript);
+  return source;
 }
 
-function updatePackageJson(outputDir: string, exampleName: string, description: string): void {
-  const packageJsonPath = path.join(outputDir, 'package.json');
-  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+// Read a source file, rewriting relative imports to match the generated layout
+// and, for ethers v5 projects, test code to ethers v5 idioms
+function rewriteSource(
+  rootDir: string,
+  source: string,
+  destinations: Map<string, string>,
+  ethersVersion: EthersVersion
+): string {
+  const destination = destinations.get(source) as string;
+  let content = fs.readFileSync(path.join(rootDir, source), 'utf-8');
+  if (ethersVersion === 5 && !source.endsWith('.sol')) {
+    content = toEthersV5(content);
+  }
 
-  packageJson.name = `fhevm-example-${exampleName}`;
-  packageJson.description = description;
-  packageJson.homepage = `https://github.com/fhevm-examples/${exampleName}`;
+  return content.replace(
+    /(\bimport\s+(?:[^'";]*?\s+from\s+)?|\brequire\(\s*)(["'])(\.[^"']+)\2/g,
+    (match, prefix: string, quote: string, specifier: string) => {
+      const target = resolveRelativeImport(rootDir, source, specifier);
+      if (!target || !destinations.has(target)) {
+        return match;
+      }
 
-  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+      let relative = path.posix.relative(path.posix.dirname(destination), destinations.get(target) as string);
+      if (!relative.startsWith('.')) {
+        relative = `./${relative}`;
+      }
+      if (!/\.\w+$/.test(specifier)) {
+        relative = relative.replace(/\.(ts|js)$/, '');
+      }
+      return `${prefix}${quote}${relative}${quote}`;
+    }
+  );
 }
 
-function generateReadme(exampleName: string, description: string, contractName: string, category: string): string {
-  return `# FHEVM Example: ${exampleName}
-
-${description}
-
-## Category: ${category}
-
-## Quick Start
-
-### Prerequisites
-
-- **Node.js**: Version 20 or higher
-- **npm**: Package manager
-
-### Installation
-
-1. **Install dependencies**
-
-   \`\`\`bash
-   npm install
-   \`\`\`
-
-2. **Set up environment variables**
-
-   \`\`\`bash
-   npx hardhat vars set MNEMONIC
-   npx hardhat vars set INFURA_API_KEY
-   # Optional: Set Etherscan API key for contract verification
-   npx hardhat vars set ETHERSCAN_API_KEY
-   \`\`\`
-
-3. **Compile and test**
-
-   \`\`\`bash
-   npm run compile
-   npm run test
-   \`\`\`
-
-## Contract
-
-The main contract is \`${contractName}\` located in \`contracts/${contractName}.sol\`.
-
-## Testing
-
-Run the test suite:
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-For Sepolia testnet testing:
-
-\`\`\`bash
-npm run test:sepolia
-\`\`\`
-
-## Deployment
-
-Deploy to local network:
-
-\`\`\`bash
-npx hardhat node
-npx hardhat run scripts/deploy.js --network localhost
-\`\`\`
+// Generated files rendered from templates/ (or an organisation override)
+const EXAMPLE_TEMPLATES: Record<string, string> = {
+  'README.md': 'example/README.md.tpl',
+  'hardhat.config.js': 'example/hardhat.config.js.tpl',
+  'package.json': 'example/package.json.tpl',
+  'scripts/deploy.js': 'example/scripts/deploy.js.tpl',
+};
 
-Deploy to Sepolia:
+function getSolidityVersion(contractPath: string): string {
+  const content = fs.readFileSync(contractPath, 'utf-8');
+  const match = content.match(/pragma\s+solidity\s+[\^~>=]*\s*(\d+\.\d+\.\d+)/);
+  return match ? match[1] : '0.8.24';
+}
 
-\`\`\`bash
-npx hardhat run scripts/deploy.js --network sepolia
-\`\`\`
+// Build every file of the generated project in memory
+function planExample(exampleName: string, options: PlanOptions): PlannedFile[] {
+  const { packageManager, ethersVersion, templatesDir } = options;
+  const rootDir = path.resolve(__dirname, '..');
+  const templateDir = path.join(rootDir, 'fhevm-hardhat-template');
+  const example = EXAMPLES[exampleName];
+  const contractName = getContractName(path.join(rootDir, example.contract)) as string;
+
+  const destinations = new Map<string, string>([
+    [example.contract, `contracts/${contractName}.sol`],
+    [example.test, `test/${path.basename(example.test)}`],
+  ]);
+  example.dependencies.forEach(dependency => {
+    destinations.set(dependency, getDependencyDestination(dependency));
+  });
 
-## Documentation
+  const files = new Map<string, string>();
 
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [FHEVM Examples](https://docs.zama.org/protocol/examples)
-- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
+  // Template files, without the template contract and tests
+  listTemplateFiles(templateDir)
+    .filter(file => file !== 'contracts/TemplateContract.sol' && !/^test\/[^/]+\.(ts|js)$/.test(file))
+    .forEach(file => files.set(file, fs.readFileSync(path.join(templateDir, file), 'utf-8')));
 
-## License
+  destinations.forEach((destination, source) => {
+    files.set(destination, rewriteSource(rootDir, source, destinations, ethersVersion));
+  });
 
-This project is licensed under the BSD-3-Clause-Clear License.
+  const deployPlan = planDeployArgs(
+    getConstructorParams(rootDir, example.contract, contractName),
+    example.deployArgs
+  );
+  const context: TemplateContext = {
+    exampleName,
+    title: example.title,
+    description: example.description,
+    category: example.category,
+    contractName,
+    solidityVersion: getSolidityVersion(path.join(rootDir, example.contract)),
+    constructorArgs: deployPlan.args,
+    required: deployPlan.required,
+    needsDeployer: deployPlan.needsDeployer,
+    needsTimestamp: deployPlan.needsTimestamp,
+    needsSetup: deployPlan.needsDeployer || deployPlan.needsTimestamp,
+    dependencies: example.dependencies.map(dependency => destinations.get(dependency) as string),
+    fhevmMock: example.dependencies.includes('test/helpers/fhevm.ts'),
+    keyFeatures: example.keyFeatures,
+    useCases: example.useCases,
+    packageManager,
+    ethers5: ethersVersion === 5,
+    ethersPackages: ETHERS_PACKAGES[ethersVersion],
+    install: PACKAGE_MANAGERS[packageManager].install,
+    run: PACKAGE_MANAGERS[packageManager].run,
+  };
+  Object.entries(EXAMPLE_TEMPLATES).forEach(([filePath, template]) => {
+    files.set(filePath, renderTemplateFile(template, context, templatesDir));
+  });
 
----
+  return Array.from(files, ([filePath, content]) => ({ path: filePath, content }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
 
-**Built with FHEVM by Zama**
-`;
+function printUpdateSummary(result: UpdateResult): void {
+  log('\n' + '='.repeat(60), Color.Green);
+  success(`Created: ${result.created.length}, updated: ${result.updated.length}, unchanged: ${result.unchanged.length}`);
+  if (result.skipped.length > 0) {
+    log(`⏭️  Skipped: ${result.skipped.join(', ')}`, Color.Yellow);
+  }
+  log('='.repeat(60), Color.Green);
 }
 
-function createExample(exampleName: string, outputDir: string): void {
+async function createExample(exampleName: string, outputDir: string, options: ExampleOptions): Promise<void> {
   const rootDir = path.resolve(__dirname, '..');
-  const templateDir = path.join(rootDir, 'fhevm-hardhat-template');
 
   // Check if example exists
-  if (!EXAMPLES_MAP[exampleName]) {
-    error(`Unknown example: ${exampleName}\n\nAvailable examples:\n${Object.keys(EXAMPLES_MAP).map(k => `  - ${k}: ${EXAMPLES_MAP[k].description}`).join('\n')}`);
+  if (!EXAMPLES[exampleName]) {
+    error(`Unknown example: ${exampleName}\n\nAvailable examples:\n${Object.keys(EXAMPLES).map(k => `  - ${k}: ${EXAMPLES[k].description}`).join('\n')}`);
   }
 
-  const example = EXAMPLES_MAP[exampleName];
+  const example = EXAMPLES[exampleName];
   const contractPath = path.join(rootDir, example.contract);
   const testPath = path.join(rootDir, example.test);
 
@@ -330,72 +262,65 @@ function createExample(exampleName: string, outputDir: string): void {
     error(`Test not found: ${example.test}`);
   }
 
-  info(`Creating FHEVM example: ${exampleName}`);
-  info(`Output directory: ${outputDir}`);
-
-  // Step 1: Copy template
-  log('\n📋 Step 1: Copying template...', Color.Cyan);
-  if (fs.existsSync(outputDir)) {
-    error(`Output directory already exists: ${outputDir}`);
-  }
-  copyDirectoryRecursive(templateDir, outputDir);
-  success('Template copied');
-
-  // Step 2: Copy contract
-  log('\n📄 Step 2: Copying contract...', Color.Cyan);
   const contractName = getContractName(contractPath);
   if (!contractName) {
     error('Could not extract contract name from contract file');
   }
-  const destContractPath = path.join(outputDir, 'contracts', `${contractName}.sol`);
 
-  // Ensure contracts directory exists
-  const contractsDir = path.join(outputDir, 'contracts');
-  if (!fs.existsSync(contractsDir)) {
-    fs.mkdirSync(contractsDir, { recursive: true });
+  const v6Only = example.dependencies.filter(dependency => ETHERS_V6_ONLY_SOURCES.includes(dependency));
+  if (options.ethersVersion === 5 && v6Only.length > 0) {
+    error(`${exampleName} needs ethers v6: ${v6Only.join(', ')} cannot be rewritten for ethers v5`);
   }
 
-  // Remove template contract if it exists
-  const templateContract = path.join(outputDir, 'contracts', 'TemplateContract.sol');
-  if (fs.existsSync(templateContract)) {
-    fs.unlinkSync(templateContract);
+  const files = planExample(exampleName, options);
+  const manifestOptions: Record<string, string> = {
+    example: exampleName,
+    packageManager: options.packageManager,
+    ethers: String(options.ethersVersion),
+  };
+  if (options.templatesDir) {
+    manifestOptions.templates = options.templatesDir;
   }
 
-  fs.copyFileSync(contractPath, destContractPath);
-  success(`Contract copied: ${contractName}.sol`);
+  if (options.dryRun) {
+    info(`Dry run for FHEVM example: ${exampleName} (nothing is written)\n`);
+    printDryRun(path.relative(process.cwd(), outputDir) || '.', files);
+    return;
+  }
 
-  // Step 3: Copy test
-  log('\n🧪 Step 3: Copying test...', Color.Cyan);
-  const testDir = path.join(outputDir, 'test');
-  if (!fs.existsSync(testDir)) {
-    fs.mkdirSync(testDir, { recursive: true });
+  if (options.update) {
+    info(`Updating FHEVM example: ${exampleName}`);
+    info(`Project directory: ${outputDir}`);
+    if (!fs.existsSync(outputDir)) {
+      error(`Project directory does not exist: ${outputDir}`);
+    }
+    const result = await updateProject(outputDir, files, GENERATOR, manifestOptions, options);
+    printUpdateSummary(result);
+    return;
   }
 
-  const destTestPath = path.join(testDir, path.basename(testPath));
+  info(`Creating FHEVM example: ${exampleName}`);
+  info(`Output directory: ${outputDir}`);
 
-  // Remove template tests
-  if (fs.existsSync(testDir)) {
-    fs.readdirSync(testDir).forEach(file => {
-      if (file.endsWith('.ts') || file.endsWith('.js')) {
-        fs.unlinkSync(path.join(testDir, file));
-      }
-    });
+  if (fs.existsSync(outputDir)) {
+    error(`Output directory already exists: ${outputDir} (use --update to re-sync it)`);
   }
 
-  fs.copyFileSync(testPath, destTestPath);
-  success(`Test copied: ${path.basename(testPath)}`);
-
-  // Step 4: Update configuration files
-  log('\n⚙️  Step 4: Updating configuration...', Color.Cyan);
-  updateDeployScript(outputDir, contractName);
-  updatePackageJson(outputDir, exampleName, example.description);
-  success('Configuration updated');
+  // Step 1: Report what goes into the project
+  log('\n📋 Step 1: Collecting sources...', Color.Cyan);
+  success(`Contract: ${contractName}.sol`);
+  success(`Test: ${path.basename(testPath)}`);
+  if (example.dependencies.length === 0) {
+    info('No additional dependencies');
+  }
+  example.dependencies.forEach(dependency => {
+    success(`Dependency: ${dependency} → ${getDependencyDestination(dependency)}`);
+  });
 
-  // Step 5: Generate README
-  log('\n📝 Step 5: Generating README...', Color.Cyan);
-  const readme = generateReadme(exampleName, example.description, contractName, example.category);
-  fs.writeFileSync(path.join(outputDir, 'README.md'), readme);
-  success('README.md generated');
+  // Step 2: Write template, sources, configuration and README
+  log('\n💾 Step 2: Writing files...', Color.Cyan);
+  writeProject(outputDir, files, GENERATOR, manifestOptions);
+  success(`${files.length} files written`);
 
   // Final summary
   log('\n' + '='.repeat(60), Color.Green);
@@ -404,35 +329,244 @@ function createExample(exampleName: string, outputDir: string): void {
 
   log('\n📦 Next steps:', Color.Yellow);
   log(`  cd ${path.relative(process.cwd(), outputDir)}`);
-  log('  npm install');
-  log('  npm run compile');
-  log('  npm run test');
+  log(`  ${PACKAGE_MANAGERS[options.packageManager].install}`);
+  log(`  ${PACKAGE_MANAGERS[options.packageManager].run} compile`);
+  log(`  ${PACKAGE_MANAGERS[options.packageManager].run} test`);
 
   log('\n🎉 Happy coding with FHEVM!', Color.Cyan);
 }
 
+// Parse "1,3", "2-4", example names or "all" into example names
+function parseSelection(input: string, names: string[]): string[] | null {
+  const selected: string[] = [];
+
+  for (const token of input.split(/[\s,]+/).filter(Boolean)) {
+    const range = token.match(/^(\d+)(?:-(\d+))?$/);
+    if (token === 'all') {
+      selected.push(...names);
+    } else if (range) {
+      const from = Number(range[1]);
+      const to = Number(range[2] || range[1]);
+      if (from < 1 || to > names.length || from > to) {
+        return null;
+      }
+      selected.push(...names.slice(from - 1, to));
+    } else if (EXAMPLES[token]) {
+      selected.push(token);
+    } else {
+      return null;
+    }
+  }
+
+  return selected.length > 0 ? Array.from(new Set(selected)) : null;
+}
+
+// Interactive mode: pick examples, output directory, package manager and ethers version
+async function runWizard(): Promise<void> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const names = Object.keys(EXAMPLES);
+  let targets: { name: string; dir: string }[] = [];
+  let packageManager: PackageManager = 'npm';
+  let ethersVersion: EthersVersion = DEFAULT_ETHERS_VERSION;
+  const templatesDir = resolveTemplatesDir();
+
+  try {
+    log('FHEVM Example Generator - interactive mode', Color.Cyan);
+
+    Object.entries(CATEGORIES).forEach(([categoryName, category]) => {
+      const inCategory = names.filter(name => EXAMPLES[name].category === categoryName);
+      if (inCategory.length === 0) {
+        return;
+      }
+      log(`\n${category.title}`, Color.Yellow);
+      inCategory.forEach(name => {
+        log(`  ${String(names.indexOf(name) + 1).padStart(2)}) ${name}`, Color.Green);
+        log(`      ${EXAMPLES[name].description}`);
+      });
+    });
+
+    let selected: string[] | null = null;
+    while (!selected) {
+      const answer = await rl.question('\nSelect examples (numbers, ranges or names, e.g. 1,3-5 or all): ');
+      selected = parseSelection(answer, names);
+      if (!selected) {
+        log('⚠️  Invalid selection, try again', Color.Yellow);
+      }
+    }
+
+    const defaultDir = selected.length === 1
+      ? path.join('output', `fhevm-example-${selected[0]}`)
+      : path.join('output', 'fhevm-examples');
+    while (targets.length === 0) {
+      const answer = await rl.question(`Output directory [${defaultDir}]: `);
+      const outputDir = path.resolve(answer.trim() || defaultDir);
+      const candidates = (selected as string[]).map(name => ({
+        name,
+        dir: selected!.length === 1 ? outputDir : path.join(outputDir, `fhevm-example-${name}`),
+      }));
+      const existing = candidates.filter(target => fs.existsSync(target.dir));
+      if (existing.length > 0) {
+        existing.forEach(target => log(`⚠️  Already exists: ${target.dir}`, Color.Yellow));
+        continue;
+      }
+      targets = candidates;
+    }
+
+    const choices = Object.keys(PACKAGE_MANAGERS).join('/');
+    let answer = '';
+    do {
+      answer = (await rl.question(`Package manager (${choices}) [npm]: `)).trim() || 'npm';
+    } while (!isPackageManager(answer));
+    packageManager = answer;
+
+    do {
+      answer = (await rl.question(`Ethers major version (6/5) [${DEFAULT_ETHERS_VERSION}]: `)).trim() || String(DEFAULT_ETHERS_VERSION);
+    } while (!isEthersVersion(answer));
+    ethersVersion = Number(answer) as EthersVersion;
+
+    log('\n📋 Summary', Color.Cyan);
+    log(`Package manager: ${packageManager}`);
+    log(`Ethers: v${ethersVersion}`);
+    targets.forEach(target => {
+      log(`\n${target.name} → ${target.dir}`, Color.Green);
+      planExample(target.name, { packageManager, ethersVersion, templatesDir }).forEach(file => log(`  ${file.path}`));
+    });
+
+    const confirm = await rl.question('\nWrite these files? (y/N): ');
+    if (!/^y(es)?$/i.test(confirm.trim())) {
+      info('Aborted, nothing was written');
+      targets = [];
+    }
+  } finally {
+    rl.close();
+  }
+
+  for (const target of targets) {
+    await createExample(target.name, target.dir, {
+      packageManager,
+      ethersVersion,
+      dryRun: false,
+      update: false,
+      force: false,
+      yes: false,
+      templatesDir,
+    });
+  }
+}
+
+function printUsage(): void {
+  log('FHEVM Example Generator', Color.Cyan);
+  log('\nUsage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir] [options]');
+  log('       ts-node scripts/create-fhevm-example.ts            (interactive mode)\n');
+  log('Options:', Color.Yellow);
+  log('  --package-manager <npm|yarn|pnpm>   Commands used in the README and next steps (default: npm)');
+  log(`  --ethers <5|6>                      Ethers major version of the deploy script and tests (default: ${DEFAULT_ETHERS_VERSION})`);
+  log('  --dry-run                           Print the file tree and file contents without writing');
+  log('  --update                            Re-sync an existing project, reviewing a diff per file');
+  log('  --force                             With --update: also review files you modified locally');
+  log('  --yes                               With --update: apply every change without prompting');
+  log(`  --templates <dir>                   Override files in templates/ (default: $${TEMPLATES_DIR_ENV})\n`);
+  log('Available examples:', Color.Yellow);
+  Object.entries(EXAMPLES).forEach(([name, info]) => {
+    log(`  ${name}`, Color.Green);
+    log(`    ${info.description}`, Color.Reset);
+    log(`    Category: ${info.category}\n`, Color.Blue);
+  });
+  log('Example:', Color.Yellow);
+  log('  ts-node scripts/create-fhevm-example.ts fhe-counter ./my-fhe-counter\n');
+}
+
 // Main execution
 function main(): void {
   const args = process.argv.slice(2);
 
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
-    log('FHEVM Example Generator', Color.Cyan);
-    log('\nUsage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir]\n');
-    log('Available examples:', Color.Yellow);
-    Object.entries(EXAMPLES_MAP).forEach(([name, info]) => {
-      log(`  ${name}`, Color.Green);
-      log(`    ${info.description}`, Color.Reset);
-      log(`    Category: ${info.category}\n`, Color.Blue);
-    });
-    log('Example:', Color.Yellow);
-    log('  ts-node scripts/create-fhevm-example.ts fhe-counter ./my-fhe-counter\n');
+  if (args[0] === '--help' || args[0] === '-h') {
+    printUsage();
     process.exit(0);
   }
 
-  const exampleName = args[0];
-  const outputDir = args[1] || path.join(process.cwd(), 'output', `fhevm-example-${exampleName}`);
+  if (args.length === 0) {
+    // Scripts and CI have no terminal to answer prompts
+    if (!process.stdin.isTTY) {
+      printUsage();
+      process.exit(0);
+    }
+    runWizard().catch(err => error(err.message));
+    return;
+  }
+
+  const positional: string[] = [];
+  const options: ExampleOptions = {
+    packageManager: 'npm',
+    ethersVersion: DEFAULT_ETHERS_VERSION,
+    dryRun: false,
+    update: false,
+    force: false,
+    yes: false,
+  };
+  let packageManagerGiven = false;
+  let ethersVersionGiven = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--package-manager') {
+      const value = args[++i];
+      if (!value || !isPackageManager(value)) {
+        error(`--package-manager must be one of: ${Object.keys(PACKAGE_MANAGERS).join(', ')}`);
+      }
+      options.packageManager = value;
+      packageManagerGiven = true;
+    } else if (args[i] === '--ethers') {
+      const value = args[++i];
+      if (!value || !isEthersVersion(value)) {
+        error('--ethers must be 5 or 6');
+      }
+      options.ethersVersion = Number(value) as EthersVersion;
+      ethersVersionGiven = true;
+    } else if (args[i] === '--templates') {
+      const value = args[++i];
+      if (!value) {
+        error('--templates needs a directory');
+      }
+      options.templatesDir = value;
+    } else if (args[i] === '--dry-run') {
+      options.dryRun = true;
+    } else if (args[i] === '--update') {
+      options.update = true;
+    } else if (args[i] === '--force') {
+      options.force = true;
+    } else if (args[i] === '--yes') {
+      options.yes = true;
+    } else if (args[i].startsWith('--')) {
+      error(`Unknown option: ${args[i]}`);
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  if (options.dryRun && options.update) {
+    error('--dry-run and --update cannot be combined');
+  }
+  if ((options.force || options.yes) && !options.update) {
+    error('--force and --yes only apply to --update');
+  }
+
+  const exampleName = positional[0];
+  const outputDir = positional[1] || path.join(process.cwd(), 'output', `fhevm-example-${exampleName}`);
+
+  // Keep the package manager, ethers version and templates the project was generated with
+  const manifest = options.update ? readManifest(outputDir) : null;
+  if (!packageManagerGiven && manifest && isPackageManager(manifest.options.packageManager)) {
+    options.packageManager = manifest.options.packageManager;
+  }
+  if (!ethersVersionGiven && manifest && manifest.options.ethers && isEthersVersion(manifest.options.ethers)) {
+    options.ethersVersion = Number(manifest.options.ethers) as EthersVersion;
+  }
+  options.templatesDir = resolveTemplatesDir(options.templatesDir || (manifest ? manifest.options.templates : undefined));
+  if (options.templatesDir && !fs.existsSync(options.templatesDir)) {
+    error(`Templates directory not found: ${options.templatesDir}`);
+  }
 
-  createExample(exampleName, outputDir);
+  createExample(exampleName, outputDir, options).catch(err => error(err.message));
 }
 
 main();
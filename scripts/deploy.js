@@ -5,32 +5,28 @@ async function main() {
   
   try {
     // Get the deployer account
-    const [deployer] = await ethers.getSigners();
+    const [deployer] = await hre.ethers.getSigners();
     console.log("Deploying with account:", deployer.address);
     
     // Check balance
-    const balance = await deployer.getBalance();
-    console.log("Account balance:", ethers.utils.formatEther(balance), "ETH");
+    const balance = await hre.ethers.provider.getBalance(deployer.address);
+    console.log("Account balance:", hre.ethers.formatEther(balance), "ETH");
     
     // Deploy PrivacyProfessionalCertificate
     console.log("\nDeploying PrivacyProfessionalCertificate...");
     const Certificate = await hre.ethers.getContractFactory("PrivacyProfessionalCertificate");
     const certificate = await Certificate.deploy();
-    await certificate.deployed();
-    console.log("PrivacyProfessionalCertificate deployed to:", certificate.address);
+    await certificate.waitForDeployment();
+    const certificateAddress = await certificate.getAddress();
+    console.log("PrivacyProfessionalCertificate deployed to:", certificateAddress);
     
-    // Deploy example contracts
-    console.log("\nDeploying CertificateIssuance...");
-    const CertIssuance = await hre.ethers.getContractFactory("CertificateIssuance");
-    const certIssuance = await CertIssuance.deploy();
-    await certIssuance.deployed();
-    console.log("CertificateIssuance deployed to:", certIssuance.address);
-    
-    console.log("\nDeploying EncryptedScore...");
-    const Score = await hre.ethers.getContractFactory("EncryptedScore");
-    const score = await Score.deploy();
-    await score.deployed();
-    console.log("EncryptedScore deployed to:", score.address);
+    // Deploy the read-only views for it
+    console.log("\nDeploying PrivacyProfessionalCertificateViews...");
+    const Views = await hre.ethers.getContractFactory("PrivacyProfessionalCertificateViews");
+    const views = await Views.deploy(certificateAddress);
+    await views.waitForDeployment();
+    const viewsAddress = await views.getAddress();
+    console.log("PrivacyProfessionalCertificateViews deployed to:", viewsAddress);
     
     // Save deployment addresses
     const deploymentInfo = {
@@ -38,9 +34,8 @@ async function main() {
       deployer: deployer.address,
       deploymentDate: new Date().toISOString(),
       contracts: {
-        PrivacyProfessionalCertificate: certificate.address,
-        CertificateIssuance: certIssuance.address,
-        EncryptedScore: score.address
+        PrivacyProfessionalCertificate: certificateAddress,
+        PrivacyProfessionalCertificateViews: viewsAddress
       }
     };
     
@@ -0,0 +1,169 @@
+/**
+ * discover-examples - Builds the example list from NatSpec/JSDoc tags
+ *
+ * Every `contracts/<folder>/X.sol` is paired with `test/<folder>/X.test.ts`.
+ * Metadata is read from the JSDoc block above the test's `describe`:
+ *
+ *   @name        Example name used by the CLIs (defaults to the kebab-cased contract name)
+ *   @chapter     Category the example belongs to (required)
+ *   @title       Display title (defaults to the contract's NatSpec @title)
+ *   @description One-line summary (defaults to the contract's NatSpec @dev)
+ *   @keyFeature  Repeatable, one feature per tag
+ *   @useCase     Repeatable, one use case per tag
+ *   @dependency  Repeatable, extra contract source required by the example
+ *   @deployArg   Repeatable, `<param> <value> [description]` default for a
+ *                constructor parameter in the generated deploy script
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDeployArgTag } from './constructor-args';
+import type { ExampleConfig } from './examples-registry';
+
+export type DocTags = Record<string, string[]>;
+
+export interface DiscoveryResult {
+  examples: Record<string, ExampleConfig>;
+  problems: string[];
+}
+
+export function listFiles(dir: string, predicate: (file: string) => boolean): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  fs.readdirSync(dir).forEach(item => {
+    const itemPath = path.join(dir, item);
+    if (fs.statSync(itemPath).isDirectory()) {
+      files.push(...listFiles(itemPath, predicate));
+    } else if (predicate(item)) {
+      files.push(itemPath);
+    }
+  });
+  return files;
+}
+
+export function toRelativePath(rootDir: string, file: string): string {
+  return path.relative(rootDir, file).split(path.sep).join('/');
+}
+
+/**
+ * Collects `@tag value` pairs from comment lines. Leading `*`, `///` and
+ * `//` markers are stripped; repeated tags keep every value in order.
+ */
+export function parseTags(lines: string[]): DocTags {
+  const tags: DocTags = {};
+
+  lines.forEach(line => {
+    const match = line.replace(/^\s*(\/\/\/|\/\/|\/\*\*|\*)?\s*/, '').match(/^@(\w+)\s+(.+?)\s*$/);
+    if (match) {
+      (tags[match[1]] = tags[match[1]] || []).push(match[2]);
+    }
+  });
+
+  return tags;
+}
+
+/** Reads the first JSDoc block of a test file. */
+export function readTestTags(testPath: string): DocTags {
+  const content = fs.readFileSync(testPath, 'utf-8');
+  const match = content.match(/\/\*\*([\s\S]*?)\*\//);
+  return match ? parseTags(match[1].split(/\r?\n/)) : {};
+}
+
+/** Reads the `///` NatSpec lines directly above the contract declaration. */
+export function readContractTags(contractPath: string): DocTags {
+  const lines = fs.readFileSync(contractPath, 'utf-8').split(/\r?\n/);
+  const declaration = lines.findIndex(line => /^\s*contract\s+\w+/.test(line));
+  if (declaration === -1) {
+    return {};
+  }
+
+  let start = declaration;
+  while (start > 0 && lines[start - 1].trim().startsWith('///')) {
+    start--;
+  }
+  return parseTags(lines.slice(start, declaration));
+}
+
+/** FHECounter -> fhe-counter, ConfidentialERC20Wrapper -> confidential-erc20-wrapper */
+export function toExampleName(contractName: string): string {
+  return contractName
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1-$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase();
+}
+
+function first(tags: DocTags, name: string): string | undefined {
+  return tags[name] ? tags[name][0] : undefined;
+}
+
+/**
+ * Scans contracts/ and test/ and builds an example entry for every
+ * contract that has a matching test.
+ *
+ * @param ignored Repository-relative sources that are not examples
+ */
+export function discoverExamples(rootDir: string, ignored: string[] = []): DiscoveryResult {
+  const examples: Record<string, ExampleConfig> = {};
+  const problems: string[] = [];
+
+  const tests = new Map<string, string>();
+  listFiles(path.join(rootDir, 'test'), file => file.endsWith('.test.ts')).forEach(file => {
+    const relative = toRelativePath(rootDir, file);
+    if (!ignored.includes(relative)) {
+      tests.set(relative.replace(/^test\//, '').replace(/\.test\.ts$/, ''), relative);
+    }
+  });
+
+  listFiles(path.join(rootDir, 'contracts'), file => file.endsWith('.sol')).forEach(file => {
+    const contract = toRelativePath(rootDir, file);
+    const key = contract.replace(/^contracts\//, '').replace(/\.sol$/, '');
+    const test = tests.get(key);
+    if (!test) {
+      return;
+    }
+    tests.delete(key);
+
+    const testTags = readTestTags(path.join(rootDir, test));
+    const contractTags = readContractTags(file);
+    const name = first(testTags, 'name') || toExampleName(path.basename(key));
+    const category = first(testTags, 'chapter');
+
+    if (!category) {
+      problems.push(`${test}: missing @chapter tag`);
+      return;
+    }
+    if (examples[name]) {
+      problems.push(`${test}: example name "${name}" is already used by ${examples[name].test}`);
+      return;
+    }
+
+    const deployArgs: ExampleConfig['deployArgs'] = {};
+    (testTags.deployArg || []).forEach(tag => {
+      const parsed = parseDeployArgTag(tag);
+      if (parsed) {
+        deployArgs[parsed[0]] = parsed[1];
+      } else {
+        problems.push(`${test}: cannot parse @deployArg "${tag}"`);
+      }
+    });
+
+    examples[name] = {
+      title: first(testTags, 'title') || first(contractTags, 'title') || path.basename(key),
+      description: first(testTags, 'description') || first(contractTags, 'dev') || '',
+      category,
+      contract,
+      test,
+      keyFeatures: testTags.keyFeature || [],
+      useCases: testTags.useCase || [],
+      dependencies: testTags.dependency || [],
+      deployArgs,
+    };
+  });
+
+  tests.forEach(test => problems.push(`${test}: no matching contract under contracts/`));
+
+  return { examples, problems };
+}
@@ -0,0 +1,81 @@
+/**
+ * ethers-compat - Targets ethers v5 or v6 in generated projects
+ *
+ * The hub's tests are written for ethers v6 (hardhat-toolbox 4) and are
+ * copied as-is into generated projects. When a project targets ethers v5,
+ * the v6 idioms they use are rewritten to their v5 equivalents. Anything
+ * outside this table has to be written so it works with both versions
+ * (e.g. chai matchers such as `changeTokenBalance` instead of bigint math).
+ */
+
+export type EthersVersion = 5 | 6;
+
+export const DEFAULT_ETHERS_VERSION: EthersVersion = 6;
+
+// Dependencies of a generated project for each ethers major version
+export const ETHERS_PACKAGES: Record<EthersVersion, { ethers: string; toolbox: string; hardhat: string }> = {
+  5: { ethers: '^5.7.2', toolbox: '^2.0.2', hardhat: '^2.19.0' },
+  6: { ethers: '^6.13.0', toolbox: '^4.0.0', hardhat: '^2.22.0' },
+};
+
+// ethers v6 top-level helpers that live under `ethers.utils` in v5
+const UTILS_RENAMES: Record<string, string> = {
+  parseEther: 'parseEther',
+  parseUnits: 'parseUnits',
+  formatEther: 'formatEther',
+  formatUnits: 'formatUnits',
+  keccak256: 'keccak256',
+  toUtf8Bytes: 'toUtf8Bytes',
+  id: 'id',
+  hexlify: 'hexlify',
+  getBytes: 'arrayify',
+  zeroPadValue: 'hexZeroPad',
+  solidityPackedKeccak256: 'solidityKeccak256',
+  encodeBytes32String: 'formatBytes32String',
+};
+
+// ethers v6 constants and their v5 location
+const CONSTANT_RENAMES: Record<string, string> = {
+  ZeroAddress: 'constants.AddressZero',
+  ZeroHash: 'constants.HashZero',
+  MaxUint256: 'constants.MaxUint256',
+};
+
+// Shared test sources too tied to the ethers v6 API to be rewritten for v5
+export const ETHERS_V6_ONLY_SOURCES: string[] = [
+  'test/helpers/fhevm-mock.ts',
+  'test/helpers/fhevm.ts',
+  'types/fhevm-matchers.d.ts',
+];
+
+export function isEthersVersion(value: string | number): value is EthersVersion {
+  return String(value) === '5' || String(value) === '6';
+}
+
+/** Rewrites the ethers v6 idioms used by the hub's tests into ethers v5. */
+export function toEthersV5(source: string): string {
+  return source
+    .replace(/await\s+(\w+)\.waitForDeployment\(\)/g, 'await $1.deployed()')
+    .replace(/await\s+(\w+)\.getAddress\(\)/g, '$1.address')
+    .replace(/\bethers\.(\w+)\b/g, (match, name: string) => {
+      if (UTILS_RENAMES[name]) {
+        return `ethers.utils.${UTILS_RENAMES[name]}`;
+      }
+      if (CONSTANT_RENAMES[name]) {
+        return `ethers.${CONSTANT_RENAMES[name]}`;
+      }
+      return match;
+    });
+}
+
+/** Returns the ethers v5 idioms found in a source, so the hub's own tests stay on v6. */
+export function findEthersV5Idioms(source: string): string[] {
+  const patterns: [RegExp, string][] = [
+    [/\.deployed\(\)/, '.deployed() (use waitForDeployment())'],
+    [/\bethers\.utils\./, 'ethers.utils (helpers are top-level in v6)'],
+    [/\bethers\.constants\./, 'ethers.constants (use ethers.ZeroAddress, ethers.ZeroHash, ...)'],
+    [/\bethers\.BigNumber\b/, 'ethers.BigNumber (use bigint)'],
+    [/\bethers\.providers\./, 'ethers.providers (providers are top-level in v6)'],
+  ];
+  return patterns.filter(([pattern]) => pattern.test(source)).map(([, label]) => label);
+}
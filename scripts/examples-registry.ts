@@ -0,0 +1,188 @@
+/**
+ * examples-registry - Single source of truth for the FHEVM example hub
+ *
+ * Every CLI in this directory (create-fhevm-example, create-fhevm-category,
+ * generate-docs) reads examples and categories from here. Categories are
+ * declared below; examples are discovered from the JSDoc tags of each test
+ * (see discover-examples.ts). Run `ts-node scripts/validate-examples.ts`
+ * after adding or moving files.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeployArgDefault, getConstructorParams, planDeployArgs } from './constructor-args';
+import { discoverExamples, listFiles, toRelativePath } from './discover-examples';
+import { findEthersV5Idioms } from './ethers-compat';
+import { buildContractIndex, resolveDependencies } from './resolve-dependencies';
+
+// Category configuration
+export interface CategoryConfig {
+  title: string;
+  description: string;
+}
+
+// Example configuration
+export interface ExampleConfig {
+  title: string;
+  description: string;
+  category: string;
+  /** Contract source, relative to the repository root */
+  contract: string;
+  /** Test file, relative to the repository root */
+  test: string;
+  keyFeatures: string[];
+  useCases: string[];
+  /** Additional sources (mocks, imported contracts, test helpers) required to compile and test the example */
+  dependencies: string[];
+  /** Deploy script defaults, keyed by constructor parameter name */
+  deployArgs: Record<string, DeployArgDefault>;
+}
+
+export const CATEGORIES: Record<string, CategoryConfig> = {
+  'basic': {
+    title: 'Basic FHE Examples',
+    description: 'Fundamental concepts for working with encrypted values',
+  },
+  'encryption': {
+    title: 'Encryption Examples',
+    description: 'How to encrypt values using FHEVM',
+  },
+  'decryption': {
+    title: 'Decryption Examples',
+    description: 'User and public decryption patterns',
+  },
+  'access-control': {
+    title: 'Access Control Examples',
+    description: 'Managing permissions for encrypted values',
+  },
+  'anti-patterns': {
+    title: 'Anti-Pattern Examples',
+    description: 'Common mistakes to avoid when working with FHEVM',
+  },
+  'advanced': {
+    title: 'Advanced Examples',
+    description: 'Complex FHE applications and patterns',
+  },
+  'openzeppelin': {
+    title: 'OpenZeppelin Confidential Contracts',
+    description: 'Confidential token standards, wrappers and vesting',
+  },
+  'learning': {
+    title: 'Learning Examples',
+    description: 'How FHEVM works under the hood',
+  },
+};
+
+/**
+ * Sources under contracts/ and test/ that are intentionally not examples
+ * (the hub's own certificate application).
+ */
+export const NON_EXAMPLE_SOURCES: string[] = [
+  'contracts/PrivacyProfessionalCertificate.sol',
+  'contracts/PrivacyProfessionalCertificateViews.sol',
+  'test/PrivacyProfessionalCertificate.test.ts',
+  'test/VerifiableCredential.test.ts',
+  'test/CertificateIndexer.test.ts',
+];
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+const discovery = discoverExamples(ROOT_DIR, NON_EXAMPLE_SOURCES);
+const unresolvedDependencies: string[] = [];
+
+// Add the mocks, imported contracts and test helpers each example pulls in
+const contractIndex = buildContractIndex(ROOT_DIR);
+Object.values(discovery.examples).forEach(example => {
+  const resolution = resolveDependencies(ROOT_DIR, example.contract, example.test, contractIndex);
+  example.dependencies = Array.from(new Set([...example.dependencies, ...resolution.files]));
+  unresolvedDependencies.push(...resolution.missing);
+});
+
+/** Examples discovered from contracts/ and test/, ordered by category */
+export const EXAMPLES: Record<string, ExampleConfig> = Object.fromEntries(
+  Object.entries(discovery.examples).sort(
+    ([, a], [, b]) =>
+      categoryIndex(a.category) - categoryIndex(b.category) || a.test.localeCompare(b.test)
+  )
+);
+
+function categoryIndex(categoryName: string): number {
+  const index = Object.keys(CATEGORIES).indexOf(categoryName);
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+export function getExamplesByCategory(categoryName: string): string[] {
+  return Object.keys(EXAMPLES).filter(name => EXAMPLES[name].category === categoryName);
+}
+
+/**
+ * Checks the registry against the files on disk.
+ *
+ * @returns A list of problems; empty when the registry is consistent
+ */
+export function validateRegistry(rootDir: string): string[] {
+  const problems: string[] = [...discovery.problems, ...unresolvedDependencies];
+  const registered = new Set<string>(NON_EXAMPLE_SOURCES);
+  const owners = new Map<string, string>();
+
+  Object.entries(EXAMPLES).forEach(([name, example]) => {
+    if (!CATEGORIES[example.category]) {
+      problems.push(`${name}: unknown category "${example.category}"`);
+    }
+
+    [example.contract, example.test, ...example.dependencies].forEach(file => {
+      if (!fs.existsSync(path.join(rootDir, file))) {
+        problems.push(`${name}: missing file ${file}`);
+      }
+    });
+
+    if (fs.existsSync(path.join(rootDir, example.contract))) {
+      const contractName = path.basename(example.contract, '.sol');
+      const params = getConstructorParams(rootDir, example.contract, contractName);
+      Object.keys(example.deployArgs)
+        .filter(param => !params.some(candidate => candidate.name === param))
+        .forEach(param => problems.push(`${name}: @deployArg ${param} is not a constructor parameter of ${contractName}`));
+      try {
+        planDeployArgs(params, example.deployArgs);
+      } catch (err) {
+        problems.push(`${name}: ${(err as Error).message}`);
+      }
+    }
+
+    // Tests are copied into generated projects, which target ethers v6 by default
+    [example.test, ...example.dependencies]
+      .filter(file => /\.(ts|js)$/.test(file) && fs.existsSync(path.join(rootDir, file)))
+      .forEach(file => {
+        findEthersV5Idioms(fs.readFileSync(path.join(rootDir, file), 'utf-8')).forEach(idiom => {
+          problems.push(`${name}: ${file} uses ethers v5 ${idiom}`);
+        });
+      });
+
+    [example.contract, example.test].forEach(file => {
+      if (owners.has(file)) {
+        problems.push(`${name}: ${file} is already registered by ${owners.get(file)}`);
+      }
+      owners.set(file, name);
+    });
+    [example.contract, example.test, ...example.dependencies].forEach(file => registered.add(file));
+  });
+
+  Object.keys(CATEGORIES).forEach(categoryName => {
+    if (getExamplesByCategory(categoryName).length === 0) {
+      problems.push(`Category "${categoryName}" has no examples`);
+    }
+  });
+
+  const onDisk = [
+    ...listFiles(path.join(rootDir, 'contracts'), file => file.endsWith('.sol')),
+    ...listFiles(path.join(rootDir, 'test'), file => file.endsWith('.test.ts')),
+  ].map(file => toRelativePath(rootDir, file));
+
+  onDisk.forEach(file => {
+    if (!registered.has(file)) {
+      problems.push(`Unregistered file: ${file}`);
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,141 @@
+#!/usr/bin/env ts-node
+
+/**
+ * export-credential - Exports certificates as signed W3C Verifiable Credentials
+ *
+ * Usage: ts-node scripts/export-credential.ts <certificate-id> [--out <file>] [--contract <address>] [--rpc <url>]
+ *        ts-node scripts/export-credential.ts --verify <file> [--contract <address>] [--rpc <url>]
+ *
+ * Exporting signs with the issuer key in PRIVATE_KEY. Verifying checks the
+ * credential against the registry given here, not the one the document names.
+ * The contract defaults to CONTRACT_ADDRESS and the RPC endpoint to
+ * SEPOLIA_RPC_URL, or a local node.
+ */
+
+import * as fs from 'fs';
+import { JsonRpcProvider, Wallet, isAddress } from 'ethers';
+import { VerifiableCredential, exportCredential, verifyCredential } from './verifiable-credential';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+// Messages go to stderr so an exported document can be piped from stdout
+function log(message: string, color: Color = Color.Reset): void {
+  console.error(`${color}${message}${Color.Reset}`);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function error(message: string): never {
+  log(`❌ Error: ${message}`, Color.Red);
+  process.exit(1);
+}
+
+interface CredentialOptions {
+  rpcUrl: string;
+  contract?: string;
+  out?: string;
+  verify?: string;
+}
+
+function printUsage(): void {
+  log('\nUsage:', Color.Cyan);
+  log('  ts-node scripts/export-credential.ts <certificate-id> [--out <file>] [--contract <address>] [--rpc <url>]');
+  log('  ts-node scripts/export-credential.ts --verify <file> [--contract <address>] [--rpc <url>]\n');
+  log('Environment:', Color.Cyan);
+  log('  PRIVATE_KEY       Key of the issuer that issued the certificate (export only)');
+  log('  CONTRACT_ADDRESS  Default for --contract, the registry credentials are checked against');
+  log('  SEPOLIA_RPC_URL   Default for --rpc (falls back to http://127.0.0.1:8545)\n');
+}
+
+async function runExport(certificateId: string, options: CredentialOptions): Promise<void> {
+  if (!/^\d+$/.test(certificateId)) {
+    error(`Certificate ID must be a number, got "${certificateId}"`);
+  }
+  if (!options.contract || !isAddress(options.contract)) {
+    error('Pass --contract <address> or set CONTRACT_ADDRESS');
+  }
+  if (!process.env.PRIVATE_KEY) {
+    error('Set PRIVATE_KEY to the key of the certificate issuer');
+  }
+
+  const issuer = new Wallet(process.env.PRIVATE_KEY, new JsonRpcProvider(options.rpcUrl));
+  const credential = await exportCredential(issuer, options.contract, BigInt(certificateId));
+  const document = JSON.stringify(credential, null, 2);
+
+  if (options.out) {
+    fs.writeFileSync(options.out, `${document}\n`);
+    success(`Credential for certificate ${certificateId} written to ${options.out}`);
+  } else {
+    console.log(document);
+  }
+}
+
+async function runVerify(file: string, options: CredentialOptions): Promise<void> {
+  if (!fs.existsSync(file)) {
+    error(`File not found: ${file}`);
+  }
+  if (!options.contract || !isAddress(options.contract)) {
+    error('Pass --contract <address> or set CONTRACT_ADDRESS to the registry you trust');
+  }
+
+  const credential = JSON.parse(fs.readFileSync(file, 'utf-8')) as VerifiableCredential;
+  const result = await verifyCredential(credential, new JsonRpcProvider(options.rpcUrl), options.contract);
+
+  if (!result.valid) {
+    log(`\n❌ Credential is not valid${result.status ? ` (certificate status: ${result.status})` : ''}:`, Color.Red);
+    result.problems.forEach(problem => log(`  - ${problem}`, Color.Yellow));
+    process.exit(1);
+  }
+
+  success(`Credential for certificate ${credential.credentialSubject.certificateId} is valid`);
+}
+
+// Main execution
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+    printUsage();
+    process.exit(0);
+  }
+
+  const positional: string[] = [];
+  const options: CredentialOptions = {
+    rpcUrl: process.env.SEPOLIA_RPC_URL || 'http://127.0.0.1:8545',
+    contract: process.env.CONTRACT_ADDRESS,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i];
+    if (option === '--rpc' || option === '--contract' || option === '--out' || option === '--verify') {
+      const value = args[++i];
+      if (!value) {
+        error(`${option} needs a value`);
+      }
+      if (option === '--rpc') {
+        options.rpcUrl = value;
+      } else {
+        options[option.slice(2) as 'contract' | 'out' | 'verify'] = value;
+      }
+    } else if (args[i].startsWith('--')) {
+      error(`Unknown option: ${args[i]}`);
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const run = options.verify ? runVerify(options.verify, options) : runExport(positional[0] ?? '', options);
+  run.catch(err => error(err.message));
+}
+
+main();
@@ -11,6 +11,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { CATEGORIES, EXAMPLES } from './examples-registry';
 
 // Color codes for terminal output
 enum Color {
@@ -34,225 +35,41 @@ function info(message: string): void {
   log(`ℹ️  ${message}`, Color.Blue);
 }
 
-interface DocMetadata {
-  chapter: string;
-  title: string;
-  description: string;
-  category: string;
-  keyFeatures?: string[];
-  useCases?: string[];
-}
-
-const EXAMPLES_METADATA: Record<string, DocMetadata> = {
-  'fhe-counter': {
-    chapter: 'basic',
-    title: 'FHE Counter',
-    description: 'A simple counter demonstrating basic encrypted operations using FHEVM',
-    category: 'Basic Examples',
-    keyFeatures: [
-      'Encrypted counter state (euint32)',
-      'Increment and decrement operations',
-      'Access control with FHE.allow',
-      'Event emission for tracking',
-    ],
-    useCases: [
-      'Private voting systems',
-      'Confidential counters',
-      'Anonymous usage tracking',
-    ],
-  },
-  'arithmetic-operations': {
-    chapter: 'basic',
-    title: 'Arithmetic Operations',
-    description: 'Demonstrates FHE arithmetic operations including addition, subtraction, and multiplication',
-    category: 'Basic Examples',
-    keyFeatures: [
-      'FHE.add() for encrypted addition',
-      'FHE.sub() for encrypted subtraction',
-      'FHE.mul() for encrypted multiplication',
-      'Working with different encrypted types',
-    ],
-    useCases: [
-      'Private financial calculations',
-      'Confidential computations',
-      'Encrypted data processing',
-    ],
-  },
-  'comparison-operations': {
-    chapter: 'basic',
-    title: 'Comparison Operations',
-    description: 'Shows FHE comparison operations including equality and greater/less than',
-    category: 'Basic Examples',
-    keyFeatures: [
-      'FHE.eq() for equality comparison',
-      'FHE.gt() for greater than',
-      'FHE.lt() for less than',
-      'Working with ebool results',
-    ],
-  },
-  'encrypt-single-value': {
-    chapter: 'encryption',
-    title: 'Encrypt Single Value',
-    description: 'Demonstrates how to encrypt a single value using FHEVM',
-    category: 'Encryption',
-    keyFeatures: [
-      'FHE.fromExternal() usage',
-      'Input proof validation',
-      'Single value encryption',
-      'Access control setup',
-    ],
-  },
-  'encrypt-multiple-values': {
-    chapter: 'encryption',
-    title: 'Encrypt Multiple Values',
-    description: 'Shows how to encrypt and handle multiple values of different types',
-    category: 'Encryption',
-    keyFeatures: [
-      'Multi-value encryption (euint64, euint32, euint8)',
-      'Struct-based storage',
-      'Batch permission grants',
-      'Type-safe encryption',
-    ],
-  },
-  'user-decrypt-single': {
-    chapter: 'decryption',
-    title: 'User Decrypt Single Value',
-    description: 'Demonstrates user-controlled decryption of a single encrypted value',
-    category: 'Decryption',
-    keyFeatures: [
-      'User-initiated decryption',
-      'FHE.allow() for decryption permission',
-      'Request-based decryption pattern',
-      'Per-user encrypted storage',
-    ],
-  },
-  'user-decrypt-multiple': {
-    chapter: 'decryption',
-    title: 'User Decrypt Multiple Values',
-    description: 'Shows how users can decrypt multiple encrypted values',
-    category: 'Decryption',
-    keyFeatures: [
-      'Batch decryption requests',
-      'Selective value decryption',
-      'Multiple encrypted types',
-      'Efficient permission management',
-    ],
-  },
-  'public-decrypt-single': {
-    chapter: 'decryption',
-    title: 'Public Decrypt Single Value',
-    description: 'Demonstrates public decryption mechanism for making encrypted values publicly visible',
-    category: 'Decryption',
-    keyFeatures: [
-      'Public decryption workflow',
-      'KMS integration pattern',
-      'Two-phase decryption (request + fulfill)',
-      'Public data availability',
-    ],
-  },
-  'public-decrypt-multiple': {
-    chapter: 'decryption',
-    title: 'Public Decrypt Multiple Values',
-    description: 'Shows public decryption of multiple encrypted values',
-    category: 'Decryption',
-    keyFeatures: [
-      'Batch public decryption',
-      'Multiple value types',
-      'Efficient KMS callbacks',
-      'Public data structures',
-    ],
-  },
-  'access-control': {
-    chapter: 'access-control',
-    title: 'Access Control',
-    description: 'Demonstrates FHE.allow and FHE.allowTransient for managing access to encrypted values',
-    category: 'Access Control',
-    keyFeatures: [
-      'FHE.allow() for persistent access',
-      'FHE.allowTransient() for temporary access',
-      'Role-based access control',
-      'Permission management patterns',
-    ],
-  },
-  'input-proof': {
-    chapter: 'access-control',
-    title: 'Input Proof Explanation',
-    description: 'Explains what input proofs are and why they are critical for FHE security',
-    category: 'Access Control',
-    keyFeatures: [
-      'Input proof validation',
-      'Security against replay attacks',
-      'Prevention of invalid ciphertexts',
-      'User authorization verification',
-    ],
-  },
-  'anti-patterns': {
-    chapter: 'anti-patterns',
-    title: 'Common Anti-Patterns',
-    description: 'Demonstrates common mistakes and anti-patterns to avoid when working with FHEVM',
-    category: 'Anti-Patterns',
-    keyFeatures: [
-      'View function limitations',
-      'Permission management errors',
-      'Incorrect comparisons',
-      'Initialization checks',
-      'Event emission mistakes',
-    ],
-  },
-  'blind-auction': {
-    chapter: 'advanced',
-    title: 'Blind Auction',
-    description: 'Advanced sealed-bid auction implementation using FHEVM for confidential bidding',
-    category: 'Advanced',
-    keyFeatures: [
-      'Encrypted bid storage',
-      'FHE.gt() for bid comparison',
-      'FHE.cmux() for conditional selection',
-      'Multi-phase auction workflow',
-    ],
-    useCases: [
-      'Sealed-bid auctions',
-      'Confidential tendering',
-      'Private voting mechanisms',
-    ],
-  },
-};
-
 function generateDocumentation(exampleName: string): void {
-  const metadata = EXAMPLES_METADATA[exampleName];
+  const example = EXAMPLES[exampleName];
 
-  if (!metadata) {
+  if (!example) {
     log(`⚠️  No metadata found for ${exampleName}, using defaults`, Color.Yellow);
     return;
   }
 
-  const docContent = `# ${metadata.title}
+  const docContent = `# ${example.title}
 
 ## Overview
 
-${metadata.description}
+${example.description}
 
-**Category**: ${metadata.category}
-**Chapter**: ${metadata.chapter}
+**Category**: ${CATEGORIES[example.category].title}
+**Chapter**: ${example.category}
 
-${metadata.keyFeatures ? `
+${example.keyFeatures.length > 0 ? `
 ## Key Features
 
-${metadata.keyFeatures.map(f => `- ${f}`).join('\n')}
+${example.keyFeatures.map(f => `- ${f}`).join('\n')}
 ` : ''}
 
-${metadata.useCases ? `
+${example.useCases.length > 0 ? `
 ## Use Cases
 
-${metadata.useCases.map(u => `- ${u}`).join('\n')}
+${example.useCases.map(u => `- ${u}`).join('\n')}
 ` : ''}
 
 ## Implementation
 
 See the contract source code and tests for complete implementation details:
 
-- **Contract**: \`contracts/${getContractPath(metadata.chapter, exampleName)}\`
-- **Tests**: \`test/${getTestPath(metadata.chapter, exampleName)}\`
+- **Contract**: \`${example.contract}\`
+- **Tests**: \`${example.test}\`
 
 ## Quick Start
 
@@ -317,40 +134,23 @@ BSD-3-Clause-Clear
   success(`Documentation generated: docs/examples/${exampleName}.md`);
 }
 
-function getContractPath(chapter: string, exampleName: string): string {
-  const mappings: Record<string, string> = {
-    'basic': 'basic',
-    'encryption': 'encryption',
-    'decryption': 'decryption',
-    'access-control': 'access',
-    'anti-patterns': 'access',
-    'advanced': 'advanced',
-  };
-
-  return `${mappings[chapter] || chapter}/`;
-}
-
-function getTestPath(chapter: string, exampleName: string): string {
-  return getContractPath(chapter, exampleName);
-}
-
 function generateSummaryDoc(): void {
-  const categories = Array.from(
-    new Set(Object.values(EXAMPLES_METADATA).map(m => m.category))
+  const categories = Object.keys(CATEGORIES).filter(cat =>
+    Object.values(EXAMPLES).some(example => example.category === cat)
   );
 
   let summaryContent = `# FHEVM Example Hub - Documentation Summary
 
 ## Overview
 
-This documentation covers ${Object.keys(EXAMPLES_METADATA).length} FHEVM examples organized into ${categories.length} categories.
+This documentation covers ${Object.keys(EXAMPLES).length} FHEVM examples organized into ${categories.length} categories.
 
 ## Categories
 
 ${categories.map(cat => {
-    const examples = Object.entries(EXAMPLES_METADATA)
+    const examples = Object.entries(EXAMPLES)
       .filter(([_, meta]) => meta.category === cat);
-    return `### ${cat}
+    return `### ${CATEGORIES[cat].title}
 
 ${examples.map(([name, meta]) => `- [${meta.title}](./examples/${name}.md): ${meta.description}`).join('\n')}
 `;
@@ -358,8 +158,8 @@ ${examples.map(([name, meta]) => `- [${meta.title}](./examples/${name}.md): ${me
 
 ## Navigation
 
-${Object.entries(EXAMPLES_METADATA).map(([name, meta]) =>
-  `- [${meta.title}](./examples/${name}.md) - ${meta.category}`
+${Object.entries(EXAMPLES).map(([name, meta]) =>
+  `- [${meta.title}](./examples/${name}.md) - ${CATEGORIES[meta.category].title}`
 ).join('\n')}
 
 ## Quick Links
@@ -383,14 +183,14 @@ ${Object.entries(EXAMPLES_METADATA).map(([name, meta]) =>
 function generateAllDocs(): void {
   info('Generating documentation for all examples...');
 
-  Object.keys(EXAMPLES_METADATA).forEach(exampleName => {
+  Object.keys(EXAMPLES).forEach(exampleName => {
     generateDocumentation(exampleName);
   });
 
   generateSummaryDoc();
 
   log('\n' + '='.repeat(60), Color.Green);
-  success(`Generated documentation for ${Object.keys(EXAMPLES_METADATA).length} examples`);
+  success(`Generated documentation for ${Object.keys(EXAMPLES).length} examples`);
   log('='.repeat(60), Color.Green);
 }
 
@@ -402,7 +202,7 @@ function main(): void {
     log('FHEVM Documentation Generator', Color.Cyan);
     log('\nUsage: ts-node scripts/generate-docs.ts [example-name | --all]\n');
     log('Available examples:', Color.Yellow);
-    Object.entries(EXAMPLES_METADATA).forEach(([name, info]) => {
+    Object.entries(EXAMPLES).forEach(([name, info]) => {
       log(`  ${name}`, Color.Green);
       log(`    ${info.title} - ${info.description}\n`, Color.Reset);
     });
@@ -419,9 +219,9 @@ function main(): void {
   if (exampleName === '--all') {
     generateAllDocs();
   } else {
-    if (!EXAMPLES_METADATA[exampleName]) {
+    if (!EXAMPLES[exampleName]) {
       log(`❌ Unknown example: ${exampleName}`, Color.Red);
-      log(`\nAvailable examples: ${Object.keys(EXAMPLES_METADATA).join(', ')}`, Color.Yellow);
+      log(`\nAvailable examples: ${Object.keys(EXAMPLES).join(', ')}`, Color.Yellow);
       process.exit(1);
     }
     generateDocumentation(exampleName);
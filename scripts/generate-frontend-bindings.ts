@@ -0,0 +1,232 @@
+#!/usr/bin/env ts-node
+
+/**
+ * generate-frontend-bindings - Typed ethers v6 bindings for the frontend, from the Hardhat artifacts
+ *
+ * Usage: ts-node scripts/generate-frontend-bindings.ts [--check]
+ *
+ * Writes one module per contract in BOUND_CONTRACTS to frontend/src/bindings/, holding
+ * the ABI, struct types, a typed contract interface and a connect function, from the
+ * artifacts in artifacts/; with --check it only compares and exits with 1 when a binding
+ * is missing or out of date. `npx hardhat bindings [--check]` (hardhat.config.ts) compiles
+ * just the bound contracts first, so CI can run it without the example contracts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+function log(message: string, color: Color = Color.Reset): void {
+  console.log(`${color}${message}${Color.Reset}`);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function error(message: string): never {
+  log(`❌ Error: ${message}`, Color.Red);
+  process.exit(1);
+}
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+const OUTPUT_DIR = path.join(ROOT_DIR, 'frontend', 'src', 'bindings');
+
+// Contracts the frontend talks to, by source file under contracts/
+export const BOUND_CONTRACTS: Record<string, string> = {
+  PrivacyProfessionalCertificate: 'PrivacyProfessionalCertificate.sol',
+  PrivacyProfessionalCertificateViews: 'PrivacyProfessionalCertificateViews.sol',
+};
+
+interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[];
+}
+
+interface AbiFragment {
+  type: string;
+  name?: string;
+  stateMutability?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+}
+
+// Members of ethers' BaseContract that a contract function must not shadow
+const RESERVED_NAMES = new Set([
+  'target', 'interface', 'runner', 'filters', 'fallback', 'connect', 'attach', 'getAddress',
+  'getDeployedCode', 'waitForDeployment', 'deploymentTransaction', 'getFunction', 'getEvent',
+  'queryTransaction', 'queryFilter', 'on', 'once', 'emit', 'listenerCount', 'listeners', 'off',
+  'removeAllListeners', 'addListener', 'removeListener',
+]);
+
+/** Renders the binding module of one contract from its ABI. */
+function renderBindings(contractName: string, sourceFile: string, abi: AbiFragment[]): string {
+  const structs = new Map<string, string>();
+
+  // `struct PrivacyProfessionalCertificate.Issuer` becomes `Issuer`
+  const structName = (parameter: AbiParameter): string => {
+    const match = /^struct (?:\w+\.)?(\w+)/.exec(parameter.internalType ?? '');
+    if (!match) {
+      throw new Error(`Tuple ${parameter.name} of ${contractName} has no struct name`);
+    }
+    return match[1];
+  };
+
+  const outputType = (parameter: AbiParameter): string => {
+    const array = /^(.*)\[\d*\]$/.exec(parameter.type);
+    if (array) {
+      return `${outputType({ ...parameter, type: array[1], internalType: parameter.internalType?.replace(/\[\d*\]$/, '') })}[]`;
+    }
+    if (parameter.type === 'tuple') {
+      const name = `${structName(parameter)}Output`;
+      if (!structs.has(name)) {
+        structs.set(name, `export type ${name} = ${resultType(parameter.components ?? [])};`);
+      }
+      return name;
+    }
+    if (/^u?int\d*$/.test(parameter.type)) return 'bigint';
+    if (parameter.type === 'bool') return 'boolean';
+    // address, string, bytes and bytesN
+    return 'string';
+  };
+
+  const inputType = (parameter: AbiParameter): string => {
+    const array = /^(.*)\[\d*\]$/.exec(parameter.type);
+    if (array) {
+      return `${inputType({ ...parameter, type: array[1], internalType: parameter.internalType?.replace(/\[\d*\]$/, '') })}[]`;
+    }
+    if (parameter.type === 'tuple') {
+      const name = `${structName(parameter)}Input`;
+      if (!structs.has(name)) {
+        const fields = (parameter.components ?? []).map(field => `${field.name}: ${inputType(field)}`);
+        structs.set(name, `export type ${name} = { ${fields.join('; ')} };`);
+      }
+      return name;
+    }
+    if (/^u?int\d*$/.test(parameter.type)) return 'BigNumberish';
+    if (parameter.type === 'bool') return 'boolean';
+    if (parameter.type === 'address') return 'AddressLike';
+    if (parameter.type === 'string') return 'string';
+    return 'BytesLike';
+  };
+
+  // ethers returns several values as a Result: positional, and by name where the ABI names them
+  function resultType(parameters: AbiParameter[]): string {
+    const tuple = `[${parameters.map(outputType).join(', ')}]`;
+    const named = parameters.filter(parameter => parameter.name);
+    return named.length === 0
+      ? tuple
+      : `${tuple} & { ${named.map(parameter => `${parameter.name}: ${outputType(parameter)}`).join('; ')} }`;
+  }
+
+  const functions = abi.filter(fragment => fragment.type === 'function');
+  const methods = functions.map(fragment => {
+    const name = fragment.name!;
+    if (functions.filter(other => other.name === name).length > 1) {
+      throw new Error(`${contractName}.${name} is overloaded, which the bindings do not support`);
+    }
+    if (RESERVED_NAMES.has(name)) {
+      throw new Error(`${contractName}.${name} shadows a member of ethers' BaseContract`);
+    }
+
+    const readOnly = fragment.stateMutability === 'view' || fragment.stateMutability === 'pure';
+    const parameters = (fragment.inputs ?? []).map((input, i) => `${input.name || `arg${i}`}: ${inputType(input)}`);
+    parameters.push(`overrides?: ${fragment.stateMutability === 'payable' ? 'PayableOverrides' : 'Overrides'}`);
+
+    const outputs = fragment.outputs ?? [];
+    const returns = !readOnly
+      ? 'ContractTransactionResponse'
+      : outputs.length === 0 ? 'void' : outputs.length === 1 ? outputType(outputs[0]) : resultType(outputs);
+    return `  ${name}(${parameters.join(', ')}): Promise<${returns}>;`;
+  });
+
+  const abiConstant = `${contractName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_ABI`;
+  const types = ['AddressLike', 'BigNumberish', 'BytesLike', 'ContractRunner', 'ContractTransactionResponse', 'Overrides', 'PayableOverrides']
+    .filter(type => type === 'ContractRunner' || [...structs.values(), ...methods].some(line => new RegExp(`\\b${type}\\b`).test(line)));
+
+  return `// Generated by scripts/generate-frontend-bindings.ts from the ${contractName} artifact (contracts/${sourceFile}).
+// Do not edit: run \`npm run bindings\` after changing the contract.
+
+import { BaseContract, Contract } from 'ethers';
+import type { ${types.join(', ')} } from 'ethers';
+
+export const ${abiConstant} = ${JSON.stringify(abi, null, 2)} as const;
+${structs.size > 0 ? `\n${[...structs.values()].join('\n\n')}\n` : ''}
+export interface ${contractName} extends BaseContract {
+  connect(runner: ContractRunner | null): ${contractName};
+${methods.join('\n')}
+}
+
+export function connect${contractName}(address: string, runner?: ContractRunner | null): ${contractName} {
+  return new Contract(address, ${abiConstant}, runner) as unknown as ${contractName};
+}
+`;
+}
+
+function readAbi(contractName: string, sourceFile: string): AbiFragment[] {
+  const artifactPath = path.join(ROOT_DIR, 'artifacts', 'contracts', sourceFile, `${contractName}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    error(`No artifact for ${contractName}; run \`npx hardhat bindings\` instead`);
+  }
+  return JSON.parse(fs.readFileSync(artifactPath, 'utf-8')).abi;
+}
+
+/** Writes the bindings, or with `check` exits with 1 when the written ones are out of date. */
+export function generateBindings(check: boolean): void {
+  const stale: string[] = [];
+  for (const [contractName, sourceFile] of Object.entries(BOUND_CONTRACTS)) {
+    const bindings = renderBindings(contractName, sourceFile, readAbi(contractName, sourceFile));
+    const outputPath = path.join(OUTPUT_DIR, `${contractName}.ts`);
+    const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf-8') : undefined;
+
+    if (current === bindings) {
+      continue;
+    }
+    if (check) {
+      stale.push(path.relative(ROOT_DIR, outputPath));
+    } else {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+      fs.writeFileSync(outputPath, bindings);
+      success(`Generated ${path.relative(ROOT_DIR, outputPath)}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    log('\n❌ Frontend bindings do not match the compiled contracts:', Color.Red);
+    stale.forEach(file => log(`  - ${file}`, Color.Yellow));
+    log('\nRun `npm run bindings` and commit the result.\n', Color.Yellow);
+    process.exit(1);
+  }
+  success(check ? 'Frontend bindings match the compiled contracts' : 'Frontend bindings are up to date');
+}
+
+// Main execution
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    log('\nUsage: ts-node scripts/generate-frontend-bindings.ts [--check]\n', Color.Cyan);
+    log('  --check  Fail if frontend/src/bindings/ does not match the compiled contracts\n');
+    process.exit(0);
+  }
+  if (args.length > 0 && args[0] !== '--check') {
+    error(`Unknown option: ${args[0]}`);
+  }
+  generateBindings(args[0] === '--check');
+}
+
+// hardhat.config.ts imports the module for its bindings task
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,119 @@
+/**
+ * indexer-api - Read-only HTTP/JSON API over a CertificateIndexer
+ *
+ *   GET /status                          Indexed chain, contract and block
+ *   GET /certificates/:id                One certificate
+ *   GET /holders/:address/certificates   Certificates of a holder, oldest first
+ *   GET /issuers/:address                Registry entry and history of an issuer
+ *   GET /revocations                     Issuer revocations and holder withdrawals, oldest first
+ *   GET /validity-policies               Validity policies of the professions that have one
+ *   GET /requests[?status=<status>]      Requests by status; the queue (Pending) by default
+ *
+ * Responses allow any origin, so the frontend can read them from another port.
+ */
+
+import * as http from 'http';
+import { getAddress, isAddress } from 'ethers';
+import { CertificateIndexer, IndexedRequestStatus } from './certificate-indexer';
+
+const REQUEST_STATUSES: IndexedRequestStatus[] = ['Pending', 'UnderEvaluation', 'Approved', 'Rejected', 'Withdrawn'];
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function addressParam(value: string): string {
+  if (!isAddress(value)) {
+    throw new HttpError(400, `${value} is not an address`);
+  }
+  return getAddress(value);
+}
+
+// Resolves a GET path to the response body
+function route(indexer: CertificateIndexer, url: URL): unknown {
+  const registry = indexer.registry;
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  switch (segments[0]) {
+    case 'status':
+      if (segments.length === 1) {
+        return {
+          chainId: indexer.chainId,
+          contract: indexer.contractAddress,
+          lastBlock: indexer.lastBlock,
+          events: indexer.eventCount,
+          paused: registry.paused,
+        };
+      }
+      break;
+    case 'certificates':
+      if (segments.length === 2) {
+        const certificate = registry.certificates.get(segments[1]);
+        if (!certificate) {
+          throw new HttpError(404, `Certificate ${segments[1]} is not indexed`);
+        }
+        return certificate;
+      }
+      break;
+    case 'holders':
+      if (segments.length === 3 && segments[2] === 'certificates') {
+        const holder = addressParam(segments[1]);
+        return [...registry.certificates.values()].filter(certificate => certificate.holder === holder);
+      }
+      break;
+    case 'issuers':
+      if (segments.length === 2) {
+        const issuer = registry.issuers.get(addressParam(segments[1]));
+        if (!issuer) {
+          throw new HttpError(404, `${segments[1]} has no issuer history`);
+        }
+        return issuer;
+      }
+      break;
+    case 'revocations':
+      if (segments.length === 1) {
+        return registry.revocations;
+      }
+      break;
+    case 'validity-policies':
+      if (segments.length === 1) {
+        return [...registry.validityPolicies.values()];
+      }
+      break;
+    case 'requests':
+      if (segments.length === 1) {
+        const status = (url.searchParams.get('status') ?? 'Pending') as IndexedRequestStatus;
+        if (!REQUEST_STATUSES.includes(status)) {
+          throw new HttpError(400, `status must be one of ${REQUEST_STATUSES.join(', ')}`);
+        }
+        return [...registry.requests.values()].filter(request => request.status === status);
+      }
+      break;
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+/** Creates the API server; the caller decides when to `listen` and `close` it. */
+export function createIndexerServer(indexer: CertificateIndexer): http.Server {
+  return http.createServer((req, res) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, `${req.method} is not supported`);
+      }
+      body = route(indexer, new URL(req.url ?? '/', 'http://localhost'));
+    } catch (e) {
+      status = e instanceof HttpError ? e.status : 500;
+      body = { error: (e as Error).message };
+    }
+
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.end(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * project-sync - Shared write, dry-run and update logic for the scaffolding CLIs
+ *
+ * Generators build a list of planned files in memory. This module either
+ * prints them (--dry-run), writes them to a fresh directory, or re-syncs an
+ * existing project (--update) with a per-file diff and confirmation.
+ *
+ * Every generated project carries a manifest with the hash of each file as
+ * it was written, so --update can tell hub changes from local edits.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+
+export const MANIFEST_FILE = '.fhevm-hub.json';
+
+export interface PlannedFile {
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  content: string;
+}
+
+export interface ProjectManifest {
+  generator: string;
+  /** Generator-specific settings needed to regenerate the project */
+  options: Record<string, string>;
+  /** sha256 of each file as last written by the generator */
+  files: Record<string, string>;
+}
+
+export interface UpdateOptions {
+  /** Offer changes to files that were edited locally since generation */
+  force: boolean;
+  /** Accept every offered change without prompting */
+  yes: boolean;
+}
+
+export interface UpdateResult {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  skipped: string[];
+}
+
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function readManifest(projectDir: string): ProjectManifest | null {
+  const manifestPath = path.join(projectDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+}
+
+function writeManifest(projectDir: string, manifest: ProjectManifest): void {
+  fs.writeFileSync(path.join(projectDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+function writeFile(projectDir: string, file: PlannedFile): void {
+  const filePath = path.join(projectDir, file.path);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, file.content);
+}
+
+/** Writes every planned file plus the manifest into a new project directory. */
+export function writeProject(
+  projectDir: string,
+  files: PlannedFile[],
+  generator: string,
+  options: Record<string, string>
+): void {
+  const manifest: ProjectManifest = { generator, options, files: {} };
+
+  files.forEach(file => {
+    writeFile(projectDir, file);
+    manifest.files[file.path] = hash(file.content);
+  });
+
+  writeManifest(projectDir, manifest);
+}
+
+/** Renders planned paths as a directory tree. */
+export function renderTree(rootLabel: string, paths: string[]): string {
+  interface Node { [name: string]: Node }
+  const root: Node = {};
+
+  paths.forEach(filePath => {
+    let node = root;
+    filePath.split('/').forEach(part => {
+      node = node[part] = node[part] || {};
+    });
+  });
+
+  const lines = [`${rootLabel}/`];
+  const walk = (node: Node, prefix: string): void => {
+    const names = Object.keys(node).sort((a, b) => {
+      const aIsDir = Object.keys(node[a]).length > 0;
+      const bIsDir = Object.keys(node[b]).length > 0;
+      return aIsDir === bIsDir ? a.localeCompare(b) : aIsDir ? -1 : 1;
+    });
+    names.forEach((name, index) => {
+      const isLast = index === names.length - 1;
+      const isDir = Object.keys(node[name]).length > 0;
+      lines.push(`${prefix}${isLast ? '└── ' : '├── '}${name}${isDir ? '/' : ''}`);
+      if (isDir) {
+        walk(node[name], `${prefix}${isLast ? '    ' : '│   '}`);
+      }
+    });
+  };
+  walk(root, '');
+
+  return lines.join('\n');
+}
+
+/** Prints the file tree and the content of every planned file without writing anything. */
+export function printDryRun(projectDir: string, files: PlannedFile[]): void {
+  console.log(renderTree(projectDir, [...files.map(file => file.path), MANIFEST_FILE]));
+
+  files.forEach(file => {
+    console.log(`\n──── ${file.path} ────`);
+    console.log(file.content.replace(/\n$/, ''));
+  });
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-based unified diff (LCS), in the format produced by `diff -u`.
+ * Returns an empty string when both texts are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { type: ' ' | '-' | '+'; line: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      ops.push({ type: '+', line: b[j++] });
+    } else {
+      ops.push({ type: '-', line: a[i++] });
+    }
+  }
+
+  const changes = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter(index => index !== -1);
+  if (changes.length === 0) {
+    return '';
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let k = 0;
+  while (k < changes.length) {
+    const start = Math.max(0, changes[k] - context);
+    let end = changes[k];
+    while (k + 1 < changes.length && changes[k + 1] - end <= context * 2) {
+      end = changes[++k];
+    }
+    end = Math.min(ops.length, end + context + 1);
+    k++;
+
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldStart = before.filter(op => op.type !== '+').length;
+    const newStart = before.filter(op => op.type !== '-').length;
+    const oldLength = hunk.filter(op => op.type !== '+').length;
+    const newLength = hunk.filter(op => op.type !== '-').length;
+
+    output.push(
+      `@@ -${oldLength === 0 ? oldStart : oldStart + 1},${oldLength} +${newLength === 0 ? newStart : newStart + 1},${newLength} @@`
+    );
+    hunk.forEach(op => output.push(`${op.type}${op.line}`));
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Re-syncs an existing project with freshly planned files. Shows a unified
+ * diff per changed file and applies only the changes that are accepted.
+ * Files edited locally since generation are left alone unless forced.
+ */
+export async function updateProject(
+  projectDir: string,
+  files: PlannedFile[],
+  generator: string,
+  options: Record<string, string>,
+  updateOptions: UpdateOptions
+): Promise<UpdateResult> {
+  const previous = readManifest(projectDir);
+  const manifest: ProjectManifest = { generator, options, files: { ...(previous ? previous.files : {}) } };
+  const result: UpdateResult = { created: [], updated: [], unchanged: [], skipped: [] };
+  const interactive = !updateOptions.yes && Boolean(process.stdin.isTTY);
+  const rl = interactive ? readline.createInterface({ input: process.stdin, output: process.stdout }) : null;
+
+  if (!previous) {
+    console.log(`⚠️  No ${MANIFEST_FILE} found; every existing file is treated as locally modified`);
+  }
+  if (!updateOptions.yes && !interactive) {
+    console.log('⚠️  No terminal to confirm changes; showing diffs only (pass --yes to apply)');
+  }
+
+  try {
+    for (const file of files) {
+      const filePath = path.join(projectDir, file.path);
+      const exists = fs.existsSync(filePath);
+      const current = exists ? fs.readFileSync(filePath, 'utf-8') : '';
+
+      if (exists && current === file.content) {
+        manifest.files[file.path] = hash(file.content);
+        result.unchanged.push(file.path);
+        continue;
+      }
+
+      const locallyModified = exists && (!previous || previous.files[file.path] !== hash(current));
+      if (locallyModified && !updateOptions.force) {
+        console.log(`\n⏭️  ${file.path}: modified locally, skipped (use --force to review)`);
+        result.skipped.push(file.path);
+        continue;
+      }
+
+      console.log(
+        `\n${unifiedDiff(current, file.content, exists ? `a/${file.path}` : '/dev/null', `b/${file.path}`)}`
+      );
+
+      let accepted = updateOptions.yes;
+      if (rl) {
+        const answer = await rl.question(`Apply changes to ${file.path}? (y/N): `);
+        accepted = /^y(es)?$/i.test(answer.trim());
+      }
+
+      if (!accepted) {
+        result.skipped.push(file.path);
+        continue;
+      }
+
+      writeFile(projectDir, file);
+      manifest.files[file.path] = hash(file.content);
+      (exists ? result.updated : result.created).push(file.path);
+    }
+  } finally {
+    if (rl) {
+      rl.close();
+    }
+  }
+
+  writeManifest(projectDir, manifest);
+  return result;
+}
@@ -0,0 +1,132 @@
+/**
+ * resolve-dependencies - Works out which sources an example needs besides its own contract and test
+ *
+ * Follows relative Solidity `import` statements, relative test-side imports
+ * and `/// <reference path>` directives (helpers and their typings) and
+ * contracts referenced by name from test code:
+ * `getContractFactory("X")`, `getContractAt("X", ...)` and
+ * `artifacts.readArtifact("X")` (mocks and other contracts deployed or
+ * installed by the test). Package imports such as `@fhevm/solidity` are left
+ * to npm.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listFiles, toRelativePath } from './discover-examples';
+
+export interface DependencyResolution {
+  /** Repository-relative sources needed by the example, excluding its own contract and test */
+  files: string[];
+  /** Human-readable descriptions of references that could not be resolved */
+  missing: string[];
+}
+
+/**
+ * Maps every contract, library and interface name declared under contracts/
+ * to the repository-relative file that declares it.
+ */
+export function buildContractIndex(rootDir: string): Map<string, string> {
+  const index = new Map<string, string>();
+
+  listFiles(path.join(rootDir, 'contracts'), file => file.endsWith('.sol')).forEach(file => {
+    const content = fs.readFileSync(file, 'utf-8');
+    const declarations = content.matchAll(/^\s*(?:abstract\s+)?(?:contract|library|interface)\s+(\w+)/gm);
+    for (const match of declarations) {
+      if (!index.has(match[1])) {
+        index.set(match[1], toRelativePath(rootDir, file));
+      }
+    }
+  });
+
+  return index;
+}
+
+/** Returns every import path of a Solidity or TypeScript source, including triple-slash references. */
+export function parseImports(content: string): string[] {
+  const specifiers: string[] = [];
+  const patterns = [
+    /^\s*import\s+(?:[^'";]*?\s+from\s+)?["']([^"']+)["']/gm,
+    /require\(\s*["']([^"']+)["']\s*\)/g,
+    /^\/\/\/\s*<reference\s+path=["']([^"']+)["']/gm,
+  ];
+
+  patterns.forEach(pattern => {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  });
+
+  return specifiers;
+}
+
+/** Returns the contract names passed to `getContractFactory`, `getContractAt` or `readArtifact` in test code. */
+export function parseContractFactories(content: string): string[] {
+  return Array.from(
+    content.matchAll(/\b(?:getContractFactory|getContractAt|readArtifact)\(\s*["'](\w+)["']/g),
+    match => match[1]
+  );
+}
+
+/** Resolves a relative import of a repository-relative file, or returns null. */
+export function resolveRelativeImport(rootDir: string, fromFile: string, specifier: string): string | null {
+  const base = path.posix.join(path.posix.dirname(fromFile), specifier);
+  const candidates = fromFile.endsWith('.sol')
+    ? [base]
+    : [base, `${base}.ts`, `${base}.js`, `${base}/index.ts`];
+
+  return candidates.find(candidate => fs.existsSync(path.join(rootDir, candidate))) || null;
+}
+
+/**
+ * Computes the closure of sources an example needs.
+ *
+ * @param contract Repository-relative path of the example contract
+ * @param test Repository-relative path of the example test
+ */
+export function resolveDependencies(
+  rootDir: string,
+  contract: string,
+  test: string,
+  index: Map<string, string> = buildContractIndex(rootDir)
+): DependencyResolution {
+  const visited = new Set<string>();
+  const missing: string[] = [];
+  const queue = [contract, test];
+
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    if (visited.has(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    const content = fs.readFileSync(path.join(rootDir, file), 'utf-8');
+
+    parseImports(content)
+      .filter(specifier => specifier.startsWith('.'))
+      .forEach(specifier => {
+        const resolved = resolveRelativeImport(rootDir, file, specifier);
+        if (resolved) {
+          queue.push(resolved);
+        } else {
+          missing.push(`${file}: cannot resolve import "${specifier}"`);
+        }
+      });
+
+    if (!file.endsWith('.sol')) {
+      parseContractFactories(content).forEach(name => {
+        const resolved = index.get(name);
+        if (resolved) {
+          queue.push(resolved);
+        } else {
+          missing.push(`${file}: no contract named ${name} under contracts/`);
+        }
+      });
+    }
+  }
+
+  visited.delete(contract);
+  visited.delete(test);
+
+  return { files: Array.from(visited).sort(), missing };
+}
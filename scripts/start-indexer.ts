@@ -0,0 +1,160 @@
+#!/usr/bin/env ts-node
+
+/**
+ * start-indexer - Indexes PrivacyProfessionalCertificate events and serves them over HTTP
+ *
+ * Usage: ts-node scripts/start-indexer.ts [--contract <address>] [--rpc <url>] [--store <file>]
+ *        [--port <port>] [--from-block <n>] [--interval <ms>]
+ *
+ * The contract defaults to CONTRACT_ADDRESS and the RPC endpoint to SEPOLIA_RPC_URL,
+ * or a local node. Stop with Ctrl+C; the next start resumes from the store.
+ */
+
+import { JsonRpcProvider, isAddress } from 'ethers';
+import { CertificateIndexer, JsonEventStore } from './certificate-indexer';
+import { createIndexerServer } from './indexer-api';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+function log(message: string, color: Color = Color.Reset): void {
+  console.log(`${color}${message}${Color.Reset}`);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function error(message: string): never {
+  log(`❌ Error: ${message}`, Color.Red);
+  process.exit(1);
+}
+
+interface IndexerCliOptions {
+  contract?: string;
+  rpcUrl: string;
+  store: string;
+  port: number;
+  fromBlock: number;
+  interval: number;
+}
+
+function printUsage(): void {
+  log('\nUsage:', Color.Cyan);
+  log('  ts-node scripts/start-indexer.ts [--contract <address>] [--rpc <url>] [--store <file>]');
+  log('                                   [--port <port>] [--from-block <n>] [--interval <ms>]\n');
+  log('Options:', Color.Cyan);
+  log('  --store       JSON file holding the event log (default: indexer-store.json)');
+  log('  --port        Port of the HTTP API (default: 9545)');
+  log('  --from-block  Block to start from, e.g. the deployment block (default: 0)');
+  log('  --interval    Milliseconds between syncs (default: 5000)\n');
+  log('Environment:', Color.Cyan);
+  log('  CONTRACT_ADDRESS  Default for --contract');
+  log('  SEPOLIA_RPC_URL   Default for --rpc (falls back to http://127.0.0.1:8545)\n');
+}
+
+function integerOption(option: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    error(`${option} must be a non-negative integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseArgs(args: string[]): IndexerCliOptions {
+  const options: IndexerCliOptions = {
+    contract: process.env.CONTRACT_ADDRESS,
+    rpcUrl: process.env.SEPOLIA_RPC_URL || 'http://127.0.0.1:8545',
+    store: 'indexer-store.json',
+    port: 9545,
+    fromBlock: 0,
+    interval: 5000,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i];
+    const value = args[++i];
+    if (value === undefined) {
+      error(`${option} needs a value`);
+    }
+    switch (option) {
+      case '--contract':
+        options.contract = value;
+        break;
+      case '--rpc':
+        options.rpcUrl = value;
+        break;
+      case '--store':
+        options.store = value;
+        break;
+      case '--port':
+        options.port = integerOption(option, value);
+        break;
+      case '--from-block':
+        options.fromBlock = integerOption(option, value);
+        break;
+      case '--interval':
+        options.interval = integerOption(option, value);
+        break;
+      default:
+        error(`Unknown option: ${option}`);
+    }
+  }
+  return options;
+}
+
+// Main execution
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args[0] === '--help' || args[0] === '-h') {
+    printUsage();
+    process.exit(0);
+  }
+
+  const options = parseArgs(args);
+  if (!options.contract || !isAddress(options.contract)) {
+    error('Pass --contract <address> or set CONTRACT_ADDRESS');
+  }
+
+  const provider = new JsonRpcProvider(options.rpcUrl);
+  const indexer = new CertificateIndexer(provider, options.contract, new JsonEventStore(options.store), {
+    fromBlock: options.fromBlock,
+  });
+
+  log(`\n📇 Indexing ${options.contract} from ${options.rpcUrl}`, Color.Blue);
+  const first = await indexer.sync();
+  success(`Indexed ${indexer.eventCount} events up to block ${first.toBlock}`);
+
+  // Sync errors (node restarts, a block changing mid-sync) are retried on the next tick
+  const timer = setInterval(() => {
+    indexer
+      .sync()
+      .then(result => {
+        if (result.rolledBackTo !== undefined) {
+          log(`⚠️  Reorg: rolled back to block ${result.rolledBackTo}`, Color.Yellow);
+        }
+        if (result.newEvents > 0) {
+          log(`Block ${result.toBlock}: ${result.newEvents} new events`);
+        }
+      })
+      .catch(err => log(`⚠️  Sync failed: ${err.message}`, Color.Yellow));
+  }, options.interval);
+
+  const server = createIndexerServer(indexer);
+  server.listen(options.port, () => success(`API listening on http://localhost:${options.port}`));
+
+  process.on('SIGINT', () => {
+    clearInterval(timer);
+    server.close();
+    provider.destroy();
+    log('\nIndexer stopped', Color.Cyan);
+  });
+}
+
+main().catch(err => error(err.message));
@@ -0,0 +1,210 @@
+/**
+ * template-engine - Minimal placeholder templates for the scaffolding CLIs
+ *
+ * Templates live in templates/ at the repository root. An organisation can
+ * override any of them by pointing the CLIs at its own directory with the
+ * same layout (`--templates <dir>` or FHEVM_TEMPLATES_DIR); files it does not
+ * provide fall back to the built-in ones.
+ *
+ * Syntax (a small Handlebars subset):
+ *
+ *   {{name}}                      Value lookup, dotted paths allowed (`{{example.title}}`)
+ *   {{json name}}                 Value as a JSON literal (quoted and escaped)
+ *   {{#if name}}..{{else}}..{{/if}}
+ *   {{#unless name}}..{{/unless}}
+ *   {{#each list}}..{{/each}}     Inside the loop: item fields, `this`, `@index`,
+ *                                 `@number` (1-based), `@first`, `@last`
+ *
+ * Block tags that sit alone on a line are removed together with that line,
+ * so templates can be indented and laid out like the files they produce.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type TemplateContext = Record<string, unknown>;
+
+export const BUILTIN_TEMPLATES_DIR = path.resolve(__dirname, '..', 'templates');
+
+export const TEMPLATES_DIR_ENV = 'FHEVM_TEMPLATES_DIR';
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'value'; helper: string | null; name: string }
+  | { type: 'block'; keyword: 'if' | 'unless' | 'each'; name: string; body: Node[]; otherwise: Node[] };
+
+const TAG = /\{\{\s*([#/]?)([^}]*?)\s*\}\}/g;
+
+const HELPERS: Record<string, (value: unknown) => string> = {
+  json: value => JSON.stringify(value === undefined ? null : value),
+};
+
+// Drop a block tag's line when the tag is the only thing on it
+function stripStandaloneTags(source: string): string {
+  return source.replace(/^[ \t]*(\{\{\s*(?:[#/][^}]*|else)\s*\}\})[ \t]*\r?\n/gm, '$1');
+}
+
+function parse(source: string, templateName: string): Node[] {
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { type: 'block' }>; inElse: boolean }[] = [];
+  const current = (): Node[] => {
+    if (stack.length === 0) {
+      return root;
+    }
+    const top = stack[stack.length - 1];
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index as number;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const [, sigil, body] = match;
+    const parts = body.split(/\s+/).filter(Boolean);
+
+    if (sigil === '#') {
+      const [keyword, name] = parts;
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw new Error(`${templateName}: unknown block "{{#${keyword}}}"`);
+      }
+      if (!name) {
+        throw new Error(`${templateName}: "{{#${keyword}}}" needs a value`);
+      }
+      const node: Extract<Node, { type: 'block' }> = { type: 'block', keyword, name, body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      const top = stack.pop();
+      if (!top || top.node.keyword !== parts[0]) {
+        throw new Error(`${templateName}: unexpected "{{/${parts[0]}}}"`);
+      }
+    } else if (parts.length === 1 && parts[0] === 'else') {
+      if (stack.length === 0) {
+        throw new Error(`${templateName}: "{{else}}" outside of a block`);
+      }
+      stack[stack.length - 1].inElse = true;
+    } else if (parts.length === 2) {
+      if (!HELPERS[parts[0]]) {
+        throw new Error(`${templateName}: unknown helper "${parts[0]}"`);
+      }
+      current().push({ type: 'value', helper: parts[0], name: parts[1] });
+    } else if (parts.length === 1) {
+      current().push({ type: 'value', helper: null, name: parts[0] });
+    } else {
+      throw new Error(`${templateName}: cannot parse "${match[0]}"`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`${templateName}: unclosed "{{#${stack[stack.length - 1].node.keyword}}}"`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+// Look a dotted path up through the scope chain, innermost scope first
+function lookup(scopes: TemplateContext[], name: string): unknown {
+  const [head, ...rest] = name.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (head in scopes[i]) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as TemplateContext)[key] : undefined),
+        scopes[i][head]
+      );
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], scopes: TemplateContext[], templateName: string): string {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') {
+        return node.value;
+      }
+
+      const value = lookup(scopes, node.name);
+
+      if (node.type === 'value') {
+        if (node.helper) {
+          return HELPERS[node.helper](value);
+        }
+        return value === undefined || value === null ? '' : String(value);
+      }
+
+      if (node.keyword === 'each') {
+        if (value !== undefined && !Array.isArray(value)) {
+          throw new Error(`${templateName}: "{{#each ${node.name}}}" expects a list`);
+        }
+        const items = (value as unknown[] | undefined) || [];
+        if (items.length === 0) {
+          return renderNodes(node.otherwise, scopes, templateName);
+        }
+        return items
+          .map((item, index) => {
+            const itemScope: TemplateContext = item !== null && typeof item === 'object' ? { ...(item as TemplateContext) } : {};
+            Object.assign(itemScope, {
+              this: item,
+              '@index': index,
+              '@number': index + 1,
+              '@first': index === 0,
+              '@last': index === items.length - 1,
+            });
+            return renderNodes(node.body, [...scopes, itemScope], templateName);
+          })
+          .join('');
+      }
+
+      const condition = node.keyword === 'if' ? isTruthy(value) : !isTruthy(value);
+      return renderNodes(condition ? node.body : node.otherwise, scopes, templateName);
+    })
+    .join('');
+}
+
+/**
+ * Renders a template string.
+ *
+ * @param templateName Used in error messages only
+ */
+export function renderTemplate(source: string, context: TemplateContext, templateName = 'template'): string {
+  return renderNodes(parse(stripStandaloneTags(source), templateName), [context], templateName);
+}
+
+/** Resolves the organisation template directory from a CLI flag or the environment. */
+export function resolveTemplatesDir(cliValue?: string): string | undefined {
+  const dir = cliValue || process.env[TEMPLATES_DIR_ENV];
+  return dir ? path.resolve(dir) : undefined;
+}
+
+/**
+ * Finds a template file, preferring the organisation override.
+ *
+ * @param name Path relative to the templates directory, e.g. `example/README.md.tpl`
+ */
+export function findTemplate(name: string, overrideDir?: string): string {
+  const candidates = overrideDir ? [path.join(overrideDir, name)] : [];
+  candidates.push(path.join(BUILTIN_TEMPLATES_DIR, name));
+
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Template not found: ${name}`);
+  }
+  return found;
+}
+
+/** Loads and renders a template by name. */
+export function renderTemplateFile(name: string, context: TemplateContext, overrideDir?: string): string {
+  const templatePath = findTemplate(name, overrideDir);
+  return renderTemplate(fs.readFileSync(templatePath, 'utf-8'), context, name);
+}
@@ -0,0 +1,56 @@
+#!/usr/bin/env ts-node
+
+/**
+ * validate-examples - Checks the example registry against contracts/ and test/
+ *
+ * Usage: ts-node scripts/validate-examples.ts
+ *
+ * Exits with a non-zero code when a registry entry points at a missing file
+ * or a contract/test on disk is not registered.
+ */
+
+import * as path from 'path';
+import { CATEGORIES, EXAMPLES, validateRegistry } from './examples-registry';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+function log(message: string, color: Color = Color.Reset): void {
+  console.log(`${color}${message}${Color.Reset}`);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function info(message: string): void {
+  log(`ℹ️  ${message}`, Color.Blue);
+}
+
+// Main execution
+function main(): void {
+  const rootDir = path.resolve(__dirname, '..');
+
+  info(
+    `Validating ${Object.keys(EXAMPLES).length} examples in ${Object.keys(CATEGORIES).length} categories...`
+  );
+
+  const problems = validateRegistry(rootDir);
+
+  if (problems.length > 0) {
+    log(`\n❌ Found ${problems.length} problem(s):`, Color.Red);
+    problems.forEach(problem => log(`  - ${problem}`, Color.Yellow));
+    process.exit(1);
+  }
+
+  success('Example registry is consistent with contracts/ and test/');
+}
+
+main();
@@ -0,0 +1,313 @@
+/**
+ * verifiable-credential - W3C Verifiable Credentials for PrivacyProfessionalCertificate
+ *
+ * Turns an issued certificate into a Verifiable Credential (VC Data Model 1.1,
+ * JSON-LD) signed by its issuer with EIP-712 (EthereumEip712Signature2021), and
+ * verifies such a document against a registry the verifier trusts: the signature
+ * must recover to the issuing address, the certificate must still be valid, and
+ * the credential hash must match the one stored with the certificate.
+ *
+ * Only public certificate data goes into the credential; the encrypted score and
+ * level stay on-chain.
+ */
+
+import {
+  Contract,
+  Provider,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+  getAddress,
+  solidityPackedKeccak256,
+  verifyTypedData,
+} from 'ethers';
+
+export const CREDENTIAL_TYPE = 'ProfessionalCertificateCredential';
+
+const CREDENTIAL_CONTEXT = [
+  'https://www.w3.org/2018/credentials/v1',
+  'https://w3id.org/security/suites/eip712sig-2021/v1',
+];
+
+// CertificateStatus enum of the contract
+const CERTIFICATE_STATUS = ['Valid', 'Revoked', 'Suspended', 'Expired', 'Withdrawn'];
+
+const CERTIFICATE_ABI = [
+  'function verifyCertificate(uint256 _certificateId) external view returns (address holder, string memory profession, bool isValid, uint256 issueDate, uint256 expiryDate, string memory issuer, bytes32 credentialHash, uint8 status, address issuedBy)',
+  'error CertificateNotFound(uint256 certificateId)',
+];
+
+// Fields the issuer signs; the JSON-LD document carries the same values in W3C form
+export const CREDENTIAL_TYPES: Record<string, TypedDataField[]> = {
+  [CREDENTIAL_TYPE]: [
+    { name: 'certificateId', type: 'uint256' },
+    { name: 'holder', type: 'address' },
+    { name: 'profession', type: 'string' },
+    { name: 'issuer', type: 'address' },
+    { name: 'issuanceDate', type: 'uint256' },
+    { name: 'expirationDate', type: 'uint256' },
+    { name: 'credentialHash', type: 'bytes32' },
+  ],
+};
+
+export interface CredentialMessage {
+  certificateId: bigint;
+  holder: string;
+  profession: string;
+  issuer: string;
+  issuanceDate: bigint;
+  expirationDate: bigint;
+  credentialHash: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string; name: string };
+  issuanceDate: string;
+  expirationDate: string;
+  credentialSubject: {
+    id: string;
+    profession: string;
+    certificateId: string;
+    credentialHash: string;
+  };
+  credentialStatus: {
+    id: string;
+    type: string;
+    chainId: string;
+    contract: string;
+  };
+  proof: {
+    type: 'EthereumEip712Signature2021';
+    created: string;
+    proofPurpose: 'assertionMethod';
+    verificationMethod: string;
+    proofValue: string;
+    eip712: {
+      domain: TypedDataDomain;
+      types: Record<string, TypedDataField[]>;
+      primaryType: string;
+    };
+  };
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  // On-chain status of the certificate, when it could be read
+  status?: string;
+  problems: string[];
+}
+
+export function credentialDomain(chainId: bigint, contractAddress: string): TypedDataDomain {
+  return {
+    name: 'PrivacyProfessionalCertificate',
+    version: '1',
+    chainId,
+    verifyingContract: getAddress(contractAddress),
+  };
+}
+
+/** Recomputes the hash the contract stores as `hashedCredentials`. */
+export function computeCredentialHash(
+  holder: string,
+  profession: string,
+  issueDate: bigint,
+  certificateId: bigint
+): string {
+  return solidityPackedKeccak256(
+    ['address', 'string', 'uint256', 'uint256'],
+    [holder, profession, issueDate, certificateId]
+  );
+}
+
+function did(chainId: bigint, address: string): string {
+  return `did:pkh:eip155:${chainId}:${getAddress(address)}`;
+}
+
+// Accepts only did:pkh identifiers on the given chain and returns their address
+function addressFromDid(value: string, chainId: bigint): string {
+  const prefix = `did:pkh:eip155:${chainId}:`;
+  if (!value.startsWith(prefix)) {
+    throw new Error(`${value} is not an account on chain ${chainId}`);
+  }
+  return getAddress(value.slice(prefix.length));
+}
+
+function toIsoDate(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+function toSeconds(isoDate: string): bigint {
+  const milliseconds = Date.parse(isoDate);
+  if (Number.isNaN(milliseconds) || milliseconds % 1000 !== 0) {
+    throw new Error(`${isoDate} is not a whole-second date`);
+  }
+  return BigInt(milliseconds / 1000);
+}
+
+function certificateContract(contractAddress: string, runner: Provider | Signer): Contract {
+  return new Contract(contractAddress, CERTIFICATE_ABI, runner);
+}
+
+/**
+ * Reads certificate `certificateId` and returns it as a credential signed by `issuer`,
+ * which must be the address that issued the certificate.
+ */
+export async function exportCredential(
+  issuer: Signer,
+  contractAddress: string,
+  certificateId: bigint
+): Promise<VerifiableCredential> {
+  if (!issuer.provider) {
+    throw new Error('The issuer signer must be connected to a provider');
+  }
+  const { chainId } = await issuer.provider.getNetwork();
+  const certificate = await certificateContract(contractAddress, issuer).verifyCertificate(certificateId);
+  const issuerAddress = await issuer.getAddress();
+
+  if (getAddress(certificate.issuedBy) !== getAddress(issuerAddress)) {
+    throw new Error(`Certificate ${certificateId} was issued by ${certificate.issuedBy}, not ${issuerAddress}`);
+  }
+  const status = CERTIFICATE_STATUS[Number(certificate.status)];
+  if (status !== 'Valid') {
+    throw new Error(`Certificate ${certificateId} is ${status.toLowerCase()}`);
+  }
+
+  const message: CredentialMessage = {
+    certificateId,
+    holder: getAddress(certificate.holder),
+    profession: certificate.profession,
+    issuer: getAddress(issuerAddress),
+    issuanceDate: certificate.issueDate,
+    expirationDate: certificate.expiryDate,
+    credentialHash: certificate.credentialHash,
+  };
+  const domain = credentialDomain(chainId, contractAddress);
+  const proofValue = await issuer.signTypedData(domain, CREDENTIAL_TYPES, message);
+  const id = `urn:eip155:${chainId}:${getAddress(contractAddress)}:certificate:${certificateId}`;
+
+  return {
+    '@context': CREDENTIAL_CONTEXT,
+    id,
+    type: ['VerifiableCredential', CREDENTIAL_TYPE],
+    issuer: { id: did(chainId, issuerAddress), name: certificate.issuer },
+    issuanceDate: toIsoDate(message.issuanceDate),
+    expirationDate: toIsoDate(message.expirationDate),
+    credentialSubject: {
+      id: did(chainId, message.holder),
+      profession: message.profession,
+      certificateId: certificateId.toString(),
+      credentialHash: message.credentialHash,
+    },
+    credentialStatus: {
+      id,
+      type: 'PrivacyProfessionalCertificateStatus',
+      chainId: chainId.toString(),
+      contract: getAddress(contractAddress),
+    },
+    proof: {
+      type: 'EthereumEip712Signature2021',
+      created: new Date().toISOString(),
+      proofPurpose: 'assertionMethod',
+      verificationMethod: `${did(chainId, issuerAddress)}#blockchainAccountId`,
+      proofValue,
+      eip712: {
+        domain: { ...domain, chainId: chainId.toString() },
+        types: CREDENTIAL_TYPES,
+        primaryType: CREDENTIAL_TYPE,
+      },
+    },
+  };
+}
+
+/**
+ * Checks a credential's signature and compares it with the certificate in the
+ * registry at `contractAddress`, on the chain `provider` is connected to. The
+ * registry comes from the verifier, never from the document: a credential naming
+ * another contract is rejected. Expiry is judged by the latest block.
+ */
+export async function verifyCredential(
+  credential: VerifiableCredential,
+  provider: Provider,
+  contractAddress: string
+): Promise<CredentialVerification> {
+  const problems: string[] = [];
+  const { chainId } = await provider.getNetwork();
+  const registry = getAddress(contractAddress);
+
+  if (credential.credentialStatus?.chainId !== chainId.toString()) {
+    return { valid: false, problems: [`Credential is for chain ${credential.credentialStatus?.chainId}, not ${chainId}`] };
+  }
+  if (credential.credentialStatus.contract?.toLowerCase() !== registry.toLowerCase()) {
+    return { valid: false, problems: [`Credential is for registry ${credential.credentialStatus.contract}, not ${registry}`] };
+  }
+
+  // Rebuild the signed message from the document, so that any edited field breaks the signature
+  let message: CredentialMessage;
+  try {
+    message = {
+      certificateId: BigInt(credential.credentialSubject.certificateId),
+      holder: addressFromDid(credential.credentialSubject.id, chainId),
+      profession: credential.credentialSubject.profession,
+      issuer: addressFromDid(credential.issuer.id, chainId),
+      issuanceDate: toSeconds(credential.issuanceDate),
+      expirationDate: toSeconds(credential.expirationDate),
+      credentialHash: credential.credentialSubject.credentialHash,
+    };
+  } catch (e) {
+    return { valid: false, problems: [`Malformed credential: ${(e as Error).message}`] };
+  }
+
+  try {
+    const signer = verifyTypedData(
+      credentialDomain(chainId, registry),
+      CREDENTIAL_TYPES,
+      message,
+      credential.proof.proofValue
+    );
+    if (signer !== message.issuer) {
+      problems.push(`Signature is by ${signer}, not the issuer ${message.issuer}`);
+    }
+  } catch (e) {
+    problems.push('Signature is malformed');
+  }
+
+  let certificate;
+  try {
+    certificate = await certificateContract(registry, provider).verifyCertificate(message.certificateId);
+  } catch (e) {
+    return { valid: false, problems: [...problems, `Certificate ${message.certificateId} not found on chain`] };
+  }
+  const status = CERTIFICATE_STATUS[Number(certificate.status)];
+
+  if (status !== 'Valid') {
+    problems.push(`Certificate is ${status.toLowerCase()}`);
+  }
+  if (getAddress(certificate.issuedBy) !== message.issuer) {
+    problems.push(`Certificate was issued by ${certificate.issuedBy}`);
+  }
+  // The name is not signed, so it must match the one recorded with the certificate
+  if (credential.issuer.name !== certificate.issuer) {
+    problems.push('Issuer name differs from the certificate');
+  }
+  if (getAddress(certificate.holder) !== message.holder || certificate.profession !== message.profession) {
+    problems.push('Holder or profession differs from the certificate');
+  }
+  if (certificate.issueDate !== message.issuanceDate) {
+    problems.push('Issuance date differs from the certificate');
+  }
+  const expectedHash = computeCredentialHash(message.holder, message.profession, message.issuanceDate, message.certificateId);
+  if (message.credentialHash.toLowerCase() !== expectedHash || certificate.credentialHash !== expectedHash) {
+    problems.push('Credential hash does not match the certificate');
+  }
+
+  // A renewal extends the certificate but not credentials exported before it
+  const latest = await provider.getBlock('latest');
+  if (!latest || BigInt(latest.timestamp) >= message.expirationDate) {
+    problems.push('Credential has expired');
+  }
+
+  return { valid: problems.length === 0, status, problems };
+}
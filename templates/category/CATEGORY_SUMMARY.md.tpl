@@ -0,0 +1,29 @@
+# {{title}} - Summary
+
+## Category: {{categoryName}}
+
+{{description}}
+
+## Examples Included
+{{#each examples}}
+
+### {{@number}}. {{this}}
+
+This example demonstrates key concepts of the {{categoryName}} category.
+See `examples/{{this}}/` for implementation details.
+{{/each}}
+
+
+## Learning Path
+
+Start with the first example and progress through each one to build your understanding of {{categoryName}} concepts.
+
+## Quick Navigation
+
+{{#each examples}}
+- [{{this}}](./examples/{{this}}/README.md)
+{{/each}}
+
+---
+
+For the complete FHEVM documentation, visit: https://docs.zama.ai/fhevm
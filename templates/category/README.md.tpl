@@ -0,0 +1,49 @@
+# {{title}}
+
+{{description}}
+
+## Examples in This Category
+
+{{#each examples}}
+- **{{this}}**: See `examples/{{this}}/README.md`
+{{/each}}
+
+## Quick Start
+
+Each example is a standalone project in the `examples/` directory.
+
+### To run a specific example:
+
+```bash
+cd examples/<example-name>
+npm install
+npm run test
+```
+
+## Category Overview
+
+### {{title}}
+
+This category contains {{examples.length}} example(s) covering:
+
+{{#each examples}}
+{{@number}}. **{{this}}**
+{{/each}}
+
+## Prerequisites
+
+- **Node.js**: Version 20 or higher
+- **npm**: Package manager
+
+## Documentation
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM Examples](https://docs.zama.org/protocol/examples)
+
+## License
+
+All examples in this category are licensed under the BSD-3-Clause-Clear License.
+
+---
+
+**Built with FHEVM by Zama**
@@ -0,0 +1,17 @@
+# {{exampleName}}
+
+This example is part of the "{{title}}" category.
+
+## Quick Start
+
+1. Install dependencies: `npm install`
+2. Run tests: `npm run test`
+3. Compile contracts: `npm run compile`
+
+## More Information
+
+See the parent directory README for more details about this category.
+
+---
+
+For full documentation, see the main project README.
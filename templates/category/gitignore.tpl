@@ -0,0 +1,13 @@
+node_modules/
+dist/
+build/
+artifacts/
+cache/
+coverage/
+.env
+.env.local
+.hardhat-node/
+*.log
+.DS_Store
+.vscode/
+.idea/
@@ -0,0 +1,17 @@
+{
+  "name": "fhevm-examples-{{categoryName}}",
+  "version": "1.0.0",
+  "description": {{json description}},
+  "scripts": {
+    "install:all": "npm install && cd examples && for dir in */; do (cd \"$dir\" && npm install); done",
+    "test:all": "cd examples && for dir in */; do echo \"Testing $dir...\" && (cd \"$dir\" && npm test); done"
+  },
+  "keywords": [
+    "fhevm",
+    "privacy",
+    "encryption",
+    "{{categoryName}}"
+  ],
+  "author": "Zama",
+  "license": "BSD-3-Clause-Clear"
+}
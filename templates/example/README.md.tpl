@@ -0,0 +1,110 @@
+# FHEVM Example: {{exampleName}}
+
+{{description}}
+
+## Category: {{category}}
+
+## Quick Start
+
+### Prerequisites
+
+- **Node.js**: Version 20 or higher
+- **{{packageManager}}**: Package manager
+
+### Installation
+
+1. **Install dependencies**
+
+   ```bash
+   {{install}}
+   ```
+
+2. **Set up environment variables**
+
+   ```bash
+   npx hardhat vars set MNEMONIC
+   npx hardhat vars set INFURA_API_KEY
+   # Optional: Set Etherscan API key for contract verification
+   npx hardhat vars set ETHERSCAN_API_KEY
+   ```
+
+3. **Compile and test**
+
+   ```bash
+   {{run}} compile
+   {{run}} test
+   ```
+
+## Contract
+
+The main contract is `{{contractName}}` located in `contracts/{{contractName}}.sol`.
+{{#if dependencies}}
+
+Supporting files pulled in from the example hub:
+
+{{#each dependencies}}
+- `{{this}}`
+{{/each}}
+{{/if}}
+
+## Testing
+
+Run the test suite:
+
+```bash
+{{run}} test
+```
+{{#if fhevmMock}}
+
+The tests run offline against the FHEVM mock in `test/helpers/`. Like the relayer on Sepolia, its relayer answers decryption requests on its own: once a transaction that calls `FHE.requestDecryption()` is mined, the contract's callback has run. `awaitPublicDecryption(contract)` returns what it delivered, and `holdDecryptions()` keeps the next requests pending until that call.
+
+```typescript
+await contract.requestDecryption(); // the callback has run
+const [request] = await awaitPublicDecryption(contract);
+```
+{{/if}}
+
+For Sepolia testnet testing:
+
+```bash
+{{run}} test:sepolia
+```
+
+## Deployment
+
+Deploy to local network:
+
+```bash
+npx hardhat node
+npx hardhat run scripts/deploy.js --network localhost
+```
+
+Deploy to Sepolia:
+
+```bash
+npx hardhat run scripts/deploy.js --network sepolia
+```
+{{#if constructorArgs}}
+
+Constructor arguments are read from environment variables and fall back to these defaults:
+
+| Parameter | Type | Environment variable | Default |
+|-----------|------|----------------------|---------|
+{{#each constructorArgs}}
+| `{{name}}` | `{{type}}` | `{{envVar}}` | `{{defaultLabel}}` |
+{{/each}}
+{{/if}}
+
+## Documentation
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM Examples](https://docs.zama.org/protocol/examples)
+- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
+
+## License
+
+This project is licensed under the BSD-3-Clause-Clear License.
+
+---
+
+**Built with FHEVM by Zama**
@@ -0,0 +1,21 @@
+{
+  "name": "fhevm-example-{{exampleName}}",
+  "version": "1.0.0",
+  "description": {{json description}},
+  "main": "index.js",
+  "scripts": {
+    "compile": "hardhat compile",
+    "test": "hardhat test",
+    "deploy": "hardhat run scripts/deploy.js",
+    "deploy:sepolia": "HARDHAT_NETWORK=sepolia hardhat run scripts/deploy.js"
+  },
+  "devDependencies": {
+    "@nomicfoundation/hardhat-toolbox": "{{ethersPackages.toolbox}}",
+    "ethers": "{{ethersPackages.ethers}}",
+    "hardhat": "{{ethersPackages.hardhat}}"
+  },
+  "dependencies": {
+    "@fhevm/solidity": "^0.8.0"
+  },
+  "homepage": "https://github.com/fhevm-examples/{{exampleName}}"
+}
@@ -0,0 +1,58 @@
+const hre = require("hardhat");
+{{#if required}}
+
+function requireEnv(name) {
+  const value = process.env[name];
+  if (value === undefined) {
+    throw new Error(`${name} must be set to deploy {{contractName}}`);
+  }
+  return value;
+}
+{{/if}}
+
+async function main() {
+{{#if needsDeployer}}
+  const [deployer] = await hre.ethers.getSigners();
+{{/if}}
+{{#if needsTimestamp}}
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+{{/if}}
+{{#if constructorArgs}}
+{{#if needsSetup}}
+
+{{/if}}
+  // Constructor arguments; set the environment variable to override a default
+{{#each constructorArgs}}
+  /**
+{{#if description}}
+   * {{description}}
+{{/if}}
+   * Solidity type: {{type}}, env: {{envVar}}, default: {{defaultLabel}}
+   * @type { {{jsType}} }
+   */
+  const {{identifier}} = {{expression}};
+{{/each}}
+
+{{/if}}
+  console.log("Deploying {{contractName}}...");
+
+  const Contract = await hre.ethers.getContractFactory("{{contractName}}");
+  const contract = await Contract.deploy({{#each constructorArgs}}{{identifier}}{{#unless @last}}, {{/unless}}{{/each}});
+
+{{#if ethers5}}
+  await contract.deployed();
+
+  console.log("{{contractName}} deployed to:", contract.address);
+{{else}}
+  await contract.waitForDeployment();
+
+  console.log("{{contractName}} deployed to:", await contract.getAddress());
+{{/if}}
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,354 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { awaitPublicDecryption, installFhevmMock } from "./helpers/fhevm";
+import { CertificateIndexer, JsonEventStore } from "../scripts/certificate-indexer";
+import { createIndexerServer } from "../scripts/indexer-api";
+
+/**
+ * Test suite for scripts/certificate-indexer.ts and scripts/indexer-api.ts,
+ * indexing PrivacyProfessionalCertificate on the Hardhat network
+ *
+ * Not an example: listed in NON_EXAMPLE_SOURCES of scripts/examples-registry.ts.
+ */
+describe("CertificateIndexer", function () {
+  let contract: any;
+  let contractAddress: string;
+  let deploymentBlock: number;
+  let owner: any;
+  let issuer: any;
+  let applicant: any;
+  let other: any;
+  let storeFile: string;
+
+  before(async function () {
+    await installFhevmMock();
+  });
+
+  beforeEach(async function () {
+    [owner, issuer, applicant, other] = await ethers.getSigners();
+    const Factory = await ethers.getContractFactory("PrivacyProfessionalCertificate");
+    contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
+    deploymentBlock = (await contract.deploymentTransaction().wait()).blockNumber;
+    await contract.authorizeIssuer(issuer.address, "Acme Certification Board", ["Software Engineer"]);
+
+    storeFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "store.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(storeFile), { recursive: true, force: true });
+  });
+
+  function createIndexer() {
+    return new CertificateIndexer(ethers.provider, contractAddress, new JsonEventStore(storeFile), {
+      fromBlock: deploymentBlock,
+    });
+  }
+
+  // Issues a Software Engineer certificate to `holder` and returns its ID as a string
+  async function issueCertificate(holder = applicant) {
+    await contract.connect(holder).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+    await contract.connect(issuer).processCertificationRequest(await contract.getRequestCount());
+    await awaitPublicDecryption(contract);
+    return (await contract.getCertificateCount()).toString();
+  }
+
+  describe("Projection", function () {
+    it("Should index issued certificates with their request and issuer", async function () {
+      const certificateId = await issueCertificate();
+      const indexer = createIndexer();
+
+      const result = await indexer.sync();
+
+      expect(result.newEvents).to.be.greaterThan(0);
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(indexer.registry.certificates.get(certificateId)).to.include({
+        certificateId,
+        holder: applicant.address,
+        profession: "Software Engineer",
+        requestId: "1",
+        issuedBy: issuer.address,
+        status: "Active",
+        renewalCount: 0,
+      });
+      expect(indexer.registry.requests.get("1")).to.include({ status: "Approved", certificateId });
+    });
+
+    it("Should attribute a certificate to the issuer the contract records", async function () {
+      await contract.authorizeIssuer(other.address, "Globex Accreditation", ["Software Engineer"]);
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 3);
+      await contract.connect(applicant).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+      await contract.connect(issuer).processCertificationRequest(1);
+      await contract.connect(other).processCertificationRequest(1);
+      // The quorum is met without a new endorsement, so the first endorser starts the evaluation
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 2);
+      await contract.connect(issuer).processCertificationRequest(1);
+      await awaitPublicDecryption(contract);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(indexer.registry.requests.get("1")!.endorsers).to.deep.equal([issuer.address, other.address]);
+      expect((await contract.verifyCertificate(1)).issuedBy).to.equal(issuer.address);
+      expect(indexer.registry.certificates.get("1")!.issuedBy).to.equal(issuer.address);
+      expect(indexer.registry.issuers.get(issuer.address)!.certificatesIssued).to.deep.equal(["1"]);
+      expect(indexer.registry.issuers.get(other.address)!.certificatesIssued).to.deep.equal([]);
+    });
+
+    it("Should keep the registry history of an issuer", async function () {
+      const certificateId = await issueCertificate();
+      await contract.suspendIssuer(issuer.address);
+      await contract.reinstateIssuer(issuer.address);
+      await contract.revokeIssuer(issuer.address);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      const record = indexer.registry.issuers.get(issuer.address)!;
+      expect(record).to.deep.include({
+        organization: "Acme Certification Board",
+        active: false,
+        suspended: false,
+        professions: ["Software Engineer"],
+        certificatesIssued: [certificateId],
+      });
+      expect(record.history.map(event => event.name)).to.deep.equal([
+        "IssuerAuthorized",
+        "IssuerScopeUpdated",
+        "CertificationEndorsed",
+        "IssuerSuspended",
+        "IssuerReinstated",
+        "IssuerRevoked",
+      ]);
+    });
+
+    it("Should list revocations and holder withdrawals in order", async function () {
+      const revokedId = await issueCertificate();
+      const withdrawnId = await issueCertificate(other);
+      await contract.connect(issuer).revokeCertificate(revokedId, "Fraud");
+      await contract.connect(other).withdrawCertificate(withdrawnId);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(indexer.registry.revocations.map(({ certificateId, holder, kind, reason }) => ({
+        certificateId,
+        holder,
+        kind,
+        reason,
+      }))).to.deep.equal([
+        { certificateId: revokedId, holder: applicant.address, kind: "Revoked", reason: "Fraud" },
+        { certificateId: withdrawnId, holder: other.address, kind: "Withdrawn", reason: undefined },
+      ]);
+      expect(indexer.registry.certificates.get(revokedId)!.status).to.equal("Revoked");
+      expect(indexer.registry.certificates.get(withdrawnId)!.status).to.equal("Withdrawn");
+    });
+
+    it("Should follow requests through the review queue", async function () {
+      await contract.setProfessionRequirements("Software Engineer", 95, 5, 1);
+      await contract.connect(applicant).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+      await contract.connect(other).requestCertification("Software Engineer", 99, 5, "ipfs://evidence");
+      await contract.connect(owner).requestCertification("Software Engineer", 99, 5, "ipfs://evidence");
+      await contract.connect(issuer).processCertificationRequest(1);
+      await awaitPublicDecryption(contract);
+      await contract.connect(owner).withdrawRequest(3);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      const statuses = [...indexer.registry.requests.values()].map(request => request.status);
+      expect(statuses).to.deep.equal(["Rejected", "Pending", "Withdrawn"]);
+      expect(indexer.registry.requests.get("1")!.rejectionReason).to.equal("Requirements not met");
+    });
+
+    it("Should track profession validity policies and issuer periods", async function () {
+      const DAY = 24 * 60 * 60;
+      await contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY);
+      await contract.connect(issuer).setIssuerValidity("Software Engineer", 400 * DAY);
+      await contract.setProfessionValidity("Software Engineer", 500 * DAY, 365 * DAY, 600 * DAY);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(indexer.registry.validityPolicies.get("Software Engineer")).to.include({
+        period: String(500 * DAY),
+        minOverride: String(365 * DAY),
+        maxOverride: String(600 * DAY),
+      });
+      expect(indexer.registry.issuers.get(issuer.address)!.validity).to.deep.equal({
+        "Software Engineer": String(400 * DAY),
+      });
+
+      await contract.connect(issuer).setIssuerValidity("Software Engineer", 0);
+      await indexer.sync();
+
+      expect(indexer.registry.issuers.get(issuer.address)!.validity).to.deep.equal({});
+    });
+  });
+
+  describe("Sync", function () {
+    it("Should only fetch new blocks and resume from the store", async function () {
+      await issueCertificate();
+      const indexer = createIndexer();
+      const first = await indexer.sync();
+
+      await contract.emergencyPause();
+      const second = await indexer.sync();
+
+      expect(second.fromBlock).to.equal(first.toBlock + 1);
+      expect(second.newEvents).to.equal(1);
+      expect(indexer.registry.paused).to.equal(true);
+
+      const resumed = createIndexer();
+      expect(resumed.lastBlock).to.equal(second.toBlock);
+      expect(resumed.eventCount).to.equal(indexer.eventCount);
+      expect((await resumed.sync()).newEvents).to.equal(0);
+      expect(resumed.registry.certificates.size).to.equal(1);
+    });
+
+    it("Should drop the events of reorganized blocks", async function () {
+      const indexer = createIndexer();
+      await indexer.sync();
+      const snapshot = await network.provider.send("evm_snapshot");
+      const keptBlock = indexer.lastBlock;
+
+      await contract.authorizeIssuer(other.address, "Orphaned Board", ["Nurse"]);
+      await indexer.sync();
+      expect(indexer.registry.issuers.has(other.address)).to.equal(true);
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await contract.authorizeIssuer(owner.address, "Canonical Board", ["Nurse"]);
+      await network.provider.send("hardhat_mine", ["0x2"]);
+      const result = await indexer.sync();
+
+      expect(result.rolledBackTo).to.equal(keptBlock);
+      expect(indexer.registry.issuers.has(other.address)).to.equal(false);
+      expect(indexer.registry.issuers.get(owner.address)!.organization).to.equal("Canonical Board");
+      expect(createIndexer().eventCount).to.equal(indexer.eventCount);
+    });
+
+    it("Should re-fetch the untracked blocks a reorg spans", async function () {
+      const indexer = createIndexer();
+      await indexer.sync();
+      const snapshot = await network.provider.send("evm_snapshot");
+      const keptBlock = indexer.lastBlock;
+
+      // Only the block with the orphaned event is tracked after the empty ones
+      await network.provider.send("hardhat_mine", ["0x3"]);
+      await contract.authorizeIssuer(other.address, "Orphaned Board", ["Nurse"]);
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await network.provider.send("hardhat_mine", ["0x1"]);
+      await contract.authorizeIssuer(owner.address, "Canonical Board", ["Nurse"]);
+      await network.provider.send("hardhat_mine", ["0x3"]);
+      const result = await indexer.sync();
+
+      expect(result.rolledBackTo).to.equal(keptBlock);
+      expect(indexer.registry.issuers.has(other.address)).to.equal(false);
+      expect(indexer.registry.issuers.get(owner.address)!.organization).to.equal("Canonical Board");
+    });
+
+    it("Should refuse a store written for another contract", async function () {
+      await createIndexer().sync();
+
+      const indexer = new CertificateIndexer(ethers.provider, other.address, new JsonEventStore(storeFile));
+
+      let error: Error | undefined;
+      try {
+        await indexer.sync();
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain(`not ${other.address}`);
+    });
+  });
+
+  describe("HTTP API", function () {
+    let indexer: CertificateIndexer;
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async function () {
+      indexer = createIndexer();
+      server = createIndexerServer(indexer);
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      await issueCertificate();
+      await contract.connect(issuer).revokeCertificate(1, "Fraud");
+      await contract.connect(other).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+      await indexer.sync();
+    });
+
+    afterEach(async function () {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    function get(route: string): Promise<{ status: number; body: any }> {
+      return new Promise((resolve, reject) => {
+        http.get(`${baseUrl}${route}`, res => {
+          let data = "";
+          res.on("data", chunk => (data += chunk));
+          res.on("end", () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+        }).on("error", reject);
+      });
+    }
+
+    it("Should report the sync status", async function () {
+      const { status, body } = await get("/status");
+
+      expect(status).to.equal(200);
+      expect(body.contract).to.equal(contractAddress);
+      expect(body.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(body.paused).to.equal(false);
+    });
+
+    it("Should serve certificates by ID and by holder", async function () {
+      const byId = await get("/certificates/1");
+      const byHolder = await get(`/holders/${applicant.address.toLowerCase()}/certificates`);
+
+      expect(byId.body).to.include({ holder: applicant.address, status: "Revoked", revocationReason: "Fraud" });
+      expect(byHolder.body.map((certificate: any) => certificate.certificateId)).to.deep.equal(["1"]);
+    });
+
+    it("Should serve issuer history, revocations and the request queue", async function () {
+      const issuerRecord = await get(`/issuers/${issuer.address}`);
+      const revocations = await get("/revocations");
+      const queue = await get("/requests");
+      const approved = await get("/requests?status=Approved");
+
+      expect(issuerRecord.body.certificatesIssued).to.deep.equal(["1"]);
+      expect(revocations.body).to.have.length(1);
+      expect(revocations.body[0]).to.include({ certificateId: "1", kind: "Revoked" });
+      expect(queue.body.map((request: any) => request.applicant)).to.deep.equal([other.address]);
+      expect(approved.body.map((request: any) => request.requestId)).to.deep.equal(["1"]);
+    });
+
+    it("Should serve the validity policies of professions", async function () {
+      expect((await get("/validity-policies")).body).to.deep.equal([]);
+
+      await contract.setProfessionValidity("Software Engineer", 730, 365, 1095);
+      await indexer.sync();
+
+      const policies = await get("/validity-policies");
+      expect(policies.body.map(({ profession, period }: any) => ({ profession, period }))).to.deep.equal([
+        { profession: "Software Engineer", period: "730" },
+      ]);
+    });
+
+    it("Should answer unknown resources and bad parameters with errors", async function () {
+      expect((await get("/certificates/7")).status).to.equal(404);
+      expect((await get(`/issuers/${other.address}`)).status).to.equal(404);
+      expect((await get("/holders/0x1234/certificates")).status).to.equal(400);
+      expect((await get("/requests?status=Lost")).status).to.equal(400);
+      expect((await get("/nowhere")).body.error).to.equal("No route for /nowhere");
+    });
+  });
+});
@@ -0,0 +1,1811 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  awaitPublicDecryption,
+  createEncryptedInput,
+  holdDecryptions,
+  installFhevmMock,
+  userDecrypt,
+  userDecryptBool,
+} from "./helpers/fhevm";
+import { FHEVM_MOCK_ADDRESSES } from "./helpers/fhevm-mock";
+
+/**
+ * Test suite for PrivacyProfessionalCertificate, the hub's own certificate application
+ *
+ * Not an example: listed in NON_EXAMPLE_SOURCES of scripts/examples-registry.ts.
+ */
+describe("PrivacyProfessionalCertificate", function () {
+  // Professions the default issuer is accredited for
+  const SCOPE = ["Software Engineer", "Data Scientist", "Technical Writer"];
+
+  let contract: any;
+  let owner: any;
+  let issuer: any;
+  let applicant: any;
+  let other: any;
+
+  before(async function () {
+    await installFhevmMock();
+  });
+
+  beforeEach(async function () {
+    [owner, issuer, applicant, other] = await ethers.getSigners();
+    const Factory = await ethers.getContractFactory("PrivacyProfessionalCertificate");
+    contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    await contract.authorizeIssuer(issuer.address, "Acme Certification Board", SCOPE);
+  });
+
+  // Files a request and returns its ID
+  async function requestCertification(profession: string, score: number, level: number, signer: any = applicant) {
+    await contract.connect(signer).requestCertification(profession, score, level, "ipfs://evidence");
+    return contract.getRequestCount();
+  }
+
+  // Files a request with the score and level encrypted client-side and returns its ID
+  async function requestEncryptedCertification(
+    profession: string,
+    score: number,
+    level: number,
+    signer: any = applicant
+  ) {
+    const input = await createEncryptedInput(contract, signer).add64(score).add8(level).encrypt();
+    await contract
+      .connect(signer)
+      .requestEncryptedCertification(profession, input.handles[0], input.handles[1], input.inputProof, "ipfs://evidence");
+    return contract.getRequestCount();
+  }
+
+  // Has the issuer evaluate the request, then lets the decryption oracle deliver the outcome
+  async function processRequest(requestId: bigint) {
+    await contract.connect(issuer).processCertificationRequest(requestId);
+    return awaitPublicDecryption(contract);
+  }
+
+  // Issues a certificate through the full request flow and returns its ID
+  async function issueCertificate(signer: any = issuer) {
+    const requestId = await requestCertification("Software Engineer", 90, 5);
+    await contract.connect(signer).processCertificationRequest(requestId);
+    await awaitPublicDecryption(contract);
+    return contract.getCertificateCount();
+  }
+
+  // Files a renewal with a freshly encrypted score and returns its renewal request ID
+  async function requestRenewal(certificateId: bigint, score: number, signer: any = applicant) {
+    const input = await createEncryptedInput(contract, signer).add64(score).encrypt();
+    await contract.connect(signer).requestRenewal(certificateId, input.handles[0], input.inputProof);
+    return (await contract.nextRenewalRequestId()) - 1n;
+  }
+
+  // Has the issuer re-assess the renewal, then lets the decryption oracle deliver the outcome
+  async function processRenewal(renewalRequestId: bigint, signer: any = issuer) {
+    await contract.connect(signer).processRenewalRequest(renewalRequestId);
+    return awaitPublicDecryption(contract);
+  }
+
+  // CertificateStatus enum of the contract
+  const Status = { Valid: 0n, Revoked: 1n, Suspended: 2n, Expired: 3n, Withdrawn: 4n };
+
+  // DisclosurePredicate enum of the contract
+  const Predicate = { ScoreAtLeast: 0n, LevelAtLeast: 1n };
+
+  const DAY = 24 * 60 * 60;
+
+  // Holder discloses a predicate on the certificate to `other` and returns the disclosure ID
+  async function createDisclosure(certificateId: bigint, predicate: bigint, threshold: number, duration = 7 * DAY) {
+    await contract.connect(applicant).createDisclosure(certificateId, other.address, predicate, threshold, duration);
+    return (await contract.nextDisclosureId()) - 1n;
+  }
+
+  // Verifier redeems the disclosure and decrypts the predicate it was granted
+  async function redeemDisclosure(disclosureId: bigint) {
+    await contract.connect(other).redeemDisclosure(disclosureId);
+    const { result } = await contract.getDisclosure(disclosureId);
+    return userDecryptBool(result, contract, other);
+  }
+
+  // RequestStatus enum of the contract
+  const RequestStatus = { Pending: 0n, Approved: 1n, Rejected: 2n, Withdrawn: 3n };
+
+  describe("Threshold approval", function () {
+    it("Should issue a certificate when score and level meet the requirements", async function () {
+      // Software Engineer requires a score of 75 and level 3
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEvaluationRequested")
+        .withArgs(requestId, 0);
+
+      const [decision] = await awaitPublicDecryption(contract);
+      expect(decision.values).to.deep.equal([1n]);
+
+      expect(await contract.getCertificateCount()).to.equal(1);
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(true);
+      expect(await contract.getHolderCertificates(applicant.address)).to.deep.equal([1n]);
+
+      const certificate = await contract.verifyCertificate(1);
+      expect(certificate.holder).to.equal(applicant.address);
+      expect(certificate.profession).to.equal("Software Engineer");
+      expect(certificate.issuer).to.equal("Acme Certification Board");
+    });
+
+    it("Should reject a request whose score is below the requirement", async function () {
+      const requestId = await requestCertification("Software Engineer", 60, 5);
+
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      const [decision] = await awaitPublicDecryption(contract);
+      expect(decision.values).to.deep.equal([0n]);
+
+      expect(await contract.getCertificateCount()).to.equal(0);
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(false);
+    });
+
+    it("Should reject a request whose level is below the requirement", async function () {
+      const requestId = await requestCertification("Software Engineer", 95, 2);
+
+      await processRequest(requestId);
+
+      expect(await contract.getCertificateCount()).to.equal(0);
+      expect(await contract.getHolderCertificates(applicant.address)).to.deep.equal([]);
+    });
+
+    it("Should emit CertificationRejected from the oracle callback", async function () {
+      const requestId = await requestCertification("Data Scientist", 50, 1);
+
+      await processRequest(requestId);
+
+      const events = await contract.queryFilter(contract.filters.CertificationRejected(requestId));
+      expect(events.length).to.equal(1);
+      expect(events[0].args.reason).to.equal("Requirements not met");
+      expect(await contract.queryFilter(contract.filters.CertificationApproved(requestId))).to.deep.equal([]);
+    });
+  });
+
+  describe("Boundary cases", function () {
+    it("Should approve a score and level exactly at the requirements", async function () {
+      const requestId = await requestCertification("Software Engineer", 75, 3);
+
+      await processRequest(requestId);
+
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(true);
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should reject a score one point below the requirement", async function () {
+      const requestId = await requestCertification("Software Engineer", 74, 3);
+
+      await processRequest(requestId);
+
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(false);
+    });
+
+    it("Should reject a level one below the requirement", async function () {
+      const requestId = await requestCertification("Software Engineer", 75, 2);
+
+      await processRequest(requestId);
+
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(false);
+    });
+
+    it("Should approve any request for a profession without requirements", async function () {
+      const requestId = await requestCertification("Technical Writer", 0, 0);
+
+      await processRequest(requestId);
+
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should apply requirements changed by the owner", async function () {
+      await contract.setProfessionRequirements("Software Engineer", 95, 8, 1);
+      const failing = await requestCertification("Software Engineer", 90, 9);
+      const passing = await requestCertification("Software Engineer", 100, 10);
+
+      await contract.connect(issuer).processCertificationRequest(failing);
+      await contract.connect(issuer).processCertificationRequest(passing);
+      const decisions = await awaitPublicDecryption(contract);
+
+      expect(decisions.map(decision => decision.values[0])).to.deep.equal([0n, 1n]);
+      expect((await contract.certificationRequests(failing)).isApproved).to.equal(false);
+      expect((await contract.certificationRequests(passing)).isApproved).to.equal(true);
+    });
+  });
+
+  describe("Evaluation flow", function () {
+    it("Should not issue anything before the oracle answers", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      holdDecryptions();
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      const request = await contract.certificationRequests(requestId);
+      expect(request.isProcessed).to.equal(true);
+      expect(request.isApproved).to.equal(false);
+      expect(await contract.getCertificateCount()).to.equal(0);
+
+      await awaitPublicDecryption(contract);
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should keep the score and level encrypted", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await processRequest(requestId);
+
+      // Only the pass/fail outcome is made publicly decryptable
+      const request = await contract.certificationRequests(requestId);
+      const acl = await ethers.getContractAt("MockACL", FHEVM_MOCK_ADDRESSES.acl);
+      expect(await acl.isAllowedForDecryption(request.encryptedScore)).to.equal(false);
+      expect(await acl.isAllowedForDecryption(request.encryptedLevel)).to.equal(false);
+
+      await expect(await contract.connect(applicant).getEncryptedScore(1)).to.decryptTo(90n, applicant, contract);
+    });
+
+    it("Should not process a request twice", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Request already processed");
+    });
+
+    it("Should only let authorized issuers process requests", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.connect(other).processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+    });
+
+    it("Should reject an outcome not signed by the KMS", async function () {
+      const requestId = await requestCertification("Software Engineer", 60, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+      await expect(contract.connect(applicant).resolveCertificationRequest(0, forged, "0x"))
+        .to.be.revertedWithCustomError(contract, "InvalidKMSSignatures");
+    });
+  });
+
+  describe("Encrypted submission", function () {
+    it("Should file a request without revealing the score and level", async function () {
+      const input = await createEncryptedInput(contract, applicant).add64(90).add8(5).encrypt();
+
+      await expect(
+        contract
+          .connect(applicant)
+          .requestEncryptedCertification("Software Engineer", input.handles[0], input.handles[1], input.inputProof, "ipfs://evidence")
+      )
+        .to.emit(contract, "CertificationRequested")
+        .withArgs(1, applicant.address, "Software Engineer");
+
+      const request = await contract.certificationRequests(1);
+      await expect(request.encryptedScore).to.decryptTo(90n, applicant, contract);
+      await expect(request.encryptedLevel).to.decryptTo(5n, applicant, contract);
+    });
+
+    it("Should approve an encrypted request that meets the requirements", async function () {
+      const requestId = await requestEncryptedCertification("Software Engineer", 75, 3);
+
+      await processRequest(requestId);
+
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(true);
+      expect(await contract.getHolderCertificates(applicant.address)).to.deep.equal([1n]);
+    });
+
+    it("Should reject an encrypted request below the requirements", async function () {
+      const requestId = await requestEncryptedCertification("Software Engineer", 74, 3);
+
+      await processRequest(requestId);
+
+      expect((await contract.certificationRequests(requestId)).isApproved).to.equal(false);
+    });
+
+    it("Should accept out-of-range values but reject them when processed", async function () {
+      // A revert would reveal that the value is out of range, so the check stays encrypted
+      const highScore = await requestEncryptedCertification("Technical Writer", 101, 5);
+      const highLevel = await requestEncryptedCertification("Technical Writer", 100, 11);
+      const inRange = await requestEncryptedCertification("Technical Writer", 100, 10);
+
+      await contract.connect(issuer).processCertificationRequest(highScore);
+      await contract.connect(issuer).processCertificationRequest(highLevel);
+      await contract.connect(issuer).processCertificationRequest(inRange);
+      const decisions = await awaitPublicDecryption(contract);
+
+      expect(decisions.map(decision => decision.values[0])).to.deep.equal([0n, 0n, 1n]);
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should reject an input proof made for another applicant", async function () {
+      const input = await createEncryptedInput(contract, other).add64(90).add8(5).encrypt();
+
+      await expect(
+        contract
+          .connect(applicant)
+          .requestEncryptedCertification("Software Engineer", input.handles[0], input.handles[1], input.inputProof, "ipfs://evidence")
+      ).to.be.revertedWith("InputVerifier: proof is not valid for this user and contract");
+    });
+
+    it("Should reject encrypted inputs of the wrong type", async function () {
+      const input = await createEncryptedInput(contract, applicant).add8(5).add64(90).encrypt();
+
+      await expect(
+        contract
+          .connect(applicant)
+          .requestEncryptedCertification("Software Engineer", input.handles[0], input.handles[1], input.inputProof, "ipfs://evidence")
+      ).to.be.revertedWith("InputVerifier: wrong input type");
+    });
+
+    it("Should still require a profession and evidence", async function () {
+      const input = await createEncryptedInput(contract, applicant).add64(90).add8(5).encrypt();
+
+      await expect(
+        contract
+          .connect(applicant)
+          .requestEncryptedCertification("", input.handles[0], input.handles[1], input.inputProof, "ipfs://evidence")
+      ).to.be.revertedWith("Profession required");
+      await expect(
+        contract
+          .connect(applicant)
+          .requestEncryptedCertification("Software Engineer", input.handles[0], input.handles[1], input.inputProof, "")
+      ).to.be.revertedWith("Evidence required");
+    });
+  });
+
+  describe("Request lifecycle", function () {
+    it("Should move a request from pending to approved or rejected", async function () {
+      const passing = await requestCertification("Software Engineer", 90, 5);
+      const failing = await requestCertification("Software Engineer", 50, 5);
+      expect(await contract.getRequestStatus(passing)).to.equal(RequestStatus.Pending);
+
+      holdDecryptions();
+      await contract.connect(issuer).processCertificationRequest(passing);
+      // Still pending while the oracle evaluates it
+      expect(await contract.getRequestStatus(passing)).to.equal(RequestStatus.Pending);
+      await awaitPublicDecryption(contract);
+      await processRequest(failing);
+
+      expect(await contract.getRequestStatus(passing)).to.equal(RequestStatus.Approved);
+      expect(await contract.getRequestStatus(failing)).to.equal(RequestStatus.Rejected);
+      expect(await contract.rejectionReasons(failing)).to.equal("Requirements not met");
+    });
+
+    it("Should let an issuer reject a request with a reason", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, "Evidence link is broken"))
+        .to.emit(contract, "CertificationRejected")
+        .withArgs(requestId, "Evidence link is broken");
+
+      const request = await contract.certificationRequests(requestId);
+      expect(request.status).to.equal(RequestStatus.Rejected);
+      expect(request.isProcessed).to.equal(true);
+      expect(await contract.rejectionReasons(requestId)).to.equal("Evidence link is broken");
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Request already processed");
+    });
+
+    it("Should validate rejections", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.authorizeIssuer(other.address, "Globex Accreditation", ["Data Scientist"]);
+
+      await expect(contract.connect(applicant).rejectCertificationRequest(requestId, "No"))
+        .to.be.revertedWith("Not authorized issuer");
+      await expect(contract.connect(other).rejectCertificationRequest(requestId, "No"))
+        .to.be.revertedWith("Profession outside issuer scope");
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, ""))
+        .to.be.revertedWith("Reason required");
+      await expect(contract.connect(issuer).rejectCertificationRequest(2, "No"))
+        .to.be.revertedWithCustomError(contract, "RequestNotFound")
+        .withArgs(2);
+
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, "No"))
+        .to.be.revertedWith("Request already processed");
+    });
+
+    it("Should let the applicant withdraw a request no issuer has picked up", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.connect(other).withdrawRequest(requestId)).to.be.revertedWith("Not request applicant");
+      await expect(contract.connect(applicant).withdrawRequest(requestId))
+        .to.emit(contract, "CertificationRequestWithdrawn")
+        .withArgs(requestId, applicant.address);
+
+      expect(await contract.getRequestStatus(requestId)).to.equal(RequestStatus.Withdrawn);
+      await expect(contract.connect(applicant).withdrawRequest(requestId)).to.be.revertedWith("Request already processed");
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Request already processed");
+    });
+
+    it("Should not withdraw a request under evaluation", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      await expect(contract.connect(applicant).withdrawRequest(requestId)).to.be.revertedWith("Request already processed");
+    });
+
+    it("Should allow withdrawals while paused", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.emergencyPause();
+
+      await contract.connect(applicant).withdrawRequest(requestId);
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, "No"))
+        .to.be.revertedWith("Registry paused");
+    });
+
+    it("Should list an applicant's requests page by page", async function () {
+      for (const score of [90, 80, 70]) {
+        await requestCertification("Software Engineer", score, 5);
+      }
+      await requestCertification("Software Engineer", 90, 5, other);
+
+      const [firstPage, total] = await contract.getApplicantRequests(applicant.address, 0, 2);
+      expect(firstPage).to.deep.equal([1n, 2n]);
+      expect(total).to.equal(3);
+
+      const [lastPage] = await contract.getApplicantRequests(applicant.address, 2, 2);
+      expect(lastPage).to.deep.equal([3n]);
+      expect((await contract.getApplicantRequests(applicant.address, 3, 2)).requestIds).to.deep.equal([]);
+      expect((await contract.getApplicantRequests(other.address, 0, 10)).requestIds).to.deep.equal([4n]);
+    });
+
+    it("Should keep the pending queue to requests awaiting an issuer", async function () {
+      for (let i = 0; i < 4; i++) {
+        await requestCertification("Software Engineer", 90, 5);
+      }
+
+      await contract.connect(issuer).processCertificationRequest(1);
+      await contract.connect(issuer).rejectCertificationRequest(2, "Incomplete evidence");
+      await contract.connect(applicant).withdrawRequest(4);
+
+      const [queue, total] = await contract.getPendingRequests(0, 10);
+      expect(queue).to.deep.equal([3n]);
+      expect(total).to.equal(1);
+    });
+
+    it("Should page through the pending queue", async function () {
+      for (let i = 0; i < 5; i++) {
+        await requestCertification("Software Engineer", 90, 5);
+      }
+      await contract.connect(applicant).withdrawRequest(2);
+
+      const pages = [];
+      for (let offset = 0; offset < 4; offset += 3) {
+        pages.push(...(await contract.getPendingRequests(offset, 3)).requestIds);
+      }
+      expect([...pages].sort()).to.deep.equal([1n, 3n, 4n, 5n]);
+      expect((await contract.getPendingRequests(0, ethers.MaxUint256)).total).to.equal(4);
+    });
+  });
+
+  describe("Issuer registry", function () {
+    it("Should record the organization, scope and authorization time", async function () {
+      const registered = await contract.getIssuer(issuer.address);
+
+      expect(registered.account).to.equal(issuer.address);
+      expect(registered.organization).to.equal("Acme Certification Board");
+      expect(registered.professions).to.deep.equal(SCOPE);
+      expect(registered.active).to.equal(true);
+      expect(registered.authorizedAt).to.equal(await time.latest());
+      expect(await contract.authorizedIssuers(issuer.address)).to.equal(true);
+      expect(await contract.issuerScope(issuer.address, "Data Scientist")).to.equal(true);
+      expect(await contract.issuerScope(issuer.address, "Project Manager")).to.equal(false);
+    });
+
+    it("Should emit the organization and each accredited profession", async function () {
+      await expect(contract.authorizeIssuer(other.address, "Globex Accreditation", ["Project Manager"]))
+        .to.emit(contract, "IssuerAuthorized")
+        .withArgs(other.address, "Globex Accreditation")
+        .and.to.emit(contract, "IssuerScopeUpdated")
+        .withArgs(other.address, "Project Manager", true);
+    });
+
+    it("Should replace the scope when an issuer is authorized again", async function () {
+      await contract.authorizeIssuer(issuer.address, "Acme Certification Board", ["Project Manager"]);
+
+      expect((await contract.getIssuer(issuer.address)).professions).to.deep.equal(["Project Manager"]);
+      expect(await contract.issuerScope(issuer.address, "Software Engineer")).to.equal(false);
+    });
+
+    it("Should add and remove professions from the scope", async function () {
+      await expect(contract.addIssuerScope(issuer.address, "Project Manager"))
+        .to.emit(contract, "IssuerScopeUpdated")
+        .withArgs(issuer.address, "Project Manager", true);
+      await expect(contract.removeIssuerScope(issuer.address, "Software Engineer"))
+        .to.emit(contract, "IssuerScopeUpdated")
+        .withArgs(issuer.address, "Software Engineer", false);
+
+      expect(await contract.issuerScope(issuer.address, "Software Engineer")).to.equal(false);
+      expect([...(await contract.getIssuer(issuer.address)).professions].sort()).to.deep.equal(
+        ["Data Scientist", "Project Manager", "Technical Writer"]
+      );
+    });
+
+    it("Should validate registry updates", async function () {
+      await expect(contract.connect(issuer).authorizeIssuer(other.address, "Globex Accreditation", []))
+        .to.be.revertedWith("Not authorized");
+      await expect(contract.authorizeIssuer(ethers.ZeroAddress, "Globex Accreditation", []))
+        .to.be.revertedWith("Invalid issuer address");
+      await expect(contract.authorizeIssuer(other.address, "", []))
+        .to.be.revertedWith("Organization required");
+      await expect(contract.addIssuerScope(issuer.address, "Software Engineer"))
+        .to.be.revertedWith("Profession already in scope");
+      await expect(contract.removeIssuerScope(issuer.address, "Project Manager"))
+        .to.be.revertedWith("Profession not in scope");
+      await expect(contract.addIssuerScope(other.address, "Project Manager"))
+        .to.be.revertedWith("Issuer not active");
+    });
+
+    it("Should only let issuers certify professions within their scope", async function () {
+      const requestId = await requestCertification("Cybersecurity Specialist", 95, 5);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Profession outside issuer scope");
+
+      await contract.addIssuerScope(issuer.address, "Cybersecurity Specialist");
+      await processRequest(requestId);
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should not let the owner certify without being a registered issuer", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+    });
+
+    it("Should stop a revoked issuer from certifying", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await expect(contract.revokeIssuer(issuer.address))
+        .to.emit(contract, "IssuerRevoked")
+        .withArgs(issuer.address);
+
+      expect(await contract.authorizedIssuers(issuer.address)).to.equal(false);
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+      await expect(contract.revokeIssuer(issuer.address)).to.be.revertedWith("Issuer not active");
+    });
+
+    it("Should record the issuing address and report its registered organization", async function () {
+      const certificateId = await issueCertificate();
+
+      expect((await contract.certificates(certificateId)).issuedBy).to.equal(issuer.address);
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.issuedBy).to.equal(issuer.address);
+      expect(certificate.issuer).to.equal("Acme Certification Board");
+    });
+
+    it("Should keep naming the organization after the issuer is revoked", async function () {
+      const certificateId = await issueCertificate();
+      await contract.revokeIssuer(issuer.address);
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.issuer).to.equal("Acme Certification Board");
+      expect(certificate.status).to.equal(Status.Valid);
+    });
+  });
+
+  describe("Emergency pause", function () {
+    it("Should pause and unpause with events", async function () {
+      await expect(contract.emergencyPause()).to.emit(contract, "Paused").withArgs(owner.address);
+      expect(await contract.paused()).to.equal(true);
+
+      await expect(contract.unpause()).to.emit(contract, "Unpaused").withArgs(owner.address);
+      expect(await contract.paused()).to.equal(false);
+    });
+
+    it("Should only let the owner pause and unpause", async function () {
+      await expect(contract.connect(issuer).emergencyPause()).to.be.revertedWith("Not authorized");
+
+      await contract.emergencyPause();
+      await expect(contract.connect(issuer).unpause()).to.be.revertedWith("Not authorized");
+      await expect(contract.emergencyPause()).to.be.revertedWith("Registry paused");
+    });
+
+    it("Should reject unpausing a registry that is not paused", async function () {
+      await expect(contract.unpause()).to.be.revertedWith("Registry not paused");
+    });
+
+    it("Should block new requests while paused", async function () {
+      await contract.emergencyPause();
+
+      await expect(requestCertification("Software Engineer", 90, 5)).to.be.revertedWith("Registry paused");
+      await expect(requestEncryptedCertification("Software Engineer", 90, 5)).to.be.revertedWith("Registry paused");
+    });
+
+    it("Should block processing while paused", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.emergencyPause();
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Registry paused");
+    });
+
+    it("Should block revocation and renewal while paused", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+      await contract.emergencyPause();
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Fraud"))
+        .to.be.revertedWith("Registry paused");
+      await expect(requestRenewal(certificateId, 90)).to.be.revertedWith("Registry paused");
+      await expect(contract.connect(issuer).processRenewalRequest(renewalRequestId))
+        .to.be.revertedWith("Registry paused");
+    });
+
+    it("Should complete evaluations started before the pause", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.emergencyPause();
+
+      await awaitPublicDecryption(contract);
+
+      expect(await contract.getCertificateCount()).to.equal(1);
+    });
+
+    it("Should report every certificate as suspended until unpaused", async function () {
+      const certificateId = await issueCertificate();
+      await contract.emergencyPause();
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.status).to.equal(Status.Suspended);
+      expect(certificate.isValid).to.equal(false);
+
+      await contract.unpause();
+      expect(await contract.getCertificateStatus(certificateId)).to.equal(Status.Valid);
+    });
+  });
+
+  describe("Issuer suspension", function () {
+    it("Should suspend and reinstate an issuer with events", async function () {
+      await expect(contract.suspendIssuer(issuer.address))
+        .to.emit(contract, "IssuerSuspended")
+        .withArgs(issuer.address);
+      expect(await contract.suspendedIssuers(issuer.address)).to.equal(true);
+
+      await expect(contract.reinstateIssuer(issuer.address))
+        .to.emit(contract, "IssuerReinstated")
+        .withArgs(issuer.address);
+      expect(await contract.suspendedIssuers(issuer.address)).to.equal(false);
+    });
+
+    it("Should only let the owner suspend issuers", async function () {
+      await expect(contract.connect(other).suspendIssuer(issuer.address)).to.be.revertedWith("Not authorized");
+      await expect(contract.reinstateIssuer(issuer.address)).to.be.revertedWith("Issuer not suspended");
+
+      await contract.suspendIssuer(issuer.address);
+      await expect(contract.suspendIssuer(issuer.address)).to.be.revertedWith("Issuer already suspended");
+    });
+
+    it("Should only freeze certificates issued by the suspended issuer", async function () {
+      await contract.authorizeIssuer(other.address, "Globex Accreditation", ["Software Engineer"]);
+      const fromIssuer = await issueCertificate(issuer);
+      const fromOther = await issueCertificate(other);
+
+      await contract.suspendIssuer(issuer.address);
+
+      expect(await contract.getCertificateStatus(fromIssuer)).to.equal(Status.Suspended);
+      expect(await contract.getCertificateStatus(fromOther)).to.equal(Status.Valid);
+
+      await contract.reinstateIssuer(issuer.address);
+      expect(await contract.getCertificateStatus(fromIssuer)).to.equal(Status.Valid);
+    });
+
+    it("Should not let anyone revoke or renew frozen certificates", async function () {
+      const certificateId = await issueCertificate(issuer);
+      await contract.suspendIssuer(issuer.address);
+
+      await expect(contract.revokeCertificate(certificateId, "Fraud")).to.be.revertedWith("Issuer suspended");
+      await expect(requestRenewal(certificateId, 90)).to.be.revertedWith("Certificate cannot be renewed");
+    });
+
+    it("Should stop a suspended issuer from processing requests", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.suspendIssuer(issuer.address);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Issuer suspended");
+    });
+  });
+
+  describe("Renewal", function () {
+    it("Should extend the certificate by one validity period when the new score passes", async function () {
+      const certificateId = await issueCertificate();
+      const { expiryDate } = await contract.verifyCertificate(certificateId);
+      const renewalRequestId = await requestRenewal(certificateId, 80);
+
+      await processRenewal(renewalRequestId);
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.expiryDate).to.equal(expiryDate + (await contract.CERTIFICATE_VALIDITY()));
+      expect(certificate.status).to.equal(Status.Valid);
+      expect((await contract.certificates(certificateId)).renewalCount).to.equal(1);
+
+      const renewal = await contract.renewalRequests(renewalRequestId);
+      expect(renewal.isProcessed).to.equal(true);
+      expect(renewal.isApproved).to.equal(true);
+    });
+
+    it("Should emit RenewalRequested and CertificateRenewed", async function () {
+      const certificateId = await issueCertificate();
+      const input = await createEncryptedInput(contract, applicant).add64(90).encrypt();
+
+      await expect(contract.connect(applicant).requestRenewal(certificateId, input.handles[0], input.inputProof))
+        .to.emit(contract, "RenewalRequested")
+        .withArgs(1, certificateId, applicant.address);
+
+      await expect(contract.connect(issuer).processRenewalRequest(1))
+        .to.emit(contract, "RenewalEvaluationRequested");
+      await awaitPublicDecryption(contract);
+
+      const events = await contract.queryFilter(contract.filters.CertificateRenewed(certificateId));
+      expect(events.length).to.equal(1);
+      expect(events[0].args.renewalRequestId).to.equal(1);
+    });
+
+    it("Should replace the certified score with the renewal score", async function () {
+      const certificateId = await issueCertificate();
+      await processRenewal(await requestRenewal(certificateId, 82));
+
+      await expect(await contract.connect(applicant).getEncryptedScore(certificateId))
+        .to.decryptTo(82n, applicant, contract);
+    });
+
+    it("Should reject a renewal whose score is below the requirement", async function () {
+      const certificateId = await issueCertificate();
+      const { expiryDate } = await contract.verifyCertificate(certificateId);
+      const renewalRequestId = await requestRenewal(certificateId, 74);
+
+      await processRenewal(renewalRequestId);
+
+      const events = await contract.queryFilter(contract.filters.RenewalRejected(renewalRequestId));
+      expect(events.length).to.equal(1);
+      expect(events[0].args.reason).to.equal("Requirements not met");
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.expiryDate).to.equal(expiryDate);
+      expect((await contract.certificates(certificateId)).renewalCount).to.equal(0);
+    });
+
+    it("Should approve a renewal score exactly at the requirement", async function () {
+      const certificateId = await issueCertificate();
+      await processRenewal(await requestRenewal(certificateId, 75));
+
+      expect((await contract.certificates(certificateId)).renewalCount).to.equal(1);
+    });
+
+    it("Should reject a renewal score above 100", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 101);
+      await processRenewal(renewalRequestId);
+
+      expect((await contract.renewalRequests(renewalRequestId)).isApproved).to.equal(false);
+    });
+
+    it("Should assess renewals against the current requirements", async function () {
+      const certificateId = await issueCertificate();
+      await contract.setProfessionRequirements("Software Engineer", 95, 3, 1);
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+      await processRenewal(renewalRequestId);
+      expect((await contract.renewalRequests(renewalRequestId)).isApproved).to.equal(false);
+
+      // The certified level is re-checked as well
+      await contract.setProfessionRequirements("Software Engineer", 75, 6, 1);
+      const levelRenewalId = await requestRenewal(certificateId, 90);
+      await processRenewal(levelRenewalId);
+      expect((await contract.renewalRequests(levelRenewalId)).isApproved).to.equal(false);
+    });
+
+    it("Should restart the validity period from the renewal when the certificate has expired", async function () {
+      const certificateId = await issueCertificate();
+      await time.increase(400 * 24 * 60 * 60);
+      expect(await contract.getCertificateStatus(certificateId)).to.equal(Status.Expired);
+
+      await processRenewal(await requestRenewal(certificateId, 90));
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.expiryDate).to.equal(BigInt(await time.latest()) + (await contract.CERTIFICATE_VALIDITY()));
+      expect(certificate.status).to.equal(Status.Valid);
+    });
+
+    it("Should count approved renewals and record every decision in the history", async function () {
+      const certificateId = await issueCertificate();
+      const { expiryDate } = await contract.verifyCertificate(certificateId);
+      const validity = await contract.CERTIFICATE_VALIDITY();
+
+      await processRenewal(await requestRenewal(certificateId, 90));
+      await processRenewal(await requestRenewal(certificateId, 40));
+      await processRenewal(await requestRenewal(certificateId, 85));
+
+      expect((await contract.certificates(certificateId)).renewalCount).to.equal(2);
+
+      const history = await contract.getRenewalHistory(certificateId);
+      expect(history.map((record: any) => record.renewalRequestId)).to.deep.equal([1n, 2n, 3n]);
+      expect(history.map((record: any) => record.approved)).to.deep.equal([true, false, true]);
+      expect(history[0].issuer).to.equal(issuer.address);
+      expect(history[0].previousExpiry).to.equal(expiryDate);
+      expect(history[0].newExpiry).to.equal(expiryDate + validity);
+      expect(history[1].newExpiry).to.equal(history[1].previousExpiry);
+      expect(history[2].newExpiry).to.equal(expiryDate + 2n * validity);
+    });
+
+    it("Should only let the holder request a renewal", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(requestRenewal(certificateId, 90, other)).to.be.revertedWith("Not certificate holder");
+      await expect(requestRenewal(99n, 90))
+        .to.be.revertedWithCustomError(contract, "CertificateNotFound")
+        .withArgs(99);
+    });
+
+    it("Should allow one pending renewal per certificate", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+
+      await expect(requestRenewal(certificateId, 90)).to.be.revertedWith("Renewal already pending");
+
+      holdDecryptions();
+      await contract.connect(issuer).processRenewalRequest(renewalRequestId);
+      await expect(requestRenewal(certificateId, 90)).to.be.revertedWith("Renewal already pending");
+
+      await awaitPublicDecryption(contract);
+      expect(await contract.pendingRenewal(certificateId)).to.equal(0);
+      await requestRenewal(certificateId, 90);
+    });
+
+    it("Should not renew a revoked certificate", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      await expect(contract.connect(issuer).processRenewalRequest(renewalRequestId))
+        .to.be.revertedWith("Certificate cannot be renewed");
+      await expect(requestRenewal(certificateId, 90)).to.be.revertedWith("Certificate cannot be renewed");
+    });
+
+    it("Should only let issuers accredited for the profession process renewals", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+      await contract.authorizeIssuer(other.address, "Globex Accreditation", ["Data Scientist"]);
+
+      await expect(contract.connect(applicant).processRenewalRequest(renewalRequestId))
+        .to.be.revertedWith("Not authorized issuer");
+      await expect(contract.connect(other).processRenewalRequest(renewalRequestId))
+        .to.be.revertedWith("Profession outside issuer scope");
+      await expect(contract.connect(issuer).processRenewalRequest(2))
+        .to.be.revertedWithCustomError(contract, "RenewalRequestNotFound")
+        .withArgs(2);
+
+      await contract.connect(issuer).processRenewalRequest(renewalRequestId);
+      await expect(contract.connect(issuer).processRenewalRequest(renewalRequestId))
+        .to.be.revertedWith("Renewal already processed");
+    });
+  });
+
+  describe("Selective disclosure", function () {
+    it("Should let the verifier learn that the score meets a threshold", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+
+      expect(await redeemDisclosure(disclosureId)).to.equal(true);
+    });
+
+    it("Should let the verifier learn that the score misses a threshold", async function () {
+      const certificateId = await issueCertificate();
+
+      expect(await redeemDisclosure(await createDisclosure(certificateId, Predicate.ScoreAtLeast, 91))).to.equal(false);
+      expect(await redeemDisclosure(await createDisclosure(certificateId, Predicate.ScoreAtLeast, 90))).to.equal(true);
+    });
+
+    it("Should disclose level predicates", async function () {
+      const certificateId = await issueCertificate();
+
+      expect(await redeemDisclosure(await createDisclosure(certificateId, Predicate.LevelAtLeast, 5))).to.equal(true);
+      expect(await redeemDisclosure(await createDisclosure(certificateId, Predicate.LevelAtLeast, 6))).to.equal(false);
+    });
+
+    it("Should not give the verifier the score itself", async function () {
+      // Encrypted inputs get fresh handles; plaintext scores map to handles shared with earlier tests
+      await processRequest(await requestEncryptedCertification("Software Engineer", 88, 5));
+      const certificateId = await contract.getCertificateCount();
+      await redeemDisclosure(await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80));
+      const { encryptedScore } = await contract.certificates(certificateId);
+
+      let error: Error | undefined;
+      try {
+        await userDecrypt(encryptedScore, contract, other);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("is not allowed to decrypt");
+      await expect(contract.connect(other).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Not authorized to view score");
+    });
+
+    it("Should keep the predicate private to the verifier", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+      await contract.connect(other).redeemDisclosure(disclosureId);
+      const { result } = await contract.getDisclosure(disclosureId);
+
+      let error: Error | undefined;
+      try {
+        await userDecrypt(result, contract, issuer);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("is not allowed to decrypt");
+    });
+
+    it("Should record and emit the disclosure terms", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(applicant).createDisclosure(certificateId, other.address, Predicate.ScoreAtLeast, 80, DAY))
+        .to.emit(contract, "DisclosureCreated")
+        .withArgs(1, certificateId, other.address, Predicate.ScoreAtLeast, 80, (await time.latest()) + 1 + DAY);
+
+      const disclosure = await contract.getDisclosure(1);
+      expect(disclosure.certificateId).to.equal(certificateId);
+      expect(disclosure.verifier).to.equal(other.address);
+      expect(disclosure.threshold).to.equal(80);
+      expect(disclosure.redeemed).to.equal(false);
+      expect(await contract.getCertificateDisclosures(certificateId)).to.deep.equal([1n]);
+      expect(await contract.getVerifierDisclosures(other.address)).to.deep.equal([1n]);
+    });
+
+    it("Should validate new disclosures", async function () {
+      const certificateId = await issueCertificate();
+      const disclose = (signer: any, verifier: string, predicate: bigint, threshold: number, duration: number) =>
+        contract.connect(signer).createDisclosure(certificateId, verifier, predicate, threshold, duration);
+
+      await expect(disclose(other, other.address, Predicate.ScoreAtLeast, 80, DAY)).to.be.revertedWith("Not certificate holder");
+      await expect(disclose(applicant, ethers.ZeroAddress, Predicate.ScoreAtLeast, 80, DAY))
+        .to.be.revertedWith("Invalid verifier address");
+      await expect(disclose(applicant, applicant.address, Predicate.ScoreAtLeast, 80, DAY))
+        .to.be.revertedWith("Invalid verifier address");
+      await expect(disclose(applicant, other.address, Predicate.ScoreAtLeast, 80, 0))
+        .to.be.revertedWith("Invalid disclosure duration");
+      await expect(disclose(applicant, other.address, Predicate.ScoreAtLeast, 80, 31 * DAY))
+        .to.be.revertedWith("Invalid disclosure duration");
+      await expect(disclose(applicant, other.address, Predicate.ScoreAtLeast, 101, DAY))
+        .to.be.revertedWith("Score must be between 0-100");
+      await expect(disclose(applicant, other.address, Predicate.LevelAtLeast, 11, DAY))
+        .to.be.revertedWith("Level must be between 1-10");
+    });
+
+    it("Should only let the named verifier redeem a disclosure, once", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+
+      await expect(contract.connect(issuer).redeemDisclosure(disclosureId)).to.be.revertedWith("Not disclosure verifier");
+      await expect(contract.connect(other).redeemDisclosure(disclosureId))
+        .to.emit(contract, "DisclosureRedeemed")
+        .withArgs(disclosureId, other.address);
+      await expect(contract.connect(other).redeemDisclosure(disclosureId)).to.be.revertedWith("Disclosure already redeemed");
+    });
+
+    it("Should expire disclosures that were not redeemed in time", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80, DAY);
+
+      await time.increase(DAY);
+
+      await expect(contract.connect(other).redeemDisclosure(disclosureId)).to.be.revertedWith("Disclosure expired");
+    });
+
+    it("Should let the holder revoke a disclosure before it is redeemed", async function () {
+      const certificateId = await issueCertificate();
+      const revoked = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+      const redeemed = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 70);
+
+      await expect(contract.connect(other).revokeDisclosure(revoked)).to.be.revertedWith("Not certificate holder");
+      await expect(contract.connect(applicant).revokeDisclosure(revoked))
+        .to.emit(contract, "DisclosureRevoked")
+        .withArgs(revoked);
+      await expect(contract.connect(applicant).revokeDisclosure(revoked)).to.be.revertedWith("Disclosure revoked");
+      await expect(contract.connect(other).redeemDisclosure(revoked)).to.be.revertedWith("Disclosure revoked");
+
+      await contract.connect(other).redeemDisclosure(redeemed);
+      await expect(contract.connect(applicant).revokeDisclosure(redeemed)).to.be.revertedWith("Disclosure already redeemed");
+    });
+
+    it("Should only disclose valid certificates", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      await expect(contract.connect(other).redeemDisclosure(disclosureId)).to.be.revertedWith("Certificate not valid");
+      await expect(createDisclosure(certificateId, Predicate.ScoreAtLeast, 80)).to.be.revertedWith("Certificate not valid");
+    });
+
+    it("Should evaluate the score the certificate holds at redemption", async function () {
+      const certificateId = await issueCertificate();
+      const disclosureId = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 85);
+      await processRenewal(await requestRenewal(certificateId, 80));
+
+      expect(await redeemDisclosure(disclosureId)).to.equal(false);
+    });
+
+    it("Should reject unknown disclosure IDs", async function () {
+      await expect(contract.getDisclosure(0)).to.be.revertedWithCustomError(contract, "DisclosureNotFound").withArgs(0);
+      await expect(contract.connect(other).redeemDisclosure(1))
+        .to.be.revertedWithCustomError(contract, "DisclosureNotFound")
+        .withArgs(1);
+    });
+  });
+
+  describe("Certificate status", function () {
+    it("Should report revoked distinctly from suspended", async function () {
+      const revoked = await issueCertificate(issuer);
+      await contract.connect(issuer).revokeCertificate(revoked, "Fraud");
+      const suspended = await issueCertificate(issuer);
+      await contract.suspendIssuer(issuer.address);
+
+      // Revocation is permanent, so it takes precedence over a suspension
+      expect(await contract.getCertificateStatus(revoked)).to.equal(Status.Revoked);
+      expect(await contract.getCertificateStatus(suspended)).to.equal(Status.Suspended);
+    });
+
+    it("Should report expired certificates", async function () {
+      const certificateId = await issueCertificate();
+
+      await time.increase(366 * 24 * 60 * 60);
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.status).to.equal(Status.Expired);
+      expect(certificate.isValid).to.equal(false);
+    });
+
+  });
+
+  describe("Issuance", function () {
+    it("Should issue the certificate to the applicant with a one-year validity", async function () {
+      const requestId = await requestCertification("Data Scientist", 85, 4);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await awaitPublicDecryption(contract);
+      const issuedAt = BigInt(await time.latest());
+
+      const certificate = await contract.verifyCertificate(1);
+      expect(certificate.holder).to.equal(applicant.address);
+      expect(certificate.profession).to.equal("Data Scientist");
+      expect(certificate.issueDate).to.equal(issuedAt);
+      expect(certificate.expiryDate).to.equal(issuedAt + (await contract.CERTIFICATE_VALIDITY()));
+      expect(certificate.issuedBy).to.equal(issuer.address);
+      expect(await contract.getHolderCertificates(applicant.address)).to.deep.equal([1n]);
+    });
+
+    it("Should emit CertificateIssued and CertificationApproved with the new ID", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await processRequest(requestId);
+
+      const [issued] = await contract.queryFilter(contract.filters.CertificateIssued(1));
+      expect(issued.args.holder).to.equal(applicant.address);
+      expect(issued.args.profession).to.equal("Software Engineer");
+      const [approved] = await contract.queryFilter(contract.filters.CertificationApproved(requestId));
+      expect(approved.args.certificateId).to.equal(1);
+    });
+
+    it("Should derive the credential hash from holder, profession, issue time and ID", async function () {
+      const certificateId = await issueCertificate();
+      const certificate = await contract.verifyCertificate(certificateId);
+
+      expect(certificate.credentialHash).to.equal(
+        ethers.solidityPackedKeccak256(
+          ["address", "string", "uint256", "uint256"],
+          [applicant.address, "Software Engineer", certificate.issueDate, certificateId]
+        )
+      );
+    });
+
+    it("Should number certificates and requests consecutively from 1", async function () {
+      expect(await contract.getCertificateCount()).to.equal(0);
+      expect(await contract.getRequestCount()).to.equal(0);
+
+      const first = await issueCertificate();
+      const second = await issueCertificate();
+
+      expect([first, second]).to.deep.equal([1n, 2n]);
+      expect(await contract.getRequestCount()).to.equal(2);
+      expect(await contract.nextCertificateId()).to.equal(3);
+      expect(await contract.getHolderCertificates(applicant.address)).to.deep.equal([1n, 2n]);
+    });
+
+    it("Should keep certificate IDs apart from request IDs", async function () {
+      await requestCertification("Software Engineer", 10, 1);
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await processRequest(requestId);
+
+      expect(await contract.getCertificateCount()).to.equal(1);
+      const [approved] = await contract.queryFilter(contract.filters.CertificationApproved(2));
+      expect(approved.args.certificateId).to.equal(1);
+    });
+  });
+
+  describe("Verification", function () {
+    it("Should report a fresh certificate as valid and name the issuing organization", async function () {
+      const certificateId = await issueCertificate();
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.isValid).to.equal(true);
+      expect(certificate.status).to.equal(Status.Valid);
+      expect(certificate.issuer).to.equal("Acme Certification Board");
+    });
+
+    it("Should let anyone verify a certificate", async function () {
+      const certificateId = await issueCertificate();
+
+      expect((await contract.connect(other).verifyCertificate(certificateId)).holder).to.equal(applicant.address);
+    });
+
+    it("Should let only the holder, issuers and the owner read the encrypted score and level", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(await contract.connect(applicant).getEncryptedLevel(certificateId))
+        .to.decryptTo(5n, applicant, contract);
+      expect(await contract.connect(issuer).getEncryptedScore(certificateId)).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await contract.getEncryptedLevel(certificateId)).to.match(/^0x[0-9a-f]{64}$/);
+      await expect(contract.connect(other).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Not authorized to view score");
+      await expect(contract.connect(other).getEncryptedLevel(certificateId))
+        .to.be.revertedWith("Not authorized to view level");
+    });
+  });
+
+  describe("Registry views", function () {
+    let views: any;
+
+    beforeEach(async function () {
+      const Views = await ethers.getContractFactory("PrivacyProfessionalCertificateViews");
+      views = await Views.deploy(await contract.getAddress());
+      await views.waitForDeployment();
+    });
+
+    // Issues a certificate for `profession` to `signer` and returns its ID
+    async function issueFor(profession: string, signer: any = applicant, by: any = issuer) {
+      const requestId = await requestCertification(profession, 90, 5, signer);
+      await contract.connect(by).processCertificationRequest(requestId);
+      await awaitPublicDecryption(contract);
+      return contract.getCertificateCount();
+    }
+
+    const ids = (page: any[]) => page.map(summary => summary.certificateId);
+
+    it("Should page through all certificates by ID", async function () {
+      await issueFor("Software Engineer");
+      await issueFor("Data Scientist");
+      await issueFor("Technical Writer");
+
+      const first = await views.getCertificates(0, 2);
+      expect(ids(first.page)).to.deep.equal([1n, 2n]);
+      expect(first.total).to.equal(3);
+      expect(ids((await views.getCertificates(2, 2)).page)).to.deep.equal([3n]);
+      expect((await views.getCertificates(3, 2)).page).to.deep.equal([]);
+      expect(ids((await views.getCertificates(1, ethers.MaxUint256)).page)).to.deep.equal([2n, 3n]);
+    });
+
+    it("Should summarize the public fields and current status", async function () {
+      const certificateId = await issueFor("Data Scientist");
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      const [summary] = (await views.getCertificates(0, 1)).page;
+      const certificate = await contract.certificates(certificateId);
+      expect(summary.exists).to.equal(true);
+      expect(summary.holder).to.equal(applicant.address);
+      expect(summary.profession).to.equal("Data Scientist");
+      expect(summary.issueDate).to.equal(certificate.issueDate);
+      expect(summary.expiryDate).to.equal(certificate.expiryDate);
+      expect(summary.issuedBy).to.equal(issuer.address);
+      expect(summary.issuer).to.equal("Acme Certification Board");
+      expect(summary.status).to.equal(Status.Revoked);
+      expect(summary.renewalCount).to.equal(0);
+      expect(summary.pendingRenewal).to.equal(0);
+    });
+
+    it("Should summarize the renewal count and the pending renewal", async function () {
+      const certificateId = await issueFor("Software Engineer");
+      await processRenewal(await requestRenewal(certificateId, 80));
+      const pending = await requestRenewal(certificateId, 85);
+
+      const [summary] = await views.verifyCertificates([certificateId]);
+      expect(summary.renewalCount).to.equal(1);
+      expect(summary.pendingRenewal).to.equal(pending);
+    });
+
+    it("Should list certificates by holder, profession and issuer", async function () {
+      const secondIssuer = (await ethers.getSigners())[4];
+      await contract.authorizeIssuer(secondIssuer.address, "Globex Accreditation", ["Software Engineer"]);
+      await issueFor("Software Engineer");
+      await issueFor("Data Scientist", other);
+      await issueFor("Software Engineer", other, secondIssuer);
+      await issueFor("Software Engineer");
+
+      const byHolder = await views.getCertificatesByHolder(other.address, 0, 10);
+      expect(ids(byHolder.page)).to.deep.equal([2n, 3n]);
+      expect(byHolder.total).to.equal(2);
+
+      const byProfession = await views.getCertificatesByProfession("Software Engineer", 1, 10);
+      expect(ids(byProfession.page)).to.deep.equal([3n, 4n]);
+      expect(byProfession.total).to.equal(3);
+
+      const byIssuer = await views.getCertificatesByIssuer(issuer.address, 0, 2);
+      expect(ids(byIssuer.page)).to.deep.equal([1n, 2n]);
+      expect(byIssuer.total).to.equal(3);
+      expect(ids((await views.getCertificatesByIssuer(secondIssuer.address, 0, 10)).page)).to.deep.equal([3n]);
+      expect((await views.getCertificatesByProfession("Project Manager", 0, 10)).total).to.equal(0);
+    });
+
+    it("Should page the pending queue by the professions an issuer may decide on", async function () {
+      const secondIssuer = (await ethers.getSigners())[4];
+      await contract.authorizeIssuer(secondIssuer.address, "Globex Accreditation", ["Project Manager"]);
+      for (const profession of ["Project Manager", "Software Engineer", "Project Manager", "Data Scientist", "Project Manager"]) {
+        await requestCertification(profession, 90, 5);
+      }
+
+      const first = await views.getPendingRequestsForIssuer(secondIssuer.address, 0, 2);
+      expect(first.requestIds).to.have.length(2);
+      expect(first.total).to.equal(3);
+      const rest = await views.getPendingRequestsForIssuer(secondIssuer.address, 2, 2);
+      expect([...first.requestIds, ...rest.requestIds].sort()).to.deep.equal([1n, 3n, 5n]);
+
+      const scoped = await views.getPendingRequestsForIssuer(issuer.address, 0, 10);
+      expect([...scoped.requestIds].sort()).to.deep.equal([2n, 4n]);
+      expect((await views.getPendingRequestsForIssuer(other.address, 0, 10)).total).to.equal(0);
+    });
+
+    it("Should verify a batch without reverting on unknown, revoked or expired certificates", async function () {
+      const expired = await issueFor("Software Engineer");
+      await time.increase(366 * DAY);
+      const revoked = await issueFor("Software Engineer");
+      const valid = await issueFor("Software Engineer");
+      await contract.connect(issuer).revokeCertificate(revoked, "Fraud");
+
+      const results = await views.verifyCertificates([valid, 0, revoked, 99, expired]);
+
+      expect(ids(results)).to.deep.equal([valid, 0n, revoked, 99n, expired]);
+      expect(results.map((summary: any) => summary.exists)).to.deep.equal([true, false, true, false, true]);
+      expect(results[0].status).to.equal(Status.Valid);
+      expect(results[2].status).to.equal(Status.Revoked);
+      expect(results[4].status).to.equal(Status.Expired);
+      expect(results[1].holder).to.equal(ethers.ZeroAddress);
+      expect(await views.verifyCertificates([])).to.deep.equal([]);
+    });
+
+    it("Should list the caller's valid certificates that expire within a window", async function () {
+      await contract.setProfessionValidity("Data Scientist", 30 * DAY, 30 * DAY, 30 * DAY);
+      const soon = await issueFor("Data Scientist");
+      const later = await issueFor("Software Engineer");
+      const revoked = await issueFor("Data Scientist");
+      await issueFor("Data Scientist", other);
+      await contract.connect(issuer).revokeCertificate(revoked, "Fraud");
+
+      const holderViews = views.connect(applicant);
+      expect(ids(await holderViews.expiringWithin(31 * DAY))).to.deep.equal([soon]);
+      expect(ids(await holderViews.expiringWithin(400 * DAY))).to.deep.equal([soon, later]);
+      expect(await holderViews.expiringWithin(DAY)).to.deep.equal([]);
+      expect(ids(await views.connect(other).expiringWithin(31 * DAY))).to.have.length(1);
+
+      await time.increase(31 * DAY);
+      expect(ids(await holderViews.expiringWithin(400 * DAY))).to.deep.equal([later]);
+      expect(await holderViews.expiringWithin(ethers.MaxUint256)).to.have.length(1);
+    });
+  });
+
+  describe("Revocation", function () {
+    it("Should revoke a certificate with a reason", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Credential fraud"))
+        .to.emit(contract, "CertificateRevoked")
+        .withArgs(certificateId, "Credential fraud");
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.isValid).to.equal(false);
+      expect(certificate.status).to.equal(Status.Revoked);
+    });
+
+    it("Should let the owner revoke but not other accounts", async function () {
+      const first = await issueCertificate();
+      const second = await issueCertificate();
+
+      await expect(contract.connect(applicant).revokeCertificate(first, "Fraud"))
+        .to.be.revertedWith("Not authorized issuer");
+      await contract.revokeCertificate(second, "Fraud");
+      expect(await contract.getCertificateStatus(second)).to.equal(Status.Revoked);
+    });
+
+    it("Should not revoke a certificate twice", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Fraud"))
+        .to.be.revertedWith("Certificate not valid");
+    });
+
+    it("Should hide the encrypted score and level of a revoked certificate", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      await expect(contract.connect(applicant).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Certificate not valid");
+      await expect(contract.connect(applicant).getEncryptedLevel(certificateId))
+        .to.be.revertedWith("Certificate not valid");
+    });
+
+    it("Should only revoke the given certificate", async function () {
+      const revoked = await issueCertificate();
+      const kept = await issueCertificate();
+
+      await contract.connect(issuer).revokeCertificate(revoked, "Fraud");
+
+      expect(await contract.getCertificateStatus(kept)).to.equal(Status.Valid);
+    });
+  });
+
+  describe("Holder withdrawal", function () {
+    it("Should let the holder withdraw a certificate and report it apart from revocation", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(applicant).withdrawCertificate(certificateId))
+        .to.emit(contract, "CertificateWithdrawn")
+        .withArgs(certificateId, applicant.address);
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.isValid).to.equal(false);
+      expect(certificate.status).to.equal(Status.Withdrawn);
+      expect((await contract.certificates(certificateId)).withdrawnByHolder).to.equal(true);
+    });
+
+    it("Should only let the holder withdraw", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(issuer).withdrawCertificate(certificateId))
+        .to.be.revertedWith("Not certificate holder");
+      await expect(contract.connect(other).withdrawCertificate(certificateId))
+        .to.be.revertedWith("Not certificate holder");
+      await expect(contract.connect(applicant).withdrawCertificate(certificateId + 1n))
+        .to.be.revertedWithCustomError(contract, "CertificateNotFound");
+    });
+
+    it("Should keep withdrawal and revocation final", async function () {
+      const withdrawn = await issueCertificate();
+      const revoked = await issueCertificate();
+      await contract.connect(applicant).withdrawCertificate(withdrawn);
+      await contract.connect(issuer).revokeCertificate(revoked, "Fraud");
+
+      await expect(contract.connect(applicant).withdrawCertificate(withdrawn))
+        .to.be.revertedWith("Certificate already withdrawn");
+      await expect(contract.connect(issuer).revokeCertificate(withdrawn, "Fraud"))
+        .to.be.revertedWith("Certificate not valid");
+      // A revocation cannot be turned into a withdrawal
+      await expect(contract.connect(applicant).withdrawCertificate(revoked))
+        .to.be.revertedWith("Certificate revoked");
+      expect(await contract.getCertificateStatus(revoked)).to.equal(Status.Revoked);
+    });
+
+    it("Should forget the encrypted score and level", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(applicant).withdrawCertificate(certificateId);
+
+      const certificate = await contract.certificates(certificateId);
+      expect(certificate.encryptedScore).to.equal(ethers.ZeroHash);
+      expect(certificate.encryptedLevel).to.equal(ethers.ZeroHash);
+      await expect(contract.connect(applicant).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Certificate not valid");
+      await expect(contract.connect(issuer).getEncryptedLevel(certificateId))
+        .to.be.revertedWith("Certificate not valid");
+    });
+
+    it("Should revoke unredeemed disclosures and keep redeemed ones", async function () {
+      const certificateId = await issueCertificate();
+      const redeemed = await createDisclosure(certificateId, Predicate.ScoreAtLeast, 80);
+      const open = await createDisclosure(certificateId, Predicate.LevelAtLeast, 3);
+      await contract.connect(other).redeemDisclosure(redeemed);
+
+      await expect(contract.connect(applicant).withdrawCertificate(certificateId))
+        .to.emit(contract, "DisclosureRevoked")
+        .withArgs(open);
+
+      expect((await contract.getDisclosure(open)).revoked).to.equal(true);
+      expect((await contract.getDisclosure(redeemed)).revoked).to.equal(false);
+      await expect(contract.connect(other).redeemDisclosure(open)).to.be.revertedWith("Disclosure revoked");
+      await expect(contract.connect(applicant).createDisclosure(certificateId, other.address, Predicate.ScoreAtLeast, 80, DAY))
+        .to.be.revertedWith("Certificate not valid");
+    });
+
+    it("Should not renew a withdrawn certificate", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(applicant).withdrawCertificate(certificateId);
+
+      const input = await createEncryptedInput(contract, applicant).add64(90).encrypt();
+      await expect(contract.connect(applicant).requestRenewal(certificateId, input.handles[0], input.inputProof))
+        .to.be.revertedWith("Certificate cannot be renewed");
+    });
+
+    it("Should not store a new score from a renewal evaluated after the withdrawal", async function () {
+      const certificateId = await issueCertificate();
+      const renewalRequestId = await requestRenewal(certificateId, 90);
+      holdDecryptions();
+      await contract.connect(issuer).processRenewalRequest(renewalRequestId);
+      await contract.connect(applicant).withdrawCertificate(certificateId);
+
+      await awaitPublicDecryption(contract);
+
+      expect((await contract.renewalRequests(renewalRequestId)).isApproved).to.equal(false);
+      expect((await contract.certificates(certificateId)).encryptedScore).to.equal(ethers.ZeroHash);
+      const rejections = await contract.queryFilter(contract.filters.RenewalRejected(renewalRequestId));
+      expect(rejections[0].args.reason).to.equal("Certificate withdrawn");
+    });
+
+    it("Should allow withdrawal while the registry is paused or the issuer suspended", async function () {
+      const first = await issueCertificate();
+      const second = await issueCertificate();
+
+      await contract.suspendIssuer(issuer.address);
+      await contract.connect(applicant).withdrawCertificate(first);
+      await contract.emergencyPause();
+      await contract.connect(applicant).withdrawCertificate(second);
+
+      // Withdrawal is reported even while other certificates show as suspended
+      expect(await contract.getCertificateStatus(second)).to.equal(Status.Withdrawn);
+    });
+  });
+
+  describe("Expiry", function () {
+    it("Should stay valid until the last second of the validity period", async function () {
+      const certificateId = await issueCertificate();
+      const { expiryDate } = await contract.verifyCertificate(certificateId);
+
+      await time.setNextBlockTimestamp(expiryDate - 1n);
+      await ethers.provider.send("evm_mine", []);
+      expect(await contract.getCertificateStatus(certificateId)).to.equal(Status.Valid);
+
+      await time.setNextBlockTimestamp(expiryDate);
+      await ethers.provider.send("evm_mine", []);
+      expect(await contract.getCertificateStatus(certificateId)).to.equal(Status.Expired);
+    });
+
+    it("Should not revoke or reveal an expired certificate", async function () {
+      const certificateId = await issueCertificate();
+      await time.increase(366 * 24 * 60 * 60);
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Fraud"))
+        .to.be.revertedWith("Certificate expired");
+      await expect(contract.connect(applicant).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Certificate expired");
+    });
+
+    it("Should report revocation ahead of expiry", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+      await time.increase(366 * 24 * 60 * 60);
+
+      expect(await contract.getCertificateStatus(certificateId)).to.equal(Status.Revoked);
+    });
+  });
+
+  describe("Validity period", function () {
+    it("Should keep the default validity for professions without a policy", async function () {
+      expect(await contract.getValidityPeriod(issuer.address, "Software Engineer"))
+        .to.equal(await contract.CERTIFICATE_VALIDITY());
+      await expect(contract.connect(issuer).setIssuerValidity("Software Engineer", 180 * DAY))
+        .to.be.revertedWith("Validity outside profession bounds");
+    });
+
+    it("Should issue certificates for the profession's validity period", async function () {
+      await expect(contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY))
+        .to.emit(contract, "ProfessionValidityUpdated")
+        .withArgs("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY);
+
+      const certificateId = await issueCertificate();
+
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.expiryDate - certificate.issueDate).to.equal(730 * DAY);
+      expect(await contract.validityPolicies("Software Engineer"))
+        .to.deep.equal([BigInt(730 * DAY), BigInt(365 * DAY), BigInt(1095 * DAY)]);
+    });
+
+    it("Should only let the owner set a policy whose bounds include the period", async function () {
+      await expect(contract.connect(issuer).setProfessionValidity("Software Engineer", 730 * DAY, 0, 730 * DAY))
+        .to.be.revertedWith("Not authorized");
+      await expect(contract.setProfessionValidity("Software Engineer", 0, 0, 0))
+        .to.be.revertedWith("Validity period required");
+      await expect(contract.setProfessionValidity("Software Engineer", 730 * DAY, 800 * DAY, 900 * DAY))
+        .to.be.revertedWith("Bounds must include the period");
+      await expect(contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 700 * DAY))
+        .to.be.revertedWith("Bounds must include the period");
+    });
+
+    it("Should apply an issuer's own period within the profession bounds", async function () {
+      await contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY);
+
+      await expect(contract.connect(issuer).setIssuerValidity("Software Engineer", 400 * DAY))
+        .to.emit(contract, "IssuerValidityUpdated")
+        .withArgs(issuer.address, "Software Engineer", 400 * DAY);
+      await expect(contract.connect(issuer).setIssuerValidity("Software Engineer", 1100 * DAY))
+        .to.be.revertedWith("Validity outside profession bounds");
+      await expect(contract.connect(issuer).setIssuerValidity("Software Engineer", 300 * DAY))
+        .to.be.revertedWith("Validity outside profession bounds");
+      await expect(contract.connect(issuer).setIssuerValidity("Nurse", 400 * DAY))
+        .to.be.revertedWith("Profession outside issuer scope");
+      await expect(contract.connect(other).setIssuerValidity("Software Engineer", 400 * DAY))
+        .to.be.revertedWith("Not authorized issuer");
+
+      const certificateId = await issueCertificate();
+      const certificate = await contract.verifyCertificate(certificateId);
+      expect(certificate.expiryDate - certificate.issueDate).to.equal(400 * DAY);
+
+      await contract.connect(issuer).setIssuerValidity("Software Engineer", 0);
+      expect(await contract.getValidityPeriod(issuer.address, "Software Engineer")).to.equal(730 * DAY);
+    });
+
+    it("Should clamp issuer periods into bounds narrowed later", async function () {
+      await contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY);
+      await contract.connect(issuer).setIssuerValidity("Software Engineer", 1000 * DAY);
+
+      await contract.setProfessionValidity("Software Engineer", 730 * DAY, 730 * DAY, 800 * DAY);
+
+      expect(await contract.getValidityPeriod(issuer.address, "Software Engineer")).to.equal(800 * DAY);
+      expect(await contract.getValidityPeriod(other.address, "Software Engineer")).to.equal(730 * DAY);
+    });
+
+    it("Should renew for the period of the issuer that processes the renewal", async function () {
+      const certificateId = await issueCertificate();
+      const { expiryDate } = await contract.verifyCertificate(certificateId);
+      await contract.setProfessionValidity("Software Engineer", 730 * DAY, 365 * DAY, 1095 * DAY);
+      await contract.connect(issuer).setIssuerValidity("Software Engineer", 500 * DAY);
+
+      await processRenewal(await requestRenewal(certificateId, 80));
+
+      expect((await contract.verifyCertificate(certificateId)).expiryDate).to.equal(expiryDate + BigInt(500 * DAY));
+    });
+  });
+
+  describe("ID boundaries", function () {
+    it("Should treat 0 as an unknown certificate ID", async function () {
+      await issueCertificate();
+
+      for (const call of [
+        contract.verifyCertificate(0),
+        contract.getCertificateStatus(0),
+        contract.getRenewalHistory(0),
+        contract.connect(applicant).getEncryptedScore(0),
+        contract.connect(applicant).getEncryptedLevel(0),
+        contract.connect(issuer).revokeCertificate(0, "Fraud"),
+      ]) {
+        await expect(call).to.be.revertedWithCustomError(contract, "CertificateNotFound").withArgs(0);
+      }
+    });
+
+    it("Should reject the first unissued certificate ID", async function () {
+      const lastId = await issueCertificate();
+      const unissued = lastId + 1n;
+
+      await expect(contract.verifyCertificate(lastId)).not.to.be.reverted;
+      for (const call of [
+        contract.verifyCertificate(unissued),
+        contract.connect(applicant).getEncryptedScore(unissued),
+        contract.connect(applicant).getEncryptedLevel(unissued),
+        contract.connect(issuer).revokeCertificate(unissued, "Fraud"),
+      ]) {
+        await expect(call).to.be.revertedWithCustomError(contract, "CertificateNotFound").withArgs(unissued);
+      }
+    });
+
+    it("Should reject request IDs outside 1 through the request count", async function () {
+      const lastId = await requestCertification("Software Engineer", 90, 5);
+
+      for (const requestId of [0n, lastId + 1n]) {
+        await expect(contract.connect(issuer).processCertificationRequest(requestId))
+          .to.be.revertedWithCustomError(contract, "RequestNotFound")
+          .withArgs(requestId);
+        await expect(contract.connect(applicant).withdrawRequest(requestId))
+          .to.be.revertedWithCustomError(contract, "RequestNotFound")
+          .withArgs(requestId);
+        await expect(contract.getRequestStatus(requestId))
+          .to.be.revertedWithCustomError(contract, "RequestNotFound")
+          .withArgs(requestId);
+      }
+      await expect(contract.connect(issuer).processCertificationRequest(lastId)).not.to.be.reverted;
+    });
+
+    it("Should reject renewal request IDs outside the issued range", async function () {
+      const certificateId = await issueCertificate();
+      const lastId = await requestRenewal(certificateId, 90);
+
+      for (const renewalRequestId of [0n, lastId + 1n]) {
+        await expect(contract.connect(issuer).processRenewalRequest(renewalRequestId))
+          .to.be.revertedWithCustomError(contract, "RenewalRequestNotFound")
+          .withArgs(renewalRequestId);
+      }
+    });
+
+    it("Should reject every certificate ID before the first issuance", async function () {
+      await expect(contract.verifyCertificate(1))
+        .to.be.revertedWithCustomError(contract, "CertificateNotFound")
+        .withArgs(1);
+    });
+  });
+
+  describe("Profession requirements", function () {
+    it("Should reject requirements outside the score and level ranges", async function () {
+      await expect(contract.setProfessionRequirements("Software Engineer", 101, 3, 1))
+        .to.be.revertedWith("Score must be between 0-100");
+      await expect(contract.setProfessionRequirements("Software Engineer", 75, 11, 1))
+        .to.be.revertedWith("Level must be between 1-10");
+      await expect(contract.setProfessionRequirements("Software Engineer", 75, 3, 0))
+        .to.be.revertedWith("Quorum must be at least 1");
+    });
+
+    it("Should report the requirements and endorsement quorum", async function () {
+      expect(await contract.getProfessionRequirements("Software Engineer")).to.deep.equal([75n, 3n, 1n]);
+
+      await contract.setProfessionRequirements("Software Engineer", 80, 4, 3);
+      expect(await contract.getProfessionRequirements("Software Engineer")).to.deep.equal([80n, 4n, 3n]);
+      expect(await contract.endorsementQuorum("Software Engineer")).to.equal(3);
+    });
+  });
+
+  describe("Endorsement quorum", function () {
+    let secondIssuer: any;
+    let thirdIssuer: any;
+
+    beforeEach(async function () {
+      [, , , , secondIssuer, thirdIssuer] = await ethers.getSigners();
+      await contract.authorizeIssuer(secondIssuer.address, "Globex Accreditation", ["Software Engineer"]);
+      await contract.authorizeIssuer(thirdIssuer.address, "Initech Licensing", ["Software Engineer"]);
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 2);
+    });
+
+    it("Should let a single issuer decide when no quorum is configured", async function () {
+      const requestId = await requestCertification("Data Scientist", 90, 5);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEndorsed")
+        .withArgs(requestId, issuer.address, 1, 1)
+        .and.to.emit(contract, "CertificationEvaluationRequested");
+    });
+
+    it("Should wait for the quorum before evaluating", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEndorsed")
+        .withArgs(requestId, issuer.address, 1, 2)
+        .and.not.to.emit(contract, "CertificationEvaluationRequested");
+      expect((await contract.certificationRequests(requestId)).isProcessed).to.equal(false);
+      expect((await contract.getPendingRequests(0, 10)).requestIds).to.deep.equal([requestId]);
+
+      await expect(contract.connect(secondIssuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEndorsed")
+        .withArgs(requestId, secondIssuer.address, 2, 2)
+        .and.to.emit(contract, "CertificationEvaluationRequested");
+      await awaitPublicDecryption(contract);
+
+      expect(await contract.getRequestStatus(requestId)).to.equal(RequestStatus.Approved);
+      expect((await contract.getPendingRequests(0, 10)).total).to.equal(0);
+    });
+
+    it("Should make the issuer that completes the quorum the certificate's issuer", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.connect(thirdIssuer).processCertificationRequest(requestId);
+      await awaitPublicDecryption(contract);
+
+      const certificate = await contract.verifyCertificate(await contract.getCertificateCount());
+      expect(certificate.issuedBy).to.equal(thirdIssuer.address);
+      expect(certificate.issuer).to.equal("Initech Licensing");
+    });
+
+    it("Should report endorsement progress", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      expect(await contract.getRequestEndorsements(requestId)).to.deep.equal([[], 0n, 2n]);
+
+      await contract.connect(secondIssuer).processCertificationRequest(requestId);
+
+      expect(await contract.hasEndorsed(requestId, secondIssuer.address)).to.equal(true);
+      expect(await contract.hasEndorsed(requestId, issuer.address)).to.equal(false);
+      expect(await contract.getRequestEndorsements(requestId)).to.deep.equal([[secondIssuer.address], 1n, 2n]);
+      await expect(contract.getRequestEndorsements(requestId + 1n))
+        .to.be.revertedWithCustomError(contract, "RequestNotFound");
+    });
+
+    it("Should not count the same issuer twice", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Already endorsed");
+    });
+
+    it("Should stop counting endorsers that lost their accreditation", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.suspendIssuer(issuer.address);
+
+      await expect(contract.connect(secondIssuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEndorsed")
+        .withArgs(requestId, secondIssuer.address, 1, 2);
+      expect((await contract.getRequestEndorsements(requestId)).counted).to.equal(1);
+
+      await contract.reinstateIssuer(issuer.address);
+      expect((await contract.getRequestEndorsements(requestId)).counted).to.equal(2);
+      await contract.removeIssuerScope(secondIssuer.address, "Software Engineer");
+
+      await expect(contract.connect(thirdIssuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEndorsed")
+        .withArgs(requestId, thirdIssuer.address, 2, 2)
+        .and.to.emit(contract, "CertificationEvaluationRequested");
+    });
+
+    it("Should apply a changed quorum to pending requests", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 3);
+
+      await contract.connect(secondIssuer).processCertificationRequest(requestId);
+      expect((await contract.certificationRequests(requestId)).isProcessed).to.equal(false);
+
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 1);
+      await expect(contract.connect(thirdIssuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEvaluationRequested");
+    });
+
+    it("Should let an earlier endorser start the evaluation once a reinstated endorser completes the quorum", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.suspendIssuer(issuer.address);
+      await contract.connect(secondIssuer).processCertificationRequest(requestId);
+      await contract.reinstateIssuer(issuer.address);
+      expect((await contract.getRequestEndorsements(requestId)).counted).to.equal(2);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEvaluationRequested")
+        .and.not.to.emit(contract, "CertificationEndorsed");
+      await awaitPublicDecryption(contract);
+
+      expect(await contract.getRequestStatus(requestId)).to.equal(RequestStatus.Approved);
+      expect((await contract.getRequestEndorsements(requestId)).endorsers).to.deep.equal([issuer.address, secondIssuer.address]);
+      const certificate = await contract.verifyCertificate(await contract.getCertificateCount());
+      expect(certificate.issuedBy).to.equal(issuer.address);
+    });
+
+    it("Should let an earlier endorser start the evaluation after the quorum is lowered", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+      await contract.setProfessionRequirements("Software Engineer", 75, 3, 1);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEvaluationRequested");
+      expect((await contract.certificationRequests(requestId)).isProcessed).to.equal(true);
+    });
+
+    it("Should tell a started evaluation apart from a missing quorum", async function () {
+      const requestId = await requestCertification("Software Engineer", 90, 5);
+
+      const [, waiting] = await contract.connect(issuer).processCertificationRequest.staticCall(requestId);
+      expect(waiting).to.equal(false);
+      await contract.connect(issuer).processCertificationRequest(requestId);
+
+      const [decryptionRequestId, evaluated] =
+        await contract.connect(secondIssuer).processCertificationRequest.staticCall(requestId);
+      expect(evaluated).to.equal(true);
+      await expect(contract.connect(secondIssuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationEvaluationRequested")
+        .withArgs(requestId, decryptionRequestId);
+    });
+
+    it("Should let a single issuer reject or the applicant withdraw before the quorum is reached", async function () {
+      const rejected = await requestCertification("Software Engineer", 90, 5);
+      const withdrawn = await requestCertification("Software Engineer", 90, 5);
+      await contract.connect(issuer).processCertificationRequest(rejected);
+      await contract.connect(issuer).processCertificationRequest(withdrawn);
+
+      await contract.connect(secondIssuer).rejectCertificationRequest(rejected, "Evidence is not notarized");
+      await contract.connect(applicant).withdrawRequest(withdrawn);
+
+      expect(await contract.getRequestStatus(rejected)).to.equal(RequestStatus.Rejected);
+      expect(await contract.getRequestStatus(withdrawn)).to.equal(RequestStatus.Withdrawn);
+      await expect(contract.connect(thirdIssuer).processCertificationRequest(rejected))
+        .to.be.revertedWith("Request already processed");
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { awaitPublicDecryption, installFhevmMock } from "./helpers/fhevm";
+import {
+  VerifiableCredential,
+  computeCredentialHash,
+  exportCredential,
+  verifyCredential,
+} from "../scripts/verifiable-credential";
+
+/**
+ * Test suite for scripts/verifiable-credential.ts, checked against certificates
+ * issued by PrivacyProfessionalCertificate on the Hardhat network
+ *
+ * Not an example: listed in NON_EXAMPLE_SOURCES of scripts/examples-registry.ts.
+ */
+describe("VerifiableCredential", function () {
+  let contract: any;
+  let contractAddress: string;
+  let owner: any;
+  let issuer: any;
+  let applicant: any;
+  let other: any;
+
+  before(async function () {
+    await installFhevmMock();
+  });
+
+  beforeEach(async function () {
+    [owner, issuer, applicant, other] = await ethers.getSigners();
+    const Factory = await ethers.getContractFactory("PrivacyProfessionalCertificate");
+    contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
+    await contract.authorizeIssuer(issuer.address, "Acme Certification Board", ["Software Engineer"]);
+  });
+
+  // Issues a Software Engineer certificate to the applicant and returns its ID
+  async function issueCertificate() {
+    await contract.connect(applicant).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+    await contract.connect(issuer).processCertificationRequest(await contract.getRequestCount());
+    await awaitPublicDecryption(contract);
+    return contract.getCertificateCount();
+  }
+
+  // Copies a credential the way it travels: as a JSON document
+  function roundTrip(credential: VerifiableCredential): VerifiableCredential {
+    return JSON.parse(JSON.stringify(credential));
+  }
+
+  describe("Export", function () {
+    it("Should describe the certificate as a W3C Verifiable Credential", async function () {
+      const certificateId = await issueCertificate();
+      const certificate = await contract.verifyCertificate(certificateId);
+      const { chainId } = await ethers.provider.getNetwork();
+
+      const credential = await exportCredential(issuer, contractAddress, certificateId);
+
+      expect(credential["@context"][0]).to.equal("https://www.w3.org/2018/credentials/v1");
+      expect(credential.type).to.deep.equal(["VerifiableCredential", "ProfessionalCertificateCredential"]);
+      expect(credential.issuer).to.deep.equal({
+        id: `did:pkh:eip155:${chainId}:${issuer.address}`,
+        name: "Acme Certification Board",
+      });
+      expect(credential.credentialSubject).to.deep.equal({
+        id: `did:pkh:eip155:${chainId}:${applicant.address}`,
+        profession: "Software Engineer",
+        certificateId: certificateId.toString(),
+        credentialHash: certificate.credentialHash,
+      });
+      expect(Date.parse(credential.issuanceDate) / 1000).to.equal(Number(certificate.issueDate));
+      expect(Date.parse(credential.expirationDate) / 1000).to.equal(Number(certificate.expiryDate));
+      expect(credential.proof.type).to.equal("EthereumEip712Signature2021");
+      expect(credential.proof.eip712.primaryType).to.equal("ProfessionalCertificateCredential");
+    });
+
+    it("Should reproduce the credential hash stored on-chain", async function () {
+      const certificateId = await issueCertificate();
+      const certificate = await contract.verifyCertificate(certificateId);
+
+      expect(computeCredentialHash(applicant.address, "Software Engineer", certificate.issueDate, certificateId))
+        .to.equal(certificate.credentialHash);
+    });
+
+    it("Should only let the issuing address sign", async function () {
+      const certificateId = await issueCertificate();
+
+      let error: Error | undefined;
+      try {
+        await exportCredential(other, contractAddress, certificateId);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain(`was issued by ${issuer.address}`);
+    });
+
+    it("Should refuse to export a revoked certificate", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      let error: Error | undefined;
+      try {
+        await exportCredential(issuer, contractAddress, certificateId);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(`Certificate ${certificateId} is revoked`);
+    });
+  });
+
+  describe("Verification", function () {
+    it("Should accept a credential that matches the chain", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+
+      expect(await verifyCredential(credential, ethers.provider, contractAddress)).to.deep.equal({
+        valid: true,
+        status: "Valid",
+        problems: [],
+      });
+    });
+
+    it("Should reject a credential whose fields were edited", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      credential.credentialSubject.profession = "Data Scientist";
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+
+      expect(result.valid).to.equal(false);
+      expect(result.problems).to.include("Holder or profession differs from the certificate");
+      expect(result.problems.some(problem => problem.startsWith("Signature is by"))).to.equal(true);
+
+      // The issuer name is not signed, but must still match the certificate
+      const renamed = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      renamed.issuer.name = "Massachusetts Institute of Technology";
+
+      expect(await verifyCredential(renamed, ethers.provider, contractAddress)).to.deep.equal({
+        valid: false,
+        status: "Valid",
+        problems: ["Issuer name differs from the certificate"],
+      });
+    });
+
+    it("Should reject a credential signed by someone other than the issuer", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      const forged = roundTrip(credential);
+      forged.proof.proofValue = await other.signTypedData(
+        { ...credential.proof.eip712.domain },
+        credential.proof.eip712.types,
+        {
+          certificateId,
+          holder: applicant.address,
+          profession: "Software Engineer",
+          issuer: issuer.address,
+          issuanceDate: Date.parse(credential.issuanceDate) / 1000,
+          expirationDate: Date.parse(credential.expirationDate) / 1000,
+          credentialHash: credential.credentialSubject.credentialHash,
+        }
+      );
+
+      const result = await verifyCredential(forged, ethers.provider, contractAddress);
+
+      expect(result.valid).to.equal(false);
+      expect(result.problems).to.deep.equal([`Signature is by ${other.address}, not the issuer ${issuer.address}`]);
+    });
+
+    it("Should reject a credential whose certificate was revoked", async function () {
+      const certificateId = await issueCertificate();
+      const credential = await exportCredential(issuer, contractAddress, certificateId);
+      await contract.connect(issuer).revokeCertificate(certificateId, "Fraud");
+
+      expect(await verifyCredential(credential, ethers.provider, contractAddress)).to.deep.equal({
+        valid: false,
+        status: "Revoked",
+        problems: ["Certificate is revoked"],
+      });
+    });
+
+    it("Should reject a credential whose certificate the holder withdrew", async function () {
+      const certificateId = await issueCertificate();
+      const credential = await exportCredential(issuer, contractAddress, certificateId);
+      await contract.connect(applicant).withdrawCertificate(certificateId);
+
+      expect(await verifyCredential(credential, ethers.provider, contractAddress)).to.deep.equal({
+        valid: false,
+        status: "Withdrawn",
+        problems: ["Certificate is withdrawn"],
+      });
+    });
+
+    it("Should reject a credential whose certificate is suspended", async function () {
+      const certificateId = await issueCertificate();
+      const credential = await exportCredential(issuer, contractAddress, certificateId);
+      await contract.suspendIssuer(issuer.address);
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.status).to.equal("Suspended");
+      expect(result.valid).to.equal(false);
+    });
+
+    it("Should reject an expired credential", async function () {
+      const certificateId = await issueCertificate();
+      const credential = await exportCredential(issuer, contractAddress, certificateId);
+
+      await time.increase(366 * 24 * 60 * 60);
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.valid).to.equal(false);
+      expect(result.problems).to.deep.equal(["Certificate is expired", "Credential has expired"]);
+    });
+
+    it("Should reject a credential whose hash does not match the certificate", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      credential.credentialSubject.credentialHash = ethers.ZeroHash;
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.problems).to.include("Credential hash does not match the certificate");
+    });
+
+    it("Should reject a credential for a certificate that does not exist", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      credential.credentialSubject.certificateId = "2";
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.valid).to.equal(false);
+      expect(result.problems).to.include("Certificate 2 not found on chain");
+    });
+
+    it("Should reject a credential that points at another registry", async function () {
+      // A look-alike registry whose owner made themselves an issuer under the same name
+      const Factory = await ethers.getContractFactory("PrivacyProfessionalCertificate");
+      const lookAlike: any = await Factory.connect(other).deploy();
+      await lookAlike.waitForDeployment();
+      const lookAlikeAddress = await lookAlike.getAddress();
+      await lookAlike.connect(other).authorizeIssuer(other.address, "Acme Certification Board", ["Software Engineer"]);
+      await lookAlike.connect(applicant).requestCertification("Software Engineer", 90, 5, "ipfs://evidence");
+      await lookAlike.connect(other).processCertificationRequest(1);
+      await awaitPublicDecryption(lookAlike);
+
+      const credential = roundTrip(await exportCredential(other, lookAlikeAddress, 1n));
+      expect(await verifyCredential(credential, ethers.provider, lookAlikeAddress)).to.include({ valid: true });
+
+      expect(await verifyCredential(credential, ethers.provider, contractAddress)).to.deep.equal({
+        valid: false,
+        problems: [`Credential is for registry ${lookAlikeAddress}, not ${contractAddress}`],
+      });
+
+      // Pointing the document at the trusted registry does not help: the signature is bound to the other one
+      credential.credentialStatus.contract = contractAddress;
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.valid).to.equal(false);
+      expect(result.problems.some(problem => problem.startsWith("Signature is by"))).to.equal(true);
+    });
+
+    it("Should reject a credential issued on another chain", async function () {
+      const certificateId = await issueCertificate();
+      const credential = roundTrip(await exportCredential(issuer, contractAddress, certificateId));
+      credential.credentialStatus.chainId = "11155111";
+
+      const result = await verifyCredential(credential, ethers.provider, contractAddress);
+      expect(result.valid).to.equal(false);
+      expect(result.problems[0]).to.match(/^Credential is for chain 11155111/);
+    });
+  });
+});
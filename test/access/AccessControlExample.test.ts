@@ -4,8 +4,13 @@ import { ethers } from "hardhat";
 /**
  * Test suite for AccessControlExample contract
  *
+ * @name access-control
  * @chapter access-control
  * @description Demonstrates FHE.allow and FHE.allowTransient for access control
+ * @keyFeature FHE.allow() for persistent access
+ * @keyFeature FHE.allowTransient() for temporary access
+ * @keyFeature Role-based access control
+ * @keyFeature Permission management patterns
  */
 describe("AccessControlExample", function () {
   let contract: any;
@@ -16,11 +21,12 @@ describe("AccessControlExample", function () {
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("AccessControlExample");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1, addr2] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   it("Should set admin to deployer", async function () {
@@ -6,6 +6,11 @@ import { ethers } from "hardhat";
  *
  * @chapter anti-patterns
  * @description Demonstrates common mistakes and anti-patterns with FHEVM
+ * @keyFeature View function limitations
+ * @keyFeature Permission management errors
+ * @keyFeature Incorrect comparisons
+ * @keyFeature Initialization checks
+ * @keyFeature Event emission mistakes
  */
 describe("AntiPatterns", function () {
   let contract: any;
@@ -15,11 +20,12 @@ describe("AntiPatterns", function () {
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("AntiPatterns");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("ANTI-PATTERN 1: View functions with encrypted values", function () {
@@ -147,7 +153,7 @@ describe("AntiPatterns", function () {
   describe("ANTI-PATTERN 4: Not validating FHE initialization", function () {
     it("WRONG: Operating on uninitialized values causes failures", async function () {
       // Create uninitialized euint64
-      const uninitializedValue = ethers.BigNumber.from(0);
+      const uninitializedValue = 0n;
 
       // This would fail because values aren't initialized
       // await contract.operateWithoutCheckWrong(uninitializedValue, uninitializedValue);
@@ -4,8 +4,13 @@ import { ethers } from "hardhat";
 /**
  * Test suite for InputProofExample contract
  *
+ * @name input-proof
  * @chapter access-control
  * @description Demonstrates what input proofs are and why they are needed
+ * @keyFeature Input proof validation
+ * @keyFeature Security against replay attacks
+ * @keyFeature Prevention of invalid ciphertexts
+ * @keyFeature User authorization verification
  */
 describe("InputProofExample", function () {
   let contract: any;
@@ -16,11 +21,12 @@ describe("InputProofExample", function () {
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("InputProofExample");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1, addr2] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("Input proof purpose and mechanism", function () {
@@ -6,6 +6,15 @@ import { ethers } from "hardhat";
  *
  * @chapter advanced
  * @description Demonstrates a sealed-bid auction using FHEVM
+ * @keyFeature Encrypted bid storage
+ * @keyFeature FHE.gt() for bid comparison
+ * @keyFeature FHE.cmux() for conditional selection
+ * @keyFeature Multi-phase auction workflow
+ * @useCase Sealed-bid auctions
+ * @useCase Confidential tendering
+ * @useCase Private voting mechanisms
+ * @deployArg biddingTime 3600
+ * @deployArg revealTime 1800
  */
 describe("BlindAuction", function () {
   let contract: any;
@@ -24,12 +33,13 @@ describe("BlindAuction", function () {
 
     const Factory = await ethers.getContractFactory("BlindAuction");
     contract = await Factory.deploy(biddingTime, revealTime);
+    await contract.waitForDeployment();
 
     [auctioneer, bidder1, bidder2, bidder3] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   it("Should set auctioneer to deployer", async function () {
@@ -1,6 +1,19 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 
+/**
+ * Test suite for ArithmeticOperations contract
+ *
+ * @chapter basic
+ * @description Demonstrates FHE arithmetic operations including addition, subtraction, and multiplication
+ * @keyFeature FHE.add() for encrypted addition
+ * @keyFeature FHE.sub() for encrypted subtraction
+ * @keyFeature FHE.mul() for encrypted multiplication
+ * @keyFeature Working with different encrypted types
+ * @useCase Private financial calculations
+ * @useCase Confidential computations
+ * @useCase Encrypted data processing
+ */
 describe("ArithmeticOperations", function () {
   let arithmetic: any;
   let owner: any;
@@ -8,11 +21,12 @@ describe("ArithmeticOperations", function () {
   beforeEach(async function () {
     const ArithmeticFactory = await ethers.getContractFactory("ArithmeticOperations");
     arithmetic = await ArithmeticFactory.deploy();
+    await arithmetic.waitForDeployment();
     [owner] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(arithmetic.address).to.not.be.undefined;
+    expect(await arithmetic.getAddress()).to.be.properAddress;
   });
 
   it("Should add two values", async function () {
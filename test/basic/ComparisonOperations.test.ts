@@ -1,6 +1,16 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 
+/**
+ * Test suite for ComparisonOperations contract
+ *
+ * @chapter basic
+ * @description Shows FHE comparison operations including equality and greater/less than
+ * @keyFeature FHE.eq() for equality comparison
+ * @keyFeature FHE.gt() for greater than
+ * @keyFeature FHE.lt() for less than
+ * @keyFeature Working with ebool results
+ */
 describe("ComparisonOperations", function () {
   let comparison: any;
   let owner: any;
@@ -8,11 +18,12 @@ describe("ComparisonOperations", function () {
   beforeEach(async function () {
     const ComparisonFactory = await ethers.getContractFactory("ComparisonOperations");
     comparison = await ComparisonFactory.deploy();
+    await comparison.waitForDeployment();
     [owner] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(comparison.address).to.not.be.undefined;
+    expect(await comparison.getAddress()).to.be.properAddress;
   });
 
   it("Should perform equal comparison", async function () {
@@ -1,6 +1,19 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 
+/**
+ * Test suite for FHECounter contract
+ *
+ * @chapter basic
+ * @description A simple counter demonstrating basic encrypted operations using FHEVM
+ * @keyFeature Encrypted counter state (euint32)
+ * @keyFeature Increment and decrement operations
+ * @keyFeature Access control with FHE.allow
+ * @keyFeature Event emission for tracking
+ * @useCase Private voting systems
+ * @useCase Confidential counters
+ * @useCase Anonymous usage tracking
+ */
 describe("FHECounter", function () {
   let counter: any;
   let owner: any;
@@ -8,11 +21,12 @@ describe("FHECounter", function () {
   beforeEach(async function () {
     const CounterFactory = await ethers.getContractFactory("FHECounter");
     counter = await CounterFactory.deploy();
+    await counter.waitForDeployment();
     [owner] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(counter.address).to.not.be.undefined;
+    expect(await counter.getAddress()).to.be.properAddress;
   });
 
   it("Should increment counter", async function () {
@@ -4,8 +4,13 @@ import { ethers } from "hardhat";
 /**
  * Test suite for PublicDecryptMultipleValues contract
  *
+ * @name public-decrypt-multiple
  * @chapter decryption
  * @description Demonstrates public decryption of multiple encrypted values
+ * @keyFeature Batch public decryption
+ * @keyFeature Multiple value types
+ * @keyFeature Efficient KMS callbacks
+ * @keyFeature Public data structures
  */
 describe("PublicDecryptMultipleValues", function () {
   let contract: any;
@@ -15,11 +20,12 @@ describe("PublicDecryptMultipleValues", function () {
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("PublicDecryptMultipleValues");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("Multiple value public decryption", function () {
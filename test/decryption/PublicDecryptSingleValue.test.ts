@@ -1,111 +1,115 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { awaitPublicDecryption, createEncryptedInput, holdDecryptions, installFhevmMock } from "../helpers/fhevm";
 
 /**
  * Test suite for PublicDecryptSingleValue contract
  *
+ * @name public-decrypt-single
  * @chapter decryption
  * @description Demonstrates public decryption mechanism for making encrypted values publicly visible
+ * @keyFeature Public decryption workflow
+ * @keyFeature KMS integration pattern
+ * @keyFeature Two-phase decryption (request + fulfill)
+ * @keyFeature Public data availability
  */
 describe("PublicDecryptSingleValue", function () {
   let contract: any;
+  let contractAddress: string;
   let owner: any;
   let addr1: any;
 
+  before(async function () {
+    await installFhevmMock();
+  });
+
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("PublicDecryptSingleValue");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
     [owner, addr1] = await ethers.getSigners();
   });
 
+  // Encrypts `value` for `signer` and stores it in the contract
+  async function storeValue(value: bigint, signer: any = owner) {
+    const input = await createEncryptedInput(contract, signer).add32(value).encrypt();
+    return contract.connect(signer).storeValue(input.handles[0], input.inputProof);
+  }
+
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(contractAddress).to.be.properAddress;
   });
 
   describe("Public decryption workflow", function () {
     it("Should store encrypted value", async function () {
-      const mockValue = 1000n;
-      const mockProof = "0x";
+      await expect(storeValue(1000n)).to.emit(contract, "ValueStored");
 
-      await expect(
-        contract.storeValue(mockValue, mockProof)
-      ).to.emit(contract, "ValueStored");
+      await expect(await contract.getEncryptedValue()).to.decryptTo(1000n, owner, contract);
     });
 
     it("Should request public decryption", async function () {
-      const mockValue = 5000n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(5000n);
 
       await expect(contract.requestPublicDecryption())
         .to.emit(contract, "DecryptionRequested");
     });
 
     it("Should fulfill decryption and make value public", async function () {
-      const mockValue = 2500n;
-      const mockProof = "0x";
-      const plainValue = 2500;
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(2500n);
       await contract.requestPublicDecryption();
 
-      // Simulate KMS callback
-      await expect(contract.fulfillDecryption(plainValue))
-        .to.emit(contract, "ValueDecrypted")
-        .withArgs(plainValue);
+      const [fulfilled] = await awaitPublicDecryption(contract);
+      expect(fulfilled.values).to.deep.equal([2500n]);
 
       const hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(true);
     });
 
-    it("Should retrieve decrypted public value", async function () {
-      const mockValue = 3000n;
-      const mockProof = "0x";
-      const plainValue = 3000;
+    it("Should deliver the decryption without the test asking", async function () {
+      await storeValue(6000n);
+      await contract.requestPublicDecryption();
+
+      // The mock relayer ran the callback once the request was mined
+      expect(await contract.getDecryptedValue()).to.equal(6000);
+    });
 
-      await contract.storeValue(mockValue, mockProof);
+    it("Should retrieve decrypted public value", async function () {
+      await storeValue(3000n);
       await contract.requestPublicDecryption();
-      await contract.fulfillDecryption(plainValue);
+      await awaitPublicDecryption(contract);
 
       const decrypted = await contract.getDecryptedValue();
-      expect(decrypted).to.equal(plainValue);
+      expect(decrypted).to.equal(3000);
     });
   });
 
   describe("State management", function () {
     it("Should track decryption status", async function () {
-      const mockValue = 1500n;
-      const mockProof = "0x";
-
       let hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(false);
 
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(1500n);
       hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(false);
 
       await contract.requestPublicDecryption();
-      await contract.fulfillDecryption(1500);
+      await awaitPublicDecryption(contract);
 
       hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(true);
     });
 
     it("Should reset decryption status when new value is stored", async function () {
-      const mockValue1 = 1000n;
-      const mockValue2 = 2000n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue1, mockProof);
+      await storeValue(1000n);
       await contract.requestPublicDecryption();
-      await contract.fulfillDecryption(1000);
+      await awaitPublicDecryption(contract);
 
       let hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(true);
 
       // Store new value should reset status
-      await contract.storeValue(mockValue2, mockProof);
+      await storeValue(2000n);
 
       hasDecrypted = await contract.hasDecrypted();
       expect(hasDecrypted).to.equal(false);
@@ -114,18 +118,19 @@ describe("PublicDecryptSingleValue", function () {
 
   describe("Key concepts", function () {
     it("Demonstrates encrypted to public workflow", async function () {
-      const mockValue = 7777n;
-      const mockProof = "0x";
-
       // Step 1: Store encrypted value
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(7777n);
 
       // Step 2: Request decryption
-      const requestId = await contract.requestPublicDecryption();
-      expect(requestId).to.not.be.undefined;
+      await expect(contract.requestPublicDecryption())
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(0);
 
-      // Step 3: KMS fulfills decryption
-      await contract.fulfillDecryption(7777);
+      // The handle is now publicly decryptable, no user permission involved
+      await expect(await contract.getEncryptedValue()).to.decryptTo(7777n);
+
+      // Step 3: KMS decrypts and the oracle calls back
+      await awaitPublicDecryption(contract);
 
       // Step 4: Value is now publicly readable
       const publicValue = await contract.getDecryptedValue();
@@ -133,19 +138,16 @@ describe("PublicDecryptSingleValue", function () {
     });
 
     it("Shows difference between encrypted handle and decrypted value", async function () {
-      const mockValue = 5555n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(5555n);
 
-      // Encrypted handle (euint32)
+      // Encrypted handle (euint32): a bytes32 that says nothing about the value
       const encryptedHandle = await contract.getEncryptedValue();
-      expect(encryptedHandle).to.not.be.undefined;
-      expect(typeof encryptedHandle).to.equal("object");
+      expect(encryptedHandle).to.match(/^0x[0-9a-f]{64}$/);
+      expect(BigInt(encryptedHandle)).to.not.equal(5555n);
 
       // After decryption - plain uint32
       await contract.requestPublicDecryption();
-      await contract.fulfillDecryption(5555);
+      await awaitPublicDecryption(contract);
 
       const plainValue = await contract.getDecryptedValue();
       expect(plainValue).to.equal(5555);
@@ -153,14 +155,15 @@ describe("PublicDecryptSingleValue", function () {
     });
 
     it("Demonstrates requestId generation", async function () {
-      const mockValue = 9999n;
-      const mockProof = "0x";
+      await storeValue(9999n);
 
-      await contract.storeValue(mockValue, mockProof);
-
-      // Request returns a unique ID
-      const requestId1 = await contract.requestPublicDecryption();
-      expect(requestId1).to.not.be.undefined;
+      // Request IDs count up per contract
+      await expect(contract.requestPublicDecryption())
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(0);
+      await expect(contract.requestPublicDecryption())
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(1);
     });
   });
 
@@ -171,24 +174,34 @@ describe("PublicDecryptSingleValue", function () {
     });
 
     it("Should revert when getting decrypted value before decryption", async function () {
-      const mockValue = 1000n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(1000n);
 
       await expect(contract.getDecryptedValue())
         .to.be.revertedWith("Value not yet decrypted");
     });
+
+    it("Should reject an input proof made for another user", async function () {
+      const input = await createEncryptedInput(contract, addr1).add32(1000n).encrypt();
+
+      await expect(contract.connect(owner).storeValue(input.handles[0], input.inputProof))
+        .to.be.revertedWith("InputVerifier: proof is not valid for this user and contract");
+    });
+
+    it("Should reject a decryption result not signed by the KMS", async function () {
+      await storeValue(1000n);
+      await contract.requestPublicDecryption();
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(contract.fulfillDecryption(0, forged, "0x"))
+        .to.be.revertedWithCustomError(contract, "InvalidKMSSignatures");
+    });
   });
 
   describe("Public vs User decryption", function () {
     it("PUBLIC: Anyone can read decrypted value", async function () {
-      const mockValue = 4444n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(4444n);
       await contract.requestPublicDecryption();
-      await contract.fulfillDecryption(4444);
+      await awaitPublicDecryption(contract);
 
       // Owner can read
       const value1 = await contract.getDecryptedValue();
@@ -200,17 +213,15 @@ describe("PublicDecryptSingleValue", function () {
     });
 
     it("Shows that public decryption is a two-step process", async function () {
-      const mockValue = 8888n;
-      const mockProof = "0x";
-
       // Step 1: Store encrypted
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(8888n);
 
       // Cannot read yet
       await expect(contract.getDecryptedValue())
         .to.be.revertedWith("Value not yet decrypted");
 
-      // Step 2: Request decryption
+      // Step 2: Request decryption, holding the relayer to look at the pending state
+      holdDecryptions();
       await contract.requestPublicDecryption();
 
       // Still cannot read (waiting for KMS)
@@ -218,7 +229,7 @@ describe("PublicDecryptSingleValue", function () {
         .to.be.revertedWith("Value not yet decrypted");
 
       // Step 3: KMS fulfills
-      await contract.fulfillDecryption(8888);
+      await awaitPublicDecryption(contract);
 
       // Now publicly readable
       const value = await contract.getDecryptedValue();
@@ -228,10 +239,8 @@ describe("PublicDecryptSingleValue", function () {
 
   describe("Anti-patterns", function () {
     it("ANTI-PATTERN: Must wait for KMS to fulfill decryption", async function () {
-      const mockValue = 3333n;
-      const mockProof = "0x";
-
-      await contract.storeValue(mockValue, mockProof);
+      await storeValue(3333n);
+      holdDecryptions();
       await contract.requestPublicDecryption();
 
       // ANTI-PATTERN: Cannot read immediately after requesting
@@ -240,7 +249,7 @@ describe("PublicDecryptSingleValue", function () {
         .to.be.revertedWith("Value not yet decrypted");
 
       // Correct: Wait for fulfillment
-      await contract.fulfillDecryption(3333);
+      await awaitPublicDecryption(contract);
       const value = await contract.getDecryptedValue();
       expect(value).to.equal(3333);
     });
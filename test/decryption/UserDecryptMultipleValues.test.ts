@@ -1,146 +1,122 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { createEncryptedInput, installFhevmMock, userDecrypt } from "../helpers/fhevm";
 
 /**
  * Test suite for UserDecryptMultipleValues contract
  *
+ * @name user-decrypt-multiple
  * @chapter decryption
  * @description Demonstrates how users can decrypt multiple encrypted values of different types
+ * @keyFeature Batch decryption requests
+ * @keyFeature Selective value decryption
+ * @keyFeature Multiple encrypted types
+ * @keyFeature Efficient permission management
  */
 describe("UserDecryptMultipleValues", function () {
   let contract: any;
   let owner: any;
   let addr1: any;
 
+  before(async function () {
+    await installFhevmMock();
+  });
+
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("UserDecryptMultipleValues");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1] = await ethers.getSigners();
   });
 
+  // Encrypts both values in one input and stores them for `signer`
+  async function storeData(score: bigint, achievements: bigint, signer: any = owner) {
+    const input = await createEncryptedInput(contract, signer).add64(score).add32(achievements).encrypt();
+    return contract
+      .connect(signer)
+      .storeData(input.handles[0], input.inputProof, input.handles[1], input.inputProof);
+  }
+
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("Multiple value decryption", function () {
     it("Should store multiple encrypted values", async function () {
-      const mockScore = 1000n;
-      const mockAchievements = 25n;
-      const mockProof = "0x";
-
-      await expect(
-        contract.storeData(
-          mockScore,
-          mockProof,
-          mockAchievements,
-          mockProof
-        )
-      ).to.emit(contract, "DataStored");
+      await expect(storeData(1000n, 25n)).to.emit(contract, "DataStored");
     });
 
     it("Should request decryption of all values", async function () {
-      const mockScore = 5000n;
-      const mockAchievements = 30n;
-      const mockProof = "0x";
-
-      await contract.storeData(
-        mockScore,
-        mockProof,
-        mockAchievements,
-        mockProof
-      );
+      await storeData(5000n, 30n);
 
       await expect(contract.requestDecryptionAll())
         .to.emit(contract, "MultipleDecryptionsRequested");
+
+      const [score, achievements] = await contract.requestDecryptionAll.staticCall();
+      await expect(score).to.decryptTo(5000n, owner, contract);
+      await expect(achievements).to.decryptTo(30n, owner, contract);
     });
 
     it("Should request decryption of score only", async function () {
-      const mockScore = 7500n;
-      const mockAchievements = 35n;
-      const mockProof = "0x";
-
-      await contract.storeData(
-        mockScore,
-        mockProof,
-        mockAchievements,
-        mockProof
-      );
+      await storeData(7500n, 35n);
 
-      const score = await contract.requestDecryptScore();
-      expect(score).to.not.be.undefined;
+      const score = await contract.requestDecryptScore.staticCall();
+      expect(await userDecrypt(score, contract, owner)).to.equal(7500n);
     });
 
     it("Should request decryption of achievements only", async function () {
-      const mockScore = 3000n;
-      const mockAchievements = 15n;
-      const mockProof = "0x";
+      await storeData(3000n, 15n);
 
-      await contract.storeData(
-        mockScore,
-        mockProof,
-        mockAchievements,
-        mockProof
-      );
-
-      const achievements = await contract.requestDecryptAchievements();
-      expect(achievements).to.not.be.undefined;
+      const achievements = await contract.requestDecryptAchievements.staticCall();
+      expect(await userDecrypt(achievements, contract, owner)).to.equal(15n);
     });
   });
 
   describe("Access control for multiple values", function () {
     it("Should maintain separate encrypted data per user", async function () {
-      const mockProof = "0x";
-
       // Owner sets data
-      await contract.storeData(1000n, mockProof, 25n, mockProof);
+      await storeData(1000n, 25n);
 
       // Another user sets different data
-      await contract.connect(addr1).storeData(2000n, mockProof, 30n, mockProof);
+      await storeData(2000n, 30n, addr1);
 
-      // Request decryption for each user
-      await expect(contract.requestDecryptionAll())
-        .to.emit(contract, "MultipleDecryptionsRequested");
+      const [ownerScore] = await contract.requestDecryptionAll.staticCall();
+      const [addr1Score] = await contract.connect(addr1).requestDecryptionAll.staticCall();
 
-      await expect(contract.connect(addr1).requestDecryptionAll())
-        .to.emit(contract, "MultipleDecryptionsRequested");
+      await expect(ownerScore).to.decryptTo(1000n, owner, contract);
+      await expect(addr1Score).to.decryptTo(2000n, addr1, contract);
     });
 
     it("Should grant proper permissions for all values", async function () {
-      const mockProof = "0x";
+      await storeData(3000n, 28n);
 
-      await contract.storeData(3000n, mockProof, 28n, mockProof);
+      // All values should be decryptable by the owner, and only by the owner
+      const [score, achievements] = await contract.requestDecryptionAll.staticCall();
+      expect(await userDecrypt(score, contract, owner)).to.equal(3000n);
+      expect(await userDecrypt(achievements, contract, owner)).to.equal(28n);
 
-      // All values should be accessible by the owner
-      const score = await contract.requestDecryptScore();
-      const achievements = await contract.requestDecryptAchievements();
-
-      expect(score).to.not.be.undefined;
-      expect(achievements).to.not.be.undefined;
+      let error: Error | undefined;
+      try {
+        await userDecrypt(achievements, contract, addr1);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("is not allowed to decrypt");
     });
   });
 
   describe("Key concepts", function () {
     it("Demonstrates handling multiple encrypted types", async function () {
       // euint64 for score, euint32 for achievements
-      const mockScore = 999999n; // euint64
-      const mockAchievements = 100n; // euint32
-      const mockProof = "0x";
-
-      await contract.storeData(
-        mockScore,
-        mockProof,
-        mockAchievements,
-        mockProof
-      );
+      await storeData(999999n, 100n);
 
-      const allData = await contract.requestDecryptionAll();
-      expect(allData).to.not.be.undefined;
+      const [score, achievements] = await contract.requestDecryptionAll.staticCall();
+      await expect(score).to.decryptTo(999999n, owner);
+      await expect(achievements).to.decryptTo(100n, owner);
     });
 
     it("Shows efficient batch decryption of encrypted data", async function () {
-      const mockProof = "0x";
-
-      await contract.storeData(5000n, mockProof, 25n, mockProof);
+      await storeData(5000n, 25n);
 
       // More efficient to decrypt all at once
       await expect(contract.requestDecryptionAll())
@@ -148,37 +124,33 @@ describe("UserDecryptMultipleValues", function () {
     });
 
     it("Demonstrates input proof requirement for each value", async function () {
-      // Each encrypted value requires its own input proof
-      const mockProof = "0x";
+      // Each encrypted value comes with a proof; one proof may cover several values
+      const input = await createEncryptedInput(contract, owner).add64(1000n).add32(25n).encrypt();
 
       await expect(
-        contract.storeData(
-          1000n, mockProof,  // score + proof
-          25n, mockProof     // achievements + proof
-        )
+        contract.storeData(input.handles[0], input.inputProof, input.handles[1], "0x")
+      ).to.be.revertedWith("InputVerifier: empty input proof");
+      await expect(
+        contract.storeData(input.handles[0], input.inputProof, input.handles[1], input.inputProof)
       ).to.emit(contract, "DataStored");
     });
 
     it("Demonstrates selective decryption", async function () {
-      const mockProof = "0x";
-
-      await contract.storeData(2500n, mockProof, 22n, mockProof);
+      await storeData(2500n, 22n);
 
       // Can decrypt only score
-      const score = await contract.requestDecryptScore();
-      expect(score).to.not.be.undefined;
+      const score = await contract.requestDecryptScore.staticCall();
+      await expect(score).to.decryptTo(2500n, owner, contract);
 
       // Or only achievements
-      const achievements = await contract.requestDecryptAchievements();
-      expect(achievements).to.not.be.undefined;
+      const achievements = await contract.requestDecryptAchievements.staticCall();
+      await expect(achievements).to.decryptTo(22n, owner, contract);
     });
   });
 
   describe("Decryption patterns", function () {
     it("Shows proper permission model for multi-value decryption", async function () {
-      const mockProof = "0x";
-
-      await contract.storeData(10000n, mockProof, 40n, mockProof);
+      await storeData(10000n, 40n);
 
       // requestDecryptionAll grants FHE.allow() for both values
       await expect(contract.requestDecryptionAll())
@@ -186,16 +158,15 @@ describe("UserDecryptMultipleValues", function () {
     });
 
     it("Demonstrates that decryption functions return encrypted handles", async function () {
-      const mockProof = "0x";
-
-      await contract.storeData(5000n, mockProof, 30n, mockProof);
+      await storeData(5000n, 30n);
 
       // These are encrypted handles that need client-side decryption
-      const score = await contract.requestDecryptScore();
-      const achievements = await contract.requestDecryptAchievements();
+      const score = await contract.requestDecryptScore.staticCall();
+      const achievements = await contract.requestDecryptAchievements.staticCall();
 
-      expect(typeof score).to.equal("object");
-      expect(typeof achievements).to.equal("object");
+      expect(score).to.match(/^0x[0-9a-f]{64}$/);
+      expect(achievements).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await userDecrypt(score, contract, owner)).to.equal(5000n);
     });
   });
 
@@ -218,13 +189,11 @@ describe("UserDecryptMultipleValues", function () {
 
   describe("Anti-patterns", function () {
     it("ANTI-PATTERN: Must use decryption request functions", async function () {
-      const mockProof = "0x";
-
-      await contract.storeData(5000n, mockProof, 30n, mockProof);
+      await storeData(5000n, 30n);
 
       // Correct: Use request functions that grant FHE.allow() permission
-      const score = await contract.requestDecryptScore();
-      expect(score).to.not.be.undefined;
+      const score = await contract.requestDecryptScore.staticCall();
+      await expect(score).to.decryptTo(5000n, owner, contract);
 
       // ANTI-PATTERN: Cannot decrypt without proper permission grants
       // View functions alone don't provide decryption permissions
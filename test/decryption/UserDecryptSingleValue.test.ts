@@ -1,68 +1,75 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { createEncryptedInput, installFhevmMock, userDecrypt } from "../helpers/fhevm";
 
 /**
  * Test suite for UserDecryptSingleValue contract
  *
+ * @name user-decrypt-single
  * @chapter decryption
  * @description Demonstrates how users can decrypt their own encrypted values using FHEVM
+ * @keyFeature User-initiated decryption
+ * @keyFeature FHE.allow() for decryption permission
+ * @keyFeature Request-based decryption pattern
+ * @keyFeature Per-user encrypted storage
  */
 describe("UserDecryptSingleValue", function () {
   let contract: any;
   let owner: any;
   let addr1: any;
 
+  before(async function () {
+    await installFhevmMock();
+  });
+
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("UserDecryptSingleValue");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1] = await ethers.getSigners();
   });
 
+  // Encrypts `score` for `signer` and stores it in the contract
+  async function storeScore(score: bigint, signer: any = owner) {
+    const input = await createEncryptedInput(contract, signer).add64(score).encrypt();
+    return contract.connect(signer).storeScore(input.handles[0], input.inputProof);
+  }
+
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("Single value decryption", function () {
     it("Should store and retrieve encrypted score", async function () {
-      const mockScore = 1000n;
-      const mockProof = "0x";
-
-      await expect(
-        contract.storeScore(mockScore, mockProof)
-      ).to.emit(contract, "ScoreStored");
+      await expect(storeScore(1000n)).to.emit(contract, "ScoreStored");
 
       const encryptedScore = await contract.getEncryptedScore();
-      expect(encryptedScore).to.not.be.undefined;
+      expect(await userDecrypt(encryptedScore, contract, owner)).to.equal(1000n);
     });
 
     it("Should allow user to request decryption of their score", async function () {
-      const mockScore = 5000n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
+      await storeScore(5000n);
 
-      // Note: In production, decryption would involve requesting from the KMS
       await expect(contract.requestDecryption())
-        .to.emit(contract, "DecryptionRequested");
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(owner.address);
+
+      // The user decrypts the returned handle off-chain through the KMS
+      const handle = await contract.requestDecryption.staticCall();
+      await expect(handle).to.decryptTo(5000n, owner, contract);
     });
 
     it("Should emit event when score is stored", async function () {
-      const mockScore = 2500n;
-      const mockProof = "0x";
-
-      await expect(contract.storeScore(mockScore, mockProof))
+      await expect(storeScore(2500n))
         .to.emit(contract, "ScoreStored")
         .withArgs(owner.address);
     });
 
     it("Should check if user has a score", async function () {
-      const mockScore = 3000n;
-      const mockProof = "0x";
-
       let hasScore = await contract.hasScore(owner.address);
       expect(hasScore).to.equal(false);
 
-      await contract.storeScore(mockScore, mockProof);
+      await storeScore(3000n);
 
       hasScore = await contract.hasScore(owner.address);
       expect(hasScore).to.equal(true);
@@ -71,73 +78,64 @@ describe("UserDecryptSingleValue", function () {
 
   describe("Access control for decryption", function () {
     it("Should only allow owner to access their encrypted score", async function () {
-      const mockScore = 3000n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
+      await storeScore(3000n);
 
-      // Owner can access their score
+      // Owner can decrypt their score
       const ownerScore = await contract.getEncryptedScore();
-      expect(ownerScore).to.not.be.undefined;
-
-      // Different user would have different encrypted data
-      await contract.connect(addr1).storeScore(4000n, mockProof);
-      const addr1Score = await contract.connect(addr1).getEncryptedScore();
-
-      expect(ownerScore).to.not.deep.equal(addr1Score);
+      expect(await userDecrypt(ownerScore, contract, owner)).to.equal(3000n);
+
+      // Another user cannot
+      let error: Error | undefined;
+      try {
+        await userDecrypt(ownerScore, contract, addr1);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("is not allowed to decrypt");
     });
 
     it("Demonstrates FHE.allow() permission requirement", async function () {
-      // This test shows that FHE.allow() must be called to grant decryption permission
-      const mockScore = 7500n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
+      // Permission is granted in storeScore through FHE.allow()
+      await storeScore(7500n);
 
-      // Permission is automatically granted in storeScore through FHE.allow()
-      const score = await contract.getEncryptedScore();
-      expect(score).to.not.be.undefined;
+      await expect(await contract.getEncryptedScore()).to.decryptTo(7500n, owner, contract);
     });
   });
 
   describe("Key concepts", function () {
     it("Demonstrates encrypted value storage with euint64", async function () {
-      const mockScore = 999999n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
-      const score = await contract.getEncryptedScore();
+      await storeScore(999999n);
 
-      expect(score).to.not.be.undefined;
+      await expect(await contract.getEncryptedScore()).to.decryptTo(999999n, owner);
     });
 
     it("Shows input proof requirement for encryption", async function () {
-      // Input proofs are required for converting external encrypted values
-      const mockScore = 12345n;
-      const mockProof = "0x"; // In production, this would be a real ZK proof
-
-      await expect(contract.storeScore(mockScore, mockProof))
+      // Input proofs bind the ciphertext to one user and one contract
+      const input = await createEncryptedInput(contract, owner).add64(12345n).encrypt();
+
+      await expect(contract.connect(addr1).storeScore(input.handles[0], input.inputProof))
+        .to.be.revertedWith("InputVerifier: proof is not valid for this user and contract");
+      await expect(contract.storeScore(input.handles[0], "0x"))
+        .to.be.revertedWith("InputVerifier: empty input proof");
+      await expect(contract.storeScore(input.handles[0], input.inputProof))
         .to.emit(contract, "ScoreStored");
     });
 
     it("Demonstrates per-user encrypted storage", async function () {
-      const mockProof = "0x";
-
-      await contract.storeScore(1000n, mockProof);
-      await contract.connect(addr1).storeScore(2000n, mockProof);
+      await storeScore(1000n);
+      await storeScore(2000n, addr1);
 
       const score1 = await contract.getEncryptedScore();
       const score2 = await contract.connect(addr1).getEncryptedScore();
 
       // Each user has their own encrypted score
       expect(score1).to.not.deep.equal(score2);
+      await expect(score1).to.decryptTo(1000n, owner, contract);
+      await expect(score2).to.decryptTo(2000n, addr1, contract);
     });
 
     it("Demonstrates explicit decryption request", async function () {
-      const mockScore = 5555n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
+      await storeScore(5555n);
 
       // Request decryption explicitly
       await expect(contract.requestDecryption())
@@ -145,18 +143,23 @@ describe("UserDecryptSingleValue", function () {
     });
   });
 
+  describe("Error handling", function () {
+    it("Should revert when requesting decryption of uninitialized score", async function () {
+      await expect(contract.requestDecryption())
+        .to.be.revertedWith("Score not initialized");
+    });
+  });
+
   describe("Anti-patterns and common mistakes", function () {
     it("ANTI-PATTERN: Cannot use view function to return decrypted value", async function () {
       // This is correct - getEncryptedScore returns encrypted euint64, not decrypted value
       // View functions cannot decrypt values
-      const mockScore = 5000n;
-      const mockProof = "0x";
-
-      await contract.storeScore(mockScore, mockProof);
+      await storeScore(5000n);
       const encryptedValue = await contract.getEncryptedScore();
 
       // This is an encrypted handle, not the actual value
-      expect(encryptedValue).to.not.be.undefined;
+      expect(encryptedValue).to.match(/^0x[0-9a-f]{64}$/);
+      expect(BigInt(encryptedValue)).to.not.equal(5000n);
     });
   });
 });
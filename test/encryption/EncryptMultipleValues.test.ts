@@ -1,164 +1,145 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { createEncryptedInput, installFhevmMock, userDecrypt } from "../helpers/fhevm";
 
 /**
  * Test suite for EncryptMultipleValues contract
  *
  * @chapter encryption
  * @description Demonstrates how to encrypt and store multiple values of different types using FHEVM
+ * @keyFeature Multi-value encryption (euint64, euint32, euint8)
+ * @keyFeature Struct-based storage
+ * @keyFeature Batch permission grants
+ * @keyFeature Type-safe encryption
  */
 describe("EncryptMultipleValues", function () {
   let contract: any;
   let owner: any;
   let addr1: any;
 
+  before(async function () {
+    await installFhevmMock();
+  });
+
   beforeEach(async function () {
     const Factory = await ethers.getContractFactory("EncryptMultipleValues");
     contract = await Factory.deploy();
+    await contract.waitForDeployment();
     [owner, addr1] = await ethers.getSigners();
   });
 
+  // Encrypts the three values in one input; its single proof covers every handle
+  async function storeMultipleValues(score: bigint, level: bigint, category: bigint, signer: any = owner) {
+    const input = await createEncryptedInput(contract, signer).add64(score).add32(level).add8(category).encrypt();
+    return contract
+      .connect(signer)
+      .storeMultipleValues(
+        input.handles[0],
+        input.inputProof,
+        input.handles[1],
+        input.inputProof,
+        input.handles[2],
+        input.inputProof
+      );
+  }
+
   it("Should deploy successfully", async function () {
-    expect(contract.address).to.not.be.undefined;
+    expect(await contract.getAddress()).to.be.properAddress;
   });
 
   describe("Multiple value encryption", function () {
     it("Should store multiple encrypted values with proper types", async function () {
-      // Note: In production, these would be proper encrypted inputs with proofs
-      // For testing purposes, we demonstrate the function signature
-      const mockScore = 1000n;
-      const mockLevel = 5n;
-      const mockCategory = 2n;
-
-      const mockProof = "0x";
-
-      await expect(
-        contract.storeMultipleValues(
-          mockScore,
-          mockProof,
-          mockLevel,
-          mockProof,
-          mockCategory,
-          mockProof
-        )
-      ).to.emit(contract, "MultipleValuesEncrypted");
+      await expect(storeMultipleValues(1000n, 5n, 2n))
+        .to.emit(contract, "MultipleValuesEncrypted")
+        .withArgs(owner.address);
     });
 
     it("Should handle different encrypted types (euint64, euint32, euint8)", async function () {
-      // This test demonstrates type handling
-      const mockScore = 999999n; // euint64
-      const mockLevel = 100n;     // euint32
-      const mockCategory = 10n;   // euint8
-      const mockProof = "0x";
-
-      await contract.storeMultipleValues(
-        mockScore,
-        mockProof,
-        mockLevel,
-        mockProof,
-        mockCategory,
-        mockProof
-      );
+      await storeMultipleValues(999999n, 100n, 10n);
 
-      // Verify we can retrieve the encrypted values
-      const score = await contract.getEncryptedScore();
-      const level = await contract.getEncryptedLevel();
-      const category = await contract.getEncryptedCategory();
-
-      expect(score).to.not.be.undefined;
-      expect(level).to.not.be.undefined;
-      expect(category).to.not.be.undefined;
+      await expect(await contract.getEncryptedScore()).to.decryptTo(999999n, owner, contract);
+      await expect(await contract.getEncryptedLevel()).to.decryptTo(100n, owner, contract);
+      await expect(await contract.getEncryptedCategory()).to.decryptTo(10n, owner, contract);
     });
 
     it("Should retrieve all encrypted data at once", async function () {
-      const mockScore = 5000n;
-      const mockLevel = 3n;
-      const mockCategory = 1n;
-      const mockProof = "0x";
-
-      await contract.storeMultipleValues(
-        mockScore,
-        mockProof,
-        mockLevel,
-        mockProof,
-        mockCategory,
-        mockProof
-      );
+      await storeMultipleValues(5000n, 3n, 1n);
 
       const allData = await contract.getAllEncryptedData();
-      expect(allData).to.not.be.undefined;
       expect(allData.length).to.equal(3);
+
+      const values = await Promise.all([...allData].map(handle => userDecrypt(handle, contract, owner)));
+      expect(values).to.deep.equal([5000n, 3n, 1n]);
+    });
+
+    it("Should reject a value that does not fit its encrypted type", async function () {
+      let error: Error | undefined;
+      try {
+        await storeMultipleValues(1n, 1n, 256n);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("does not fit FheType Uint8");
+    });
+
+    it("Should reject handles passed in the wrong order", async function () {
+      const input = await createEncryptedInput(contract, owner).add64(1000n).add32(5n).add8(2n).encrypt();
+
+      await expect(
+        contract.storeMultipleValues(
+          input.handles[1],
+          input.inputProof,
+          input.handles[0],
+          input.inputProof,
+          input.handles[2],
+          input.inputProof
+        )
+      ).to.be.revertedWith("InputVerifier: wrong input type");
     });
   });
 
   describe("Access control", function () {
     it("Should store encrypted data per user", async function () {
-      const mockScore1 = 1000n;
-      const mockLevel1 = 5n;
-      const mockCategory1 = 2n;
-      const mockProof = "0x";
-
-      await contract.storeMultipleValues(
-        mockScore1,
-        mockProof,
-        mockLevel1,
-        mockProof,
-        mockCategory1,
-        mockProof
-      );
-
-      const mockScore2 = 2000n;
-      const mockLevel2 = 7n;
-      const mockCategory2 = 3n;
-
-      await contract.connect(addr1).storeMultipleValues(
-        mockScore2,
-        mockProof,
-        mockLevel2,
-        mockProof,
-        mockCategory2,
-        mockProof
-      );
+      await storeMultipleValues(1000n, 5n, 2n);
+      await storeMultipleValues(2000n, 7n, 3n, addr1);
 
       // Each user should have their own encrypted data
       const ownerData = await contract.getAllEncryptedData();
       const addr1Data = await contract.connect(addr1).getAllEncryptedData();
 
       expect(ownerData).to.not.deep.equal(addr1Data);
+      await expect(ownerData.score).to.decryptTo(1000n, owner, contract);
+      await expect(addr1Data.score).to.decryptTo(2000n, addr1, contract);
+    });
+
+    it("Should not let another user decrypt the values", async function () {
+      await storeMultipleValues(1000n, 5n, 2n);
+
+      let error: Error | undefined;
+      try {
+        await userDecrypt(await contract.getEncryptedScore(), contract, addr1);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain("is not allowed to decrypt");
     });
   });
 
   describe("Key concepts", function () {
     it("Demonstrates FHE.fromExternal() for multiple types", async function () {
       // This test shows how FHE.fromExternal() is used for each encrypted type
-      const mockProof = "0x";
-
-      await contract.storeMultipleValues(
-        100n,   // euint64
-        mockProof,
-        50n,    // euint32
-        mockProof,
-        5n,     // euint8
-        mockProof
-      );
+      await storeMultipleValues(100n, 50n, 5n);
 
-      expect(await contract.getEncryptedScore()).to.not.be.undefined;
+      await expect(await contract.getEncryptedScore()).to.decryptTo(100n, owner);
     });
 
     it("Demonstrates proper permission granting for multiple values", async function () {
       // Shows that FHE.allowThis() and FHE.allow() must be called for each encrypted value
-      const mockProof = "0x";
+      await storeMultipleValues(1000n, 100n, 10n);
 
-      await expect(
-        contract.storeMultipleValues(
-          1000n,
-          mockProof,
-          100n,
-          mockProof,
-          10n,
-          mockProof
-        )
-      ).to.emit(contract, "MultipleValuesEncrypted");
+      for (const handle of await contract.getAllEncryptedData()) {
+        expect(await userDecrypt(handle, contract, owner)).to.be.a("bigint");
+      }
     });
   });
 });
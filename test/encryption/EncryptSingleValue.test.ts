@@ -1,34 +1,81 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { createEncryptedInput, installFhevmMock, userDecrypt } from "../helpers/fhevm";
 
+/**
+ * Test suite for EncryptSingleValue contract
+ *
+ * @chapter encryption
+ * @description Demonstrates how to encrypt a single value using FHEVM
+ * @keyFeature FHE.fromExternal() usage
+ * @keyFeature Input proof validation
+ * @keyFeature Single value encryption
+ * @keyFeature Access control setup
+ */
 describe("EncryptSingleValue", function () {
   let encrypt: any;
   let owner: any;
+  let addr1: any;
+
+  before(async function () {
+    await installFhevmMock();
+  });
 
   beforeEach(async function () {
     const EncryptFactory = await ethers.getContractFactory("EncryptSingleValue");
     encrypt = await EncryptFactory.deploy();
-    [owner] = await ethers.getSigners();
+    await encrypt.waitForDeployment();
+    [owner, addr1] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(encrypt.address).to.not.be.undefined;
+    expect(await encrypt.getAddress()).to.be.properAddress;
   });
 
   it("Should store encrypted value", async function () {
-    const inputValue = 12345n;
-    const inputProof = ethers.toBeHex(0);
-    
-    await expect(encrypt.storeEncryptedValue(inputValue, inputProof))
-      .to.emit(encrypt, "ValueEncrypted");
+    const input = await createEncryptedInput(encrypt, owner).add64(12345n).encrypt();
+
+    await expect(encrypt.storeEncryptedValue(input.handles[0], input.inputProof))
+      .to.emit(encrypt, "ValueEncrypted")
+      .withArgs(owner.address);
   });
 
   it("Should retrieve encrypted value", async function () {
-    const inputValue = 12345n;
-    const inputProof = ethers.toBeHex(0);
-    
-    await encrypt.storeEncryptedValue(inputValue, inputProof);
+    const input = await createEncryptedInput(encrypt, owner).add64(12345n).encrypt();
+
+    await encrypt.storeEncryptedValue(input.handles[0], input.inputProof);
     const retrieved = await encrypt.getEncryptedValue();
-    expect(retrieved).to.not.be.undefined;
+    expect(await userDecrypt(retrieved, encrypt, owner)).to.equal(12345n);
+  });
+
+  it("Should replace the value on update", async function () {
+    const first = await createEncryptedInput(encrypt, owner).add64(1n).encrypt();
+    await encrypt.storeEncryptedValue(first.handles[0], first.inputProof);
+
+    const second = await createEncryptedInput(encrypt, owner).add64(2n).encrypt();
+    await encrypt.updateEncryptedValue(second.handles[0], second.inputProof);
+
+    await expect(await encrypt.getEncryptedValue()).to.decryptTo(2n, owner, encrypt);
+  });
+
+  it("Should not let another user decrypt the value", async function () {
+    const input = await createEncryptedInput(encrypt, owner).add64(12345n).encrypt();
+    await encrypt.storeEncryptedValue(input.handles[0], input.inputProof);
+
+    const handle = await encrypt.getEncryptedValue();
+    let error: Error | undefined;
+    try {
+      await userDecrypt(handle, encrypt, addr1);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.contain("is not allowed to decrypt");
+  });
+
+  it("Should reject an input proof made for another user", async function () {
+    const input = await createEncryptedInput(encrypt, addr1).add64(12345n).encrypt();
+
+    await expect(encrypt.storeEncryptedValue(input.handles[0], input.inputProof))
+      .to.be.revertedWith("InputVerifier: proof is not valid for this user and contract");
   });
 });
@@ -0,0 +1,361 @@
+/**
+ * fhevm-mock - In-process FHEVM for tests on the Hardhat network
+ *
+ * Installs the mock host contracts from contracts/mocks/fhevm at the addresses
+ * `SepoliaConfig` points to, so example contracts run unchanged and offline:
+ *
+ *   MockFHEVMExecutor     Evaluates FHE operations on plaintexts stored by handle
+ *   MockACL               Enforces FHE.allow / allowThis / allowTransient
+ *   MockInputVerifier     Accepts only input proofs produced by encryptInputs()
+ *   MockKMSVerifier       Accepts only decryption results signed by the mock KMS
+ *   MockDecryptionOracle  Queues FHE.requestDecryption() calls for the mock relayer
+ *
+ * Like the relayer on Sepolia, the mock relayer answers decryption requests on
+ * its own: after every mined block it decrypts the new requests and calls the
+ * contracts back. awaitDecryptionOracle() hands the answers to the test.
+ *
+ * Usage:
+ *
+ *   before(async () => { await installFhevmMock(); });
+ *
+ *   const { handles, inputProof } = await encryptInputs(contractAddress, user.address, [
+ *     { type: FheType.Uint32, value: 42n },
+ *   ]);
+ *   await contract.connect(user).store(handles[0], inputProof);
+ *   await contract.requestDecryption(); // the contract's decryption callback has run
+ *   const [answer] = await awaitDecryptionOracle();
+ */
+
+import { artifacts, ethers, network } from "hardhat";
+
+// Host contract addresses, see contracts/mocks/fhevm/FHEVMMockConfig.sol
+export const FHEVM_MOCK_ADDRESSES = {
+  acl: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  executor: "0x848B0066793BcC60346Da1F49049357399B8D595",
+  inputVerifier: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+  kmsVerifier: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+  decryptionOracle: "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812",
+};
+
+// FheType values of @fhevm/solidity supported by the mock
+export enum FheType {
+  Bool = 0,
+  Uint4 = 1,
+  Uint8 = 2,
+  Uint16 = 3,
+  Uint32 = 4,
+  Uint64 = 5,
+  Uint128 = 6,
+  Uint160 = 7,
+  Uint256 = 8,
+}
+
+export const FHE_TYPE_BITS: Record<FheType, number> = {
+  [FheType.Bool]: 1,
+  [FheType.Uint4]: 4,
+  [FheType.Uint8]: 8,
+  [FheType.Uint16]: 16,
+  [FheType.Uint32]: 32,
+  [FheType.Uint64]: 64,
+  [FheType.Uint128]: 128,
+  [FheType.Uint160]: 160,
+  [FheType.Uint256]: 256,
+};
+
+// One plaintext to encrypt; addresses are encrypted as Uint160
+export interface PlainInput {
+  type: FheType;
+  value: bigint | number | boolean | string;
+}
+
+// What a contract receives for an encrypted input: one handle per value and a shared proof
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+// A public decryption request delivered by the mock relayer
+export interface FulfilledDecryption {
+  requestID: bigint;
+  contractAddress: string;
+  handles: string[];
+  values: bigint[];
+}
+
+// Mock contract installed at each host address
+const MOCK_CONTRACTS: Record<keyof typeof FHEVM_MOCK_ADDRESSES, string> = {
+  acl: "MockACL",
+  executor: "MockFHEVMExecutor",
+  inputVerifier: "MockInputVerifier",
+  kmsVerifier: "MockKMSVerifier",
+  decryptionOracle: "MockDecryptionOracle",
+};
+
+const HANDLE_VERSION = 0;
+
+// Test-only keys of the mock coprocessor and KMS; they are public, never reuse them
+const coprocessorSigner = new ethers.Wallet(ethers.id("fhevm-mock:coprocessor-signer"));
+const kmsSigner = new ethers.Wallet(ethers.id("fhevm-mock:kms-signer"));
+
+// Account the mock relayer sends decryption callbacks from
+const RELAYER_ADDRESS = ethers.getAddress(ethers.dataSlice(ethers.id("fhevm-mock:relayer"), 12));
+
+// JSON-RPC methods that mine a block; the mock relayer looks for new requests after each of them
+const MINING_METHODS = new Set(["eth_sendTransaction", "eth_sendRawTransaction", "evm_mine", "hardhat_mine"]);
+
+// Answers the relayer delivered that no test has collected with awaitDecryptionOracle() yet
+const delivered: FulfilledDecryption[] = [];
+
+// Oracle counter of the first request the relayer has not looked at
+let nextCounter = 0n;
+let relaying = false;
+let held = false;
+let relayerHooked = false;
+
+/**
+ * Installs the mock FHEVM on the Hardhat network. Safe to call from every
+ * test file: nothing happens when the mock is already installed.
+ */
+export async function installFhevmMock(): Promise<void> {
+  if (network.name !== "hardhat") {
+    throw new Error(`The FHEVM mock only runs on the Hardhat network, not on "${network.name}"`);
+  }
+
+  delivered.length = 0;
+  held = false;
+  relayAfterMining();
+
+  const inputVerifier = await ethers.getContractAt("MockInputVerifier", FHEVM_MOCK_ADDRESSES.inputVerifier);
+  if ((await ethers.provider.getCode(FHEVM_MOCK_ADDRESSES.inputVerifier)) !== "0x") {
+    if ((await inputVerifier.signer()) === coprocessorSigner.address) {
+      return;
+    }
+  }
+
+  for (const [key, contractName] of Object.entries(MOCK_CONTRACTS)) {
+    const artifact = await artifacts.readArtifact(contractName);
+    await network.provider.send("hardhat_setCode", [
+      FHEVM_MOCK_ADDRESSES[key as keyof typeof FHEVM_MOCK_ADDRESSES],
+      artifact.deployedBytecode,
+    ]);
+  }
+
+  // Installed code runs no constructor, so the signers are set afterwards
+  const kmsVerifier = await ethers.getContractAt("MockKMSVerifier", FHEVM_MOCK_ADDRESSES.kmsVerifier);
+  await (await inputVerifier.initialize(coprocessorSigner.address)).wait();
+  await (await kmsVerifier.initialize(kmsSigner.address)).wait();
+  await network.provider.send("hardhat_setBalance", [RELAYER_ADDRESS, ethers.toQuantity(ethers.parseEther("1000"))]);
+}
+
+function toUint(input: PlainInput): bigint {
+  const { type, value } = input;
+  // BigInt() also takes booleans and 0x-prefixed addresses
+  const result = BigInt(value);
+
+  if (result < 0n || result >= 1n << BigInt(FHE_TYPE_BITS[type])) {
+    throw new Error(`Value ${value} does not fit FheType ${FheType[type]}`);
+  }
+  return result;
+}
+
+/** Builds a handle with the layout of FHEVMMockConfig.toHandle(). */
+function toHandle(prehandle: string, index: number, type: FheType, chainId: bigint): string {
+  const hash = ethers.dataSlice(prehandle, 0, 21);
+  return ethers.concat([
+    hash,
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(type, 1),
+    ethers.toBeHex(HANDLE_VERSION, 1),
+  ]);
+}
+
+/**
+ * Encrypts plaintexts for one user and one contract, like the relayer SDK
+ * does in a browser. The proof is only accepted when `userAddress` sends the
+ * handles to `contractAddress`.
+ */
+export async function encryptInputs(
+  contractAddress: string,
+  userAddress: string,
+  inputs: PlainInput[]
+): Promise<EncryptedInputs> {
+  if (inputs.length === 0 || inputs.length > 255) {
+    throw new Error("An encrypted input holds between 1 and 255 values");
+  }
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const { chainId } = await ethers.provider.getNetwork();
+  const values = inputs.map(toUint);
+  const salt = ethers.hexlify(ethers.randomBytes(32));
+  const prehandle = ethers.keccak256(
+    coder.encode(["uint256[]", "address", "address", "bytes32"], [values, userAddress, contractAddress, salt])
+  );
+  const handles = inputs.map((input, index) =>
+    toHandle(ethers.keccak256(ethers.concat([prehandle, ethers.toBeHex(index, 1)])), index, input.type, chainId)
+  );
+
+  const digest = ethers.keccak256(
+    coder.encode(
+      ["bytes32[]", "uint256[]", "address", "address", "uint256"],
+      [handles, values, userAddress, contractAddress, chainId]
+    )
+  );
+  const signature = await coprocessorSigner.signMessage(ethers.getBytes(digest));
+
+  return {
+    handles,
+    inputProof: coder.encode(["bytes32[]", "uint256[]", "bytes"], [handles, values, signature]),
+  };
+}
+
+/**
+ * Plaintext behind a handle, read straight from the mock executor.
+ * Bypasses the ACL: use it to check results, not to model a user decryption.
+ */
+export async function readPlaintext(handle: string): Promise<bigint> {
+  const executor = await ethers.getContractAt("MockFHEVMExecutor", FHEVM_MOCK_ADDRESSES.executor);
+  return executor.plaintextOf(handle);
+}
+
+/**
+ * Keeps the mock relayer from answering until the next awaitDecryptionOracle(),
+ * so a test can check a contract while its decryption request is pending.
+ */
+export function holdDecryptions(): void {
+  held = true;
+}
+
+/**
+ * Has the mock relayer answer new decryption requests after every block mined
+ * through the Hardhat provider. Runs once per test run.
+ */
+function relayAfterMining(): void {
+  if (relayerHooked) {
+    return;
+  }
+  relayerHooked = true;
+
+  const provider = network.provider;
+  const request = provider.request.bind(provider);
+  const send = provider.send.bind(provider);
+  provider.request = async args => {
+    const result = await request(args);
+    if (MINING_METHODS.has(args.method)) {
+      await relayNewRequests();
+    }
+    return result;
+  };
+  provider.send = async (method, params) => {
+    const result = await send(method, params);
+    if (MINING_METHODS.has(method)) {
+      await relayNewRequests();
+    }
+    return result;
+  };
+}
+
+async function relayerOracle() {
+  const relayer = await ethers.getImpersonatedSigner(RELAYER_ADDRESS);
+  return ethers.getContractAt("MockDecryptionOracle", FHEVM_MOCK_ADDRESSES.decryptionOracle, relayer);
+}
+
+// Decrypts the handles of a request and signs the result like the KMS
+async function answerRequest(counter: bigint, handles: string[]) {
+  const acl = await ethers.getContractAt("MockACL", FHEVM_MOCK_ADDRESSES.acl);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const values: bigint[] = [];
+  for (const handle of handles) {
+    if (!(await acl.isAllowedForDecryption(handle))) {
+      throw new Error(`Decryption request ${counter}: handle ${handle} is not publicly decryptable`);
+    }
+    values.push(await readPlaintext(handle));
+  }
+
+  // Same encoding as the KMS: one 32-byte word per value, then the signatures offset
+  const cleartexts = coder.encode(values.map(() => "uint256"), values);
+  const decryptedResult = ethers.concat([cleartexts, ethers.toBeHex(32 + ethers.dataLength(cleartexts) + 32, 32)]);
+  const digest = ethers.keccak256(coder.encode(["bytes32[]", "bytes"], [handles, decryptedResult]));
+  const decryptionProof = await kmsSigner.signMessage(ethers.getBytes(digest));
+  return { values, cleartexts, decryptionProof };
+}
+
+/**
+ * Answers the requests made since the last call. A request the relayer cannot
+ * answer (a handle that is not publicly decryptable, a reverting callback)
+ * stays pending: awaitDecryptionOracle() reports why.
+ */
+async function relayNewRequests(): Promise<void> {
+  if (held || relaying || (await ethers.provider.getCode(FHEVM_MOCK_ADDRESSES.decryptionOracle)) === "0x") {
+    return;
+  }
+
+  relaying = true;
+  try {
+    const oracle = await relayerOracle();
+    let count = await oracle.getCounter();
+    if (nextCounter > count) {
+      nextCounter = count; // a snapshot was reverted
+    }
+
+    // Callbacks can request decryptions in turn, so read the counter again until it settles
+    while (nextCounter < count) {
+      for (; nextCounter < count; nextCounter++) {
+        const request = await oracle.getRequest(nextCounter);
+        if (request.fulfilled) {
+          continue;
+        }
+
+        const handles: string[] = [...request.handles];
+        let answer;
+        try {
+          answer = await answerRequest(nextCounter, handles);
+          await oracle.fulfillRequest.staticCall(nextCounter, answer.cleartexts, answer.decryptionProof);
+        } catch {
+          continue;
+        }
+        await (await oracle.fulfillRequest(nextCounter, answer.cleartexts, answer.decryptionProof)).wait();
+        delivered.push({ requestID: request.requestID, contractAddress: request.contractCaller, handles, values: answer.values });
+      }
+      count = await oracle.getCounter();
+    }
+  } finally {
+    relaying = false;
+  }
+}
+
+/**
+ * Collects the decryption requests the mock relayer answered, oldest first.
+ * Requests still pending (held with holdDecryptions(), or left unanswered) are
+ * decrypted and delivered to the requesting contract's callback first.
+ *
+ * @param contractAddress Only collect requests made by this contract
+ * @throws When a requested handle was not made publicly decryptable, or a callback reverts
+ */
+export async function awaitDecryptionOracle(contractAddress?: string): Promise<FulfilledDecryption[]> {
+  const caller = contractAddress && ethers.getAddress(contractAddress);
+  held = false;
+
+  relaying = true;
+  try {
+    const oracle = await relayerOracle();
+    const count = await oracle.getCounter();
+    for (let counter = 0n; counter < count; counter++) {
+      const request = await oracle.getRequest(counter);
+      if (request.fulfilled || (caller && request.contractCaller !== caller)) {
+        continue;
+      }
+
+      const handles: string[] = [...request.handles];
+      const answer = await answerRequest(counter, handles);
+      await (await oracle.fulfillRequest(counter, answer.cleartexts, answer.decryptionProof)).wait();
+      delivered.push({ requestID: request.requestID, contractAddress: request.contractCaller, handles, values: answer.values });
+    }
+  } finally {
+    relaying = false;
+  }
+
+  const collected = delivered.filter(answer => !caller || answer.contractAddress === caller);
+  delivered.splice(0, delivered.length, ...delivered.filter(answer => !collected.includes(answer)));
+  return collected;
+}
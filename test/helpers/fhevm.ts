@@ -0,0 +1,195 @@
+/**
+ * fhevm - Typed helpers for testing FHEVM contracts
+ *
+ * Thin layer over the in-process mock (fhevm-mock.ts) so tests encrypt real
+ * inputs and assert on decrypted values instead of only on events. Importing
+ * this module registers the `decryptTo` chai matcher.
+ *
+ *   before(async () => { await installFhevmMock(); });
+ *
+ *   const input = await createEncryptedInput(contract, user).add64(1000n).add8(3).encrypt();
+ *   await contract.connect(user).store(input.handles[0], input.handles[1], input.inputProof);
+ *
+ *   expect(await userDecrypt(await contract.getScore(), contract, user)).to.equal(1000n);
+ *   await expect(await contract.getScore()).to.decryptTo(1000n, user);
+ *
+ *   await contract.reveal(); // the mock relayer has already run the decryption callback
+ *   const [answer] = await awaitPublicDecryption(contract);
+ *
+ *   holdDecryptions(); // to check the contract while a request is pending
+ */
+
+/// <reference path="../../types/fhevm-matchers.d.ts" />
+
+import { use } from "chai";
+import { AddressLike, Signer, resolveAddress } from "ethers";
+import { ethers } from "hardhat";
+import {
+  EncryptedInputs,
+  FHEVM_MOCK_ADDRESSES,
+  FheType,
+  FulfilledDecryption,
+  PlainInput,
+  awaitDecryptionOracle,
+  encryptInputs,
+  readPlaintext,
+} from "./fhevm-mock";
+
+export { EncryptedInputs, FheType, FulfilledDecryption, holdDecryptions, installFhevmMock } from "./fhevm-mock";
+
+// bytes32 handle of an encrypted value, as returned by a contract getter
+export type Handle = string;
+
+// Plaintext a handle is expected to decrypt to; booleans stand for ebool values
+export type Cleartext = bigint | number | boolean;
+
+/** Collects plaintexts for one encrypted input; every value shares the input proof. */
+export class EncryptedInputBuilder {
+  private readonly inputs: PlainInput[] = [];
+
+  constructor(
+    private readonly contract: AddressLike,
+    private readonly user: AddressLike
+  ) {}
+
+  addBool(value: boolean): this {
+    return this.add(FheType.Bool, value);
+  }
+
+  add4(value: bigint | number): this {
+    return this.add(FheType.Uint4, value);
+  }
+
+  add8(value: bigint | number): this {
+    return this.add(FheType.Uint8, value);
+  }
+
+  add16(value: bigint | number): this {
+    return this.add(FheType.Uint16, value);
+  }
+
+  add32(value: bigint | number): this {
+    return this.add(FheType.Uint32, value);
+  }
+
+  add64(value: bigint | number): this {
+    return this.add(FheType.Uint64, value);
+  }
+
+  add128(value: bigint | number): this {
+    return this.add(FheType.Uint128, value);
+  }
+
+  addAddress(value: string): this {
+    return this.add(FheType.Uint160, value);
+  }
+
+  add256(value: bigint | number): this {
+    return this.add(FheType.Uint256, value);
+  }
+
+  /** Handles come back in the order the values were added. */
+  async encrypt(): Promise<EncryptedInputs> {
+    const [contractAddress, userAddress] = await Promise.all([resolveAddress(this.contract), resolveAddress(this.user)]);
+    return encryptInputs(contractAddress, userAddress, this.inputs);
+  }
+
+  private add(type: FheType, value: PlainInput["value"]): this {
+    this.inputs.push({ type, value });
+    return this;
+  }
+}
+
+/**
+ * Starts an encrypted input for `contract`. Only `user` can send it: the
+ * proof is rejected when it reaches another contract or comes from another account.
+ */
+export function createEncryptedInput(contract: AddressLike, user: AddressLike): EncryptedInputBuilder {
+  return new EncryptedInputBuilder(contract, user);
+}
+
+async function isAllowed(handle: Handle, account: string): Promise<boolean> {
+  const acl = await ethers.getContractAt("MockACL", FHEVM_MOCK_ADDRESSES.acl);
+  return acl.isAllowed(handle, account);
+}
+
+// Decrypts like the KMS answering a user decryption request, checking the ACL first
+async function decryptForUser(handle: Handle, userAddress: string, contractAddress?: string): Promise<bigint> {
+  if (BigInt(handle) === 0n) {
+    throw new Error("Cannot decrypt an uninitialized handle");
+  }
+  if (!(await isAllowed(handle, userAddress))) {
+    throw new Error(`${userAddress} is not allowed to decrypt ${handle}`);
+  }
+  if (contractAddress && !(await isAllowed(handle, contractAddress))) {
+    throw new Error(`Contract ${contractAddress} is not allowed to use ${handle}`);
+  }
+  return readPlaintext(handle);
+}
+
+/**
+ * Decrypts a handle as `user`, who must have been granted access with
+ * FHE.allow(), as must `contract`.
+ */
+export async function userDecrypt(handle: Handle, contract: AddressLike, user: Signer): Promise<bigint> {
+  const [contractAddress, userAddress] = await Promise.all([resolveAddress(contract), user.getAddress()]);
+  return decryptForUser(handle, userAddress, contractAddress);
+}
+
+/** Like userDecrypt() for ebool handles. */
+export async function userDecryptBool(handle: Handle, contract: AddressLike, user: Signer): Promise<boolean> {
+  return (await userDecrypt(handle, contract, user)) === 1n;
+}
+
+/**
+ * Returns the public decryption requests of `contract` answered since the last
+ * call, oldest first. Requests still pending are delivered to its callback first.
+ *
+ * @throws When the contract requested no decryption since the last call
+ */
+export async function awaitPublicDecryption(contract: AddressLike): Promise<FulfilledDecryption[]> {
+  const contractAddress = await resolveAddress(contract);
+  const fulfilled = await awaitDecryptionOracle(contractAddress);
+  if (fulfilled.length === 0) {
+    throw new Error(`No public decryption request from ${contractAddress} since the last call`);
+  }
+  return fulfilled;
+}
+
+use((chai, utils) => {
+  chai.Assertion.addMethod("decryptTo", function (
+    this: Chai.AssertionStatic,
+    expected: Cleartext,
+    user?: Signer,
+    contract?: AddressLike
+  ) {
+    const handle: Handle = utils.flag(this, "object");
+    const wanted = BigInt(expected);
+
+    const assertion = (async () => {
+      let actual: bigint;
+      if (user) {
+        actual = await decryptForUser(handle, await user.getAddress(), contract ? await resolveAddress(contract) : undefined);
+      } else {
+        const acl = await ethers.getContractAt("MockACL", FHEVM_MOCK_ADDRESSES.acl);
+        if (!(await acl.isAllowedForDecryption(handle))) {
+          throw new Error(`${handle} is not publicly decryptable; pass the user that decrypts it`);
+        }
+        actual = await readPlaintext(handle);
+      }
+
+      this.assert(
+        actual === wanted,
+        `expected ${handle} to decrypt to #{exp} but got #{act}`,
+        `expected ${handle} not to decrypt to #{exp}`,
+        wanted,
+        actual
+      );
+    })();
+
+    const chained = this as unknown as Promise<void>;
+    chained.then = assertion.then.bind(assertion);
+    chained.catch = assertion.catch.bind(assertion);
+    return chained;
+  });
+});
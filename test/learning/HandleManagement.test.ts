@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+/**
+ * Test suite for HandleManagement contract
+ *
+ * @chapter learning
+ * @description Explains how encrypted handles are created, stored and replaced
+ * @keyFeature Handle creation with FHE.fromExternal()
+ * @keyFeature Operations produce new handles
+ * @keyFeature Handle persistence across transactions
+ * @keyFeature Permission grants per handle
+ */
+describe("HandleManagement", function () {
+  let contract: any;
+  let owner: any;
+  let addr1: any;
+
+  beforeEach(async function () {
+    const Factory = await ethers.getContractFactory("HandleManagement");
+    contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    [owner, addr1] = await ethers.getSigners();
+  });
+
+  it("Should deploy successfully", async function () {
+    expect(await contract.getAddress()).to.be.properAddress;
+  });
+
+  describe("Handle creation", function () {
+    it("Should create a handle from an external value", async function () {
+      const mockValue = 1000n;
+      const mockProof = "0x";
+
+      await expect(contract.createHandle(mockValue, mockProof))
+        .to.emit(contract, "HandleCreated")
+        .withArgs(owner.address);
+    });
+
+    it("Should return a handle, not a plaintext", async function () {
+      const mockValue = 1000n;
+      const mockProof = "0x";
+
+      await contract.createHandle(mockValue, mockProof);
+
+      const handle = await contract.getHandle();
+      expect(handle).to.not.be.undefined;
+    });
+  });
+
+  describe("Handle operations", function () {
+    it("Should replace the stored handle after an operation", async function () {
+      const mockValue = 1000n;
+      const mockProof = "0x";
+
+      await contract.createHandle(mockValue, mockProof);
+
+      await expect(contract.operateOnHandle(500n, mockProof))
+        .to.emit(contract, "HandleUpdated")
+        .withArgs(owner.address);
+    });
+
+    it("Should emit HandleUsed during the lifecycle demonstration", async function () {
+      const mockValue = 42n;
+      const mockProof = "0x";
+
+      await expect(contract.demonstrateHandleLifecycle(mockValue, mockProof))
+        .to.emit(contract, "HandleUsed");
+    });
+  });
+
+  describe("Error handling", function () {
+    it("Should revert when operating without a handle", async function () {
+      await expect(contract.operateOnHandle(500n, "0x"))
+        .to.be.revertedWith("No handle for user");
+    });
+
+    it("Should keep handles separate per user", async function () {
+      await contract.createHandle(1000n, "0x");
+
+      await expect(contract.connect(addr1).getHandle())
+        .to.be.revertedWith("No handle for user");
+    });
+  });
+});
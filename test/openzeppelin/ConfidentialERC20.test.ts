@@ -6,6 +6,15 @@ import { ethers } from "hardhat";
  *
  * @chapter openzeppelin
  * @description Implements ERC7984 standard - confidential ERC20 token with encrypted balances
+ * @keyFeature Encrypted balances and total supply
+ * @keyFeature Confidential transfers with input proofs
+ * @keyFeature Encrypted allowances
+ * @keyFeature Owner-controlled minting
+ * @useCase Private payments
+ * @useCase Confidential payroll
+ * @deployArg _name "Confidential Token"
+ * @deployArg _symbol CONF
+ * @deployArg _decimals 18
  */
 describe("ConfidentialERC20", function () {
   let token: any;
@@ -20,11 +29,12 @@ describe("ConfidentialERC20", function () {
       "CONF",
       18
     );
+    await token.waitForDeployment();
     [owner, recipient, spender] = await ethers.getSigners();
   });
 
   it("Should deploy successfully", async function () {
-    expect(token.address).to.not.be.undefined;
+    expect(await token.getAddress()).to.be.properAddress;
   });
 
   it("Should have correct token metadata", async function () {
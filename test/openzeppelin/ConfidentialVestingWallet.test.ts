@@ -1,11 +1,21 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 /**
  * Test suite for ConfidentialVestingWallet contract
  *
+ * @name vesting-wallet
  * @chapter openzeppelin
  * @description Vesting wallet with encrypted token allocation
+ * @keyFeature Encrypted vesting allocation
+ * @keyFeature Linear vesting schedule
+ * @keyFeature Encrypted released amount tracking
+ * @useCase Private team token vesting
+ * @useCase Confidential investor allocations
+ * @deployArg _beneficiary deployer
+ * @deployArg _startTimestamp now+300
+ * @deployArg _durationSeconds 31536000
  */
 describe("ConfidentialVestingWallet", function () {
   let wallet: any;
@@ -17,8 +27,7 @@ describe("ConfidentialVestingWallet", function () {
   beforeEach(async function () {
     [beneficiary, other] = await ethers.getSigners();
 
-    const currentBlock = await ethers.provider.getBlock("latest");
-    const startTimestamp = currentBlock.timestamp + 100;
+    const startTimestamp = (await time.latest()) + 100;
 
     const WalletFactory = await ethers.getContractFactory("ConfidentialVestingWallet");
     wallet = await WalletFactory.deploy(
@@ -26,10 +35,11 @@ describe("ConfidentialVestingWallet", function () {
       startTimestamp,
       VESTING_DURATION
     );
+    await wallet.waitForDeployment();
   });
 
   it("Should deploy successfully", async function () {
-    expect(wallet.address).to.not.be.undefined;
+    expect(await wallet.getAddress()).to.be.properAddress;
   });
 
   it("Should set correct beneficiary", async function () {
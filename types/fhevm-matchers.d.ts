@@ -0,0 +1,21 @@
+/**
+ * fhevm-matchers - Typing of the chai matchers that test/helpers/fhevm.ts registers
+ *
+ * Kept out of test/, where Hardhat would load it as a test file.
+ */
+
+import type { AddressLike, Signer } from "ethers";
+import type { Cleartext } from "../test/helpers/fhevm";
+
+declare global {
+  namespace Chai {
+    interface Assertion {
+      /**
+       * Asserts that a handle decrypts to `expected`. With `user`, decrypts as
+       * that user (and, with `contract`, checks the contract's access too);
+       * without, the handle must be publicly decryptable.
+       */
+      decryptTo(expected: Cleartext, user?: Signer, contract?: AddressLike): Promise<void>;
+    }
+  }
+}